@@ -0,0 +1,269 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { minimatch } from 'minimatch';
+import { configManager } from './config-manager.js';
+import { APPROVALS_DIR } from './config.js';
+
+/**
+ * A tool call matching a rule needs the user's approval. Every field that is set has to match.
+ */
+export interface ApprovalRule {
+  // Tool name, * matches any characters, e.g. "ssh_*"
+  tool?: string;
+  // Regular expression tested against the command argument
+  command?: string;
+  // Glob tested against the path arguments, a directory also covers everything below it
+  path?: string;
+  description?: string;
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'denied';
+
+/**
+ * A call waiting for approval in the pending approvals directory. The user approves
+ * it by changing its status in the file and adding the approval code from the server log,
+ * or denies it by changing its status.
+ */
+export interface PendingApproval {
+  id: string;
+  tool: string;
+  arguments: unknown;
+  reason: string;
+  // Hash of the tool and its arguments, an approval only applies to the identical call
+  fingerprint: string;
+  status: ApprovalStatus;
+  // Added by the user when approving, the server never writes it
+  code?: string;
+  requestedAt: string;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  message: string;
+}
+
+/**
+ * Asks the user through the MCP client. Resolves to null if the client cannot ask.
+ */
+export type ElicitApproval = (message: string) => Promise<boolean | null>;
+
+// Arguments checked against the command and path of a rule, send_input's input runs as a command in shell sessions
+const COMMAND_ARGUMENTS = ['command', 'input'];
+export const PATH_ARGUMENTS = ['path', 'paths', 'source', 'destination', 'cwd', 'env_file', 'localPath', 'remotePath'];
+// Pending approvals older than this are discarded and requested again
+const APPROVAL_TTL_MS = 60 * 60 * 1000;
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>).sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function expandHome(filepath: string): string {
+  return filepath.replace(/^~(?=$|[\\/])/, os.homedir());
+}
+
+/**
+ * Holds back tool calls that match the approvalRules setting until the user approves them,
+ * through MCP elicitation if the client supports it and the pending approvals directory otherwise.
+ */
+class ApprovalManager {
+  // Approval codes of the pending approvals by id. They are only kept here and shown in the
+  // server log, so a command that edits the pending approval file cannot approve the call.
+  private codes: Map<string, string> = new Map();
+
+  /**
+   * Decide whether a tool call may run
+   *
+   * @param tool - Tool name
+   * @param args - Tool arguments as sent by the client
+   * @param elicit - Asks the user through the client
+   * @returns Whether the call is approved, with a message for the client if it is not
+   */
+  async check(tool: string, args: unknown, elicit: ElicitApproval): Promise<ApprovalDecision> {
+    let rules: ApprovalRule[] = [];
+    try {
+      const config = await configManager.getConfig();
+      rules = Array.isArray(config.approvalRules) ? config.approvalRules : [];
+    } catch (error) {
+      console.error('Error reading approval rules:', error);
+    }
+
+    const rule = rules.find(rule => this.matches(rule, tool, args));
+    if (!rule) {
+      return { approved: true, message: '' };
+    }
+
+    const summary = this.summarize(tool, args);
+    const reason = rule.description || JSON.stringify(rule);
+
+    try {
+      const answer = await elicit(`Allow ${summary}?\nApproval is required by the rule ${reason}.`);
+      if (answer !== null) {
+        return answer
+          ? { approved: true, message: '' }
+          : { approved: false, message: `The user did not approve ${summary}` };
+      }
+    } catch (error) {
+      console.error('Asking for approval through the client failed, using the pending approvals directory:', error);
+    }
+
+    return this.checkPendingApproval(tool, args, reason, summary);
+  }
+
+  /**
+   * List the calls waiting for approval
+   */
+  listPending(): PendingApproval[] {
+    let files: string[];
+    try {
+      files = fs.readdirSync(APPROVALS_DIR).filter(file => file.endsWith('.json'));
+    } catch (error) {
+      return [];
+    }
+    const approvals: PendingApproval[] = [];
+    for (const file of files) {
+      try {
+        approvals.push(JSON.parse(fs.readFileSync(path.join(APPROVALS_DIR, file), 'utf8')));
+      } catch (error) {
+        // Being edited or not an approval
+      }
+    }
+    return approvals;
+  }
+
+  private matches(rule: ApprovalRule, tool: string, args: unknown): boolean {
+    if (!rule || (!rule.tool && !rule.command && !rule.path)) {
+      return false;
+    }
+    if (rule.tool && !minimatch(tool, rule.tool)) {
+      return false;
+    }
+    const values = (args && typeof args === 'object' ? args : {}) as Record<string, unknown>;
+
+    if (rule.command) {
+      const commands = COMMAND_ARGUMENTS.map(key => values[key]).filter((value): value is string => typeof value === 'string');
+      let pattern: RegExp | null = null;
+      try {
+        pattern = new RegExp(rule.command);
+      } catch (error) {
+        // An invalid pattern asks for every command
+      }
+      if (commands.length === 0 || !commands.some(command => pattern === null || pattern.test(command))) {
+        return false;
+      }
+    }
+
+    if (rule.path) {
+      const glob = path.resolve(expandHome(rule.path));
+      const paths = PATH_ARGUMENTS.flatMap(key => Array.isArray(values[key]) ? values[key] as unknown[] : [values[key]])
+        .filter((value): value is string => typeof value === 'string')
+        .map(value => path.resolve(expandHome(value)));
+      if (!paths.some(value => minimatch(value, glob, { dot: true }) || minimatch(value, `${glob}/**`, { dot: true }))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private summarize(tool: string, args: unknown): string {
+    const values = (args && typeof args === 'object' ? args : {}) as Record<string, unknown>;
+    if (typeof values.command === 'string') {
+      return `${tool} running "${values.command}"`;
+    }
+    const text = JSON.stringify(args ?? {});
+    return `${tool} with ${text.length > 500 ? `${text.slice(0, 500)}...` : text}`;
+  }
+
+  /**
+   * Fallback without elicitation. The first call writes a pending approval and is refused;
+   * once the user sets its status to approved with the approval code from the server log,
+   * the identical call runs once.
+   */
+  private checkPendingApproval(tool: string, args: unknown, reason: string, summary: string): ApprovalDecision {
+    const fingerprint = crypto.createHash('sha256').update(stableStringify({ tool, args })).digest('hex');
+    const existing = this.listPending().find(approval => approval.fingerprint === fingerprint);
+    const expired = existing && Date.now() - new Date(existing.requestedAt).getTime() > APPROVAL_TTL_MS;
+    // Approvals this server did not request, e.g. before a restart, are requested again with a new code
+    const requested = existing && this.codes.has(existing.id);
+
+    if (existing && requested && !expired) {
+      const file = this.approvalFile(existing.id);
+      if (existing.status === 'approved' && this.hasValidCode(existing)) {
+        // An approval is used once
+        fs.rmSync(file, { force: true });
+        this.codes.delete(existing.id);
+        return { approved: true, message: '' };
+      }
+      if (existing.status === 'approved') {
+        return {
+          approved: false,
+          message: `${summary} is marked approved in ${file} without the approval code from the server log. Ask the user to add "code" with the code logged for ${existing.id}, then call the tool again with the same arguments.`
+        };
+      }
+      if (existing.status === 'denied') {
+        fs.rmSync(file, { force: true });
+        this.codes.delete(existing.id);
+        return { approved: false, message: `The user denied ${summary}` };
+      }
+      return {
+        approved: false,
+        message: `${summary} is still waiting for approval. Ask the user to set "status" to "approved" or "denied" in ${file}, then call the tool again with the same arguments.`
+      };
+    }
+    if (existing) {
+      fs.rmSync(this.approvalFile(existing.id), { force: true });
+      this.codes.delete(existing.id);
+    }
+
+    const approval: PendingApproval = {
+      id: `approval-${crypto.randomBytes(4).toString('hex')}`,
+      tool,
+      arguments: args ?? {},
+      reason,
+      fingerprint,
+      status: 'pending',
+      requestedAt: new Date().toISOString()
+    };
+    fs.mkdirSync(APPROVALS_DIR, { recursive: true });
+    fs.writeFileSync(this.approvalFile(approval.id), JSON.stringify(approval, null, 2));
+
+    // Only in the server log, which the client keeps for the user, never in a tool result or file
+    const code = crypto.randomBytes(4).toString('hex');
+    this.codes.set(approval.id, code);
+    console.error(`Approval code for ${approval.id} (${summary}): ${code}`);
+
+    return {
+      approved: false,
+      message: `${summary} needs the user's approval (rule ${reason}) and this client cannot ask for it. ` +
+        `Ask the user to set "status" to "approved" and "code" to the approval code for ${approval.id} from the server log in ${this.approvalFile(approval.id)}, ` +
+        `then call the tool again with the same arguments.`
+    };
+  }
+
+  /**
+   * Whether an approval carries the code this server logged for it
+   */
+  private hasValidCode(approval: PendingApproval): boolean {
+    const expected = this.codes.get(approval.id);
+    if (!expected || typeof approval.code !== 'string') {
+      return false;
+    }
+    const given = Buffer.from(approval.code.trim().toLowerCase());
+    return given.length === expected.length && crypto.timingSafeEqual(given, Buffer.from(expected));
+  }
+
+  private approvalFile(id: string): string {
+    return path.join(APPROVALS_DIR, `${id}.json`);
+  }
+}
+
+export const approvalManager = new ApprovalManager();
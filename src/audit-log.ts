@@ -0,0 +1,222 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { configManager } from './config-manager.js';
+import { PATH_ARGUMENTS } from './approval-manager.js';
+import { redactSecrets } from './redaction.js';
+import { AUDIT_LOG_FILE, DEFAULT_AUDIT_LOG_MAX_BYTES, DEFAULT_AUDIT_LOG_MAX_FILES } from './config.js';
+import { ServerResult } from './types.js';
+
+/**
+ * One tool call in the audit log, written as a line of JSON
+ */
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  // Arguments with secrets redacted and long values shortened
+  arguments: Record<string, unknown>;
+  // Absolute paths the call was given
+  paths: string[];
+  command: string | null;
+  status: 'ok' | 'error';
+  exitCode: number | null;
+  // First line of the error message
+  error: string | null;
+  durationMs: number;
+  // Bytes of content returned to the client
+  resultBytes: number;
+}
+
+export interface AuditQuery {
+  since?: Date;
+  until?: Date;
+  // Tool name, * matches any characters
+  tool?: string;
+  // Entries with a path equal to or below this one
+  path?: string;
+  command?: RegExp;
+  errorsOnly?: boolean;
+  limit?: number;
+}
+
+// Argument names whose values are never written to the log
+const SECRET_ARGUMENT = /pass(word|phrase)|secret|token|api_?key|credential/i;
+// Arguments whose keys are logged but not their values
+const VALUE_REDACTED_ARGUMENTS = ['env'];
+const MAX_LOGGED_STRING_LENGTH = 1000;
+const REDACTED = '[REDACTED]';
+
+function expandHome(filepath: string): string {
+  return filepath.replace(/^~(?=$|[\\/])/, os.homedir());
+}
+
+function sanitize(value: unknown, key = ''): unknown {
+  if (key && SECRET_ARGUMENT.test(key)) {
+    return REDACTED;
+  }
+  if (typeof value === 'string') {
+    return redactSecrets(value.length > MAX_LOGGED_STRING_LENGTH
+      ? `${value.slice(0, MAX_LOGGED_STRING_LENGTH)}... (${value.length} characters)`
+      : value).text;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => sanitize(item));
+  }
+  if (value && typeof value === 'object') {
+    const redactValues = VALUE_REDACTED_ARGUMENTS.includes(key);
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>)
+      .map(([name, item]) => [name, redactValues ? REDACTED : sanitize(item, name)]));
+  }
+  return value;
+}
+
+function toolPaths(values: Record<string, unknown>): string[] {
+  const paths = PATH_ARGUMENTS.flatMap(key => Array.isArray(values[key]) ? values[key] as unknown[] : [values[key]])
+    .filter((value): value is string => typeof value === 'string' && value !== '')
+    // A remote path is kept as it is
+    .map(value => value === values.remotePath ? value : path.resolve(expandHome(value)));
+  return [...new Set(paths)];
+}
+
+function exitCodeOf(result: ServerResult): number | null {
+  const structured = result.structuredContent?.exitCode;
+  if (typeof structured === 'number') {
+    return structured;
+  }
+  // SSH tools only report it in their text
+  for (const item of result.content) {
+    const match = item.type === 'text' && typeof item.text === 'string' ? item.text.match(/^Exit Code: (-?\d+)$/m) : null;
+    if (match) {
+      return Number(match[1]);
+    }
+  }
+  return null;
+}
+
+function resultBytes(result: ServerResult): number {
+  return result.content.reduce((total, item) => {
+    const value = item.type === 'text' ? item.text : item.data;
+    return total + (typeof value === 'string' ? Buffer.byteLength(value) : 0);
+  }, 0);
+}
+
+/**
+ * Appends every tool call to a JSONL file in the config directory and rotates it
+ * once it reaches auditLogMaxBytes, keeping auditLogMaxFiles older files.
+ */
+class AuditLog {
+  // Appends are written one after another so rotation never splits a line
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Record a finished tool call. Writing happens in the background and never fails the call.
+   *
+   * @param tool - Tool name
+   * @param args - Tool arguments as sent by the client
+   * @param result - Result returned to the client
+   * @param startedAt - When the call started
+   */
+  record(tool: string, args: unknown, result: ServerResult, startedAt: Date): void {
+    const values = (args && typeof args === 'object' && !Array.isArray(args) ? args : {}) as Record<string, unknown>;
+    const errorText = result.isError
+      ? result.content.find(item => item.type === 'text')?.text?.split('\n')[0] ?? ''
+      : null;
+
+    const entry: AuditEntry = {
+      timestamp: startedAt.toISOString(),
+      tool,
+      arguments: sanitize(values) as Record<string, unknown>,
+      paths: toolPaths(values),
+      command: typeof values.command === 'string' ? redactSecrets(values.command).text : null,
+      status: result.isError ? 'error' : 'ok',
+      exitCode: exitCodeOf(result),
+      error: errorText,
+      durationMs: Date.now() - startedAt.getTime(),
+      resultBytes: resultBytes(result)
+    };
+
+    this.writes = this.writes
+      .then(() => this.append(entry))
+      .catch(error => console.error('Error writing the audit log:', error));
+  }
+
+  /**
+   * Find entries in the audit log and its rotated files
+   *
+   * @param query - Filters, every one that is set has to match
+   * @returns Matching entries, newest first
+   */
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    // Include appends that are still being written
+    await this.writes;
+
+    const limit = query.limit ?? 50;
+    const queryPath = query.path ? path.resolve(expandHome(query.path)) : null;
+    const matches: AuditEntry[] = [];
+
+    const config = await configManager.getConfig();
+    const maxFiles = config.auditLogMaxFiles ?? DEFAULT_AUDIT_LOG_MAX_FILES;
+    // The current file holds the newest entries, audit.1.jsonl the next newest and so on
+    for (let index = 0; index <= maxFiles && matches.length < limit; index++) {
+      let lines: string[];
+      try {
+        lines = (await fs.promises.readFile(this.logFile(index), 'utf8')).split('\n');
+      } catch (error) {
+        continue;
+      }
+      for (let line = lines.length - 1; line >= 0 && matches.length < limit; line--) {
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(lines[line]);
+        } catch (error) {
+          // Empty or cut short
+          continue;
+        }
+        const timestamp = new Date(entry.timestamp).getTime();
+        if (query.since && timestamp < query.since.getTime()) continue;
+        if (query.until && timestamp > query.until.getTime()) continue;
+        if (query.tool && !minimatch(entry.tool, query.tool)) continue;
+        if (query.errorsOnly && entry.status !== 'error') continue;
+        if (query.command && !(entry.command !== null && query.command.test(entry.command))) continue;
+        if (queryPath && !entry.paths.some(value => value === queryPath || value.startsWith(queryPath.endsWith(path.sep) ? queryPath : queryPath + path.sep))) continue;
+        matches.push(entry);
+      }
+    }
+    return matches;
+  }
+
+  private async append(entry: AuditEntry): Promise<void> {
+    const config = await configManager.getConfig();
+    if (config.auditLog === false) {
+      return;
+    }
+    const line = `${JSON.stringify(entry)}\n`;
+    const maxBytes = config.auditLogMaxBytes || DEFAULT_AUDIT_LOG_MAX_BYTES;
+    const maxFiles = config.auditLogMaxFiles ?? DEFAULT_AUDIT_LOG_MAX_FILES;
+
+    await fs.promises.mkdir(path.dirname(AUDIT_LOG_FILE), { recursive: true });
+    const size = await fs.promises.stat(AUDIT_LOG_FILE).then(stats => stats.size, () => 0);
+    if (size > 0 && size + Buffer.byteLength(line) > maxBytes) {
+      await this.rotate(maxFiles);
+    }
+    await fs.promises.appendFile(AUDIT_LOG_FILE, line, { mode: 0o600 });
+  }
+
+  /**
+   * Shift audit.jsonl to audit.1.jsonl, audit.1.jsonl to audit.2.jsonl and so on,
+   * dropping the file that would go beyond maxFiles
+   */
+  private async rotate(maxFiles: number): Promise<void> {
+    await fs.promises.rm(this.logFile(Math.max(maxFiles, 0)), { force: true });
+    for (let index = maxFiles - 1; index >= 0; index--) {
+      await fs.promises.rename(this.logFile(index), this.logFile(index + 1)).catch(() => undefined);
+    }
+  }
+
+  private logFile(index: number): string {
+    return index === 0 ? AUDIT_LOG_FILE : AUDIT_LOG_FILE.replace(/\.jsonl$/, `.${index}.jsonl`);
+  }
+}
+
+export const auditLog = new AuditLog();
@@ -0,0 +1,104 @@
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * config uses the allowedDirectories setting, roots the workspace roots the client announces
+ * and intersection only the directories that are in both
+ */
+export type AllowedDirectoriesSource = 'config' | 'roots' | 'intersection';
+
+export const ALLOWED_DIRECTORIES_SOURCES: AllowedDirectoriesSource[] = ['config', 'roots', 'intersection'];
+
+export function isAllowedDirectoriesSource(value: unknown): value is AllowedDirectoriesSource {
+  return ALLOWED_DIRECTORIES_SOURCES.includes(value as AllowedDirectoriesSource);
+}
+
+function resolveDirectory(directory: string): string {
+  if (directory === '~' || directory.startsWith('~/')) {
+    return path.join(os.homedir(), directory.slice(1));
+  }
+  return path.resolve(directory);
+}
+
+function isWithin(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Holds the workspace roots the MCP client announced with roots/list
+ */
+class RootsManager {
+  // null until the client has listed its roots, or if it does not support them
+  private roots: string[] | null = null;
+
+  /**
+   * Replace the roots with the ones the client listed. Roots that are not file:// URIs are ignored.
+   *
+   * @param uris - URIs from the roots/list result
+   */
+  setRoots(uris: string[]): void {
+    const roots: string[] = [];
+    for (const uri of uris) {
+      try {
+        roots.push(path.resolve(fileURLToPath(uri)));
+      } catch (error) {
+        console.error(`Ignoring client root ${uri}, only file:// roots are supported`);
+      }
+    }
+    this.roots = roots;
+  }
+
+  /**
+   * Forget the roots, e.g. when they cannot be listed anymore
+   */
+  clear(): void {
+    this.roots = null;
+  }
+
+  /**
+   * The roots the client listed, null if it has not listed any
+   */
+  getRoots(): string[] | null {
+    return this.roots === null ? null : [...this.roots];
+  }
+
+  /**
+   * Whether the allowed directories come from client roots. Until the client has
+   * listed its roots the allowedDirectories setting is used for every source.
+   */
+  usesRoots(source: unknown): boolean {
+    return this.roots !== null && isAllowedDirectoriesSource(source) && source !== 'config';
+  }
+
+  /**
+   * Combine the allowedDirectories setting with the client roots
+   *
+   * @param configured - Directories from the allowedDirectories setting, empty or '/' allowing everything
+   * @param source - Value of the allowedDirectoriesSource setting
+   * @returns The allowed directories. When they come from client roots an empty list allows nothing.
+   */
+  allowedDirectories(configured: string[], source: unknown): string[] {
+    if (!this.usesRoots(source) || this.roots === null) {
+      return configured;
+    }
+    if (source === 'roots' || configured.length === 0 || configured.includes('/')) {
+      return [...this.roots];
+    }
+    // The deeper of two nested directories is the part both allow
+    const directories = new Set<string>();
+    for (const root of this.roots) {
+      for (const directory of configured.map(resolveDirectory)) {
+        if (isWithin(root, directory)) {
+          directories.add(root);
+        } else if (isWithin(directory, root)) {
+          directories.add(directory);
+        }
+      }
+    }
+    return [...directories];
+  }
+}
+
+export const rootsManager = new RootsManager();
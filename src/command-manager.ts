@@ -1,120 +1,164 @@
-import {configManager} from './config-manager.js';
+import os from 'os';
+import path from 'path';
+import {minimatch} from 'minimatch';
+import {configManager, ServerConfig} from './config-manager.js';
 import {capture} from "./utils.js";
+import {resolveShell, ResolvedCommand, ShellResolution} from "./shell-parser.js";
+import {modeManager} from "./server-mode.js";
+import {CONFIG_DIR} from "./config.js";
 
-class CommandManager {
+export type CommandPolicyMode = 'denylist' | 'allowlist';
 
-    getBaseCommand(command: string) {
-        return command.split(' ')[0].toLowerCase().trim();
-    }
+export interface CommandRule {
+    action: 'allow' | 'deny';
+    // Base command the rule applies to, e.g. "git"
+    command?: string;
+    // Regular expression tested against the command with its arguments
+    pattern?: string;
+    description?: string;
+}
 
-    extractCommands(commandString: string): string[] {
-        try {
-            // Trim any leading/trailing whitespace
-            commandString = commandString.trim();
+export interface DirectoryCommandPolicy {
+    mode?: CommandPolicyMode;
+    rules?: CommandRule[];
+}
 
-            // Define command separators - these are the operators that can chain commands
-            const separators = [';', '&&', '||', '|', '&'];
+export interface CommandCheckResult {
+    allowed: boolean;
+    // The rule that decided, if a rule did
+    rule?: CommandRule;
+    reason: string;
+    // The chained command that was denied
+    segment?: string;
+}
 
-            // This will store our extracted commands
-            const commands: string[] = [];
+export interface HostCommandPolicy extends DirectoryCommandPolicy {
+    // Added to sshBlockedCommands for this host
+    blockedCommands?: string[];
+}
 
-            // Split by common separators while preserving quotes
-            let inQuote = false;
-            let quoteChar = '';
-            let currentCmd = '';
-            let escaped = false;
+export interface SSHTarget {
+    host: string;
+    username?: string;
+}
 
-            for (let i = 0; i < commandString.length; i++) {
-                const char = commandString[i];
+// Redirection targets that do not change anything on disk
+const HARMLESS_WRITE_TARGETS = /^\/dev\/(null|stdout|stderr|tty|fd\/\d+)$/;
 
-                // Handle escape characters
-                if (char === '\\' && !escaped) {
-                    escaped = true;
-                    currentCmd += char;
-                    continue;
-                }
+// Name of the server's own directory. Commands mentioning it are matched by the name, since
+// $HOME and relative paths in them are not expanded.
+const SERVER_STATE_DIR_NAME = path.basename(CONFIG_DIR);
 
-                // If this character is escaped, just add it
-                if (escaped) {
-                    escaped = false;
-                    currentCmd += char;
-                    continue;
-                }
+/**
+ * Whether a word names the server's directory, as written or through a glob or brace
+ * expansion such as ~/.claude-s*
+ */
+function mentionsServerState(word: string): boolean {
+    return word.includes(SERVER_STATE_DIR_NAME)
+        || word.split(/[\\/=]/).some(part => /[*?[{]/.test(part) && minimatch(SERVER_STATE_DIR_NAME, part));
+}
 
-                // Handle quotes (both single and double)
-                if ((char === '"' || char === "'") && !inQuote) {
-                    inQuote = true;
-                    quoteChar = char;
-                    currentCmd += char;
-                    continue;
-                } else if (char === quoteChar && inQuote) {
-                    inQuote = false;
-                    quoteChar = '';
-                    currentCmd += char;
-                    continue;
-                }
+const READONLY_COMMANDS = [
+    'ls', 'cat', 'head', 'tail', 'grep', 'egrep', 'fgrep', 'rg', 'find', 'locate', 'tree',
+    'wc', 'stat', 'file', 'du', 'df', 'pwd', 'cd', 'echo', 'printf', 'true', 'false', 'test', '[',
+    'which', 'whereis', 'type', 'whoami', 'id', 'groups', 'uname', 'hostname', 'uptime', 'date',
+    'env', 'printenv', 'ps', 'pgrep', 'free', 'lsof', 'ss', 'netstat', 'journalctl',
+    'diff', 'cmp', 'comm', 'sort', 'uniq', 'cut', 'tr', 'column', 'nl', 'jq',
+    'realpath', 'readlink', 'basename', 'dirname', 'md5sum', 'sha1sum', 'sha256sum',
+    'xxd', 'hexdump', 'od', 'strings', 'xargs', 'timeout'
+];
 
-                // If we're inside quotes, just add the character
-                if (inQuote) {
-                    currentCmd += char;
-                    continue;
-                }
+// Programs that run commands typed into them: shells, pagers and monitors with shell escapes,
+// editors, interpreters and clients. Input is not sent to them in readonly mode.
+const INTERACTIVE_COMMANDS = [
+    'sh', 'bash', 'zsh', 'dash', 'ksh', 'mksh', 'ash', 'yash', 'posh', 'fish', 'csh', 'tcsh',
+    'less', 'more', 'most', 'man', 'top', 'htop', 'atop', 'watch',
+    'vi', 'vim', 'nvim', 'view', 'nano', 'emacs', 'ed', 'ex',
+    'python', 'python3', 'node', 'perl', 'ruby', 'irb', 'php', 'lua', 'R', 'ghci', 'bc',
+    'ssh', 'telnet', 'ftp', 'sftp', 'mysql', 'psql', 'sqlite3', 'redis-cli', 'mongo', 'mongosh', 'gdb', 'lldb'
+];
 
-                // Handle subshells - if we see an opening parenthesis, we need to find its matching closing parenthesis
-                if (char === '(') {
-                    // Find the matching closing parenthesis
-                    let openParens = 1;
-                    let j = i + 1;
-                    while (j < commandString.length && openParens > 0) {
-                        if (commandString[j] === '(') openParens++;
-                        if (commandString[j] === ')') openParens--;
-                        j++;
-                    }
-
-                    // Skip to after the closing parenthesis
-                    if (j <= commandString.length) {
-                        const subshellContent = commandString.substring(i + 1, j - 1);
-                        // Recursively extract commands from the subshell
-                        const subCommands = this.extractCommands(subshellContent);
-                        commands.push(...subCommands);
-
-                        // Move position past the subshell
-                        i = j - 1;
-                        continue;
-                    }
-                }
+// Commands that write their operands after the first ones, e.g. uniq in out, and their options taking a separate value
+const OUTPUT_OPERANDS: Record<string, { inputs: number; valueOptions: string[] }> = {
+    uniq: { inputs: 1, valueOptions: ['-f', '-s', '-w', '--skip-fields', '--skip-chars', '--check-chars'] },
+    xxd: { inputs: 1, valueOptions: ['-c', '-cols', '-g', '-groupsize', '-l', '-len', '-o', '-offset', '-s', '-seek', '-n', '-name'] }
+};
 
-                // Check for separators
-                let isSeparator = false;
-                for (const separator of separators) {
-                    if (commandString.startsWith(separator, i)) {
-                        // We found a separator - extract the command before it
-                        if (currentCmd.trim()) {
-                            const baseCommand = this.extractBaseCommand(currentCmd.trim());
-                            if (baseCommand) commands.push(baseCommand);
-                        }
-
-                        // Move past the separator
-                        i += separator.length - 1;
-                        currentCmd = '';
-                        isSeparator = true;
-                        break;
-                    }
-                }
+/**
+ * Files a command writes through its operands, '-' being standard output
+ */
+function outputOperands(resolved: ResolvedCommand): string[] {
+    const spec = OUTPUT_OPERANDS[resolved.name];
+    if (!spec) {
+        return [];
+    }
+    const operands: string[] = [];
+    let optionsEnded = false;
+    for (let i = 0; i < resolved.args.length; i++) {
+        const arg = resolved.args[i];
+        if (!optionsEnded && arg === '--') {
+            optionsEnded = true;
+        } else if (!optionsEnded && arg.startsWith('-') && arg !== '-') {
+            if (spec.valueOptions.includes(arg)) i++;
+        } else {
+            operands.push(arg);
+        }
+    }
+    return operands.slice(spec.inputs).filter(operand => operand !== '-');
+}
 
-                if (!isSeparator) {
-                    currentCmd += char;
-                }
-            }
+/**
+ * Rules for readonly mode when readonlyCommandRules is not set: commands that only read,
+ * without the options some of them have for writing files
+ */
+export const DEFAULT_READONLY_COMMAND_RULES: CommandRule[] = [
+    { action: 'deny', command: 'find', pattern: '\\s-(delete|fprint0?|fprintf|fls)\\b' },
+    { action: 'deny', command: 'sort', pattern: '\\s(-[a-zA-Z]*o|--output|--compress-program)' },
+    { action: 'deny', command: 'tree', pattern: '\\s(-o|--output)' },
+    { action: 'deny', command: 'date', pattern: '\\s(-[uR]*s|--set\\b)' },
+    // Only the options that print names, any other argument sets the host name
+    { action: 'deny', command: 'hostname', pattern: '^hostname(?!(\\s+(-[aAdfiIsyVh]+|--(alias|all-fqdns|all-ip-addresses|domain|fqdn|long|ip-address|short|yp|nis|help|version)))*\\s*$)' },
+    { action: 'deny', command: 'journalctl', pattern: '\\s--(vacuum|rotate|flush|relinquish-var|setup-keys)' },
+    { action: 'deny', command: 'git', pattern: '\\s(--output\\b|-O|--open-files-in-pager)' },
+    // Both run programs of their own choosing: external diff drivers and config such as core.pager
+    { action: 'deny', command: 'git', pattern: '\\s(--ext-diff\\b|-c(\\s|$)|--config-env\\b)' },
+    // Preprocessors are programs run on every searched file
+    { action: 'deny', command: 'rg', pattern: '\\s--pre(-glob)?\\b' },
+    // Variables set for the command, e.g. PAGER or GIT_EXTERNAL_DIFF, can make it run other programs
+    { action: 'deny', command: 'env', pattern: '\\s([A-Za-z_][A-Za-z0-9_]*=|-S|--split-string\\b)' },
+    // printf -v assigns a shell variable, which may be exported
+    { action: 'deny', command: 'printf', pattern: '\\s-v\\b' },
+    { action: 'allow', command: 'git', pattern: '^git\\s+(status|log|diff|show|blame|ls-files|ls-tree|rev-parse|describe|grep|shortlog|cat-file)\\b' },
+    { action: 'allow', command: 'systemctl', pattern: '^systemctl\\s+(status|show|cat|list-units|list-unit-files|is-active|is-enabled|is-failed)\\b' },
+    { action: 'allow', command: 'docker', pattern: '^docker\\s+(ps|images|logs|inspect|version|info)\\b' },
+    { action: 'allow', command: 'kubectl', pattern: '^kubectl\\s+(get|describe|logs|version|explain|top)\\b' },
+    ...READONLY_COMMANDS.map(command => ({ action: 'allow' as const, command }))
+];
 
-            // Don't forget to add the last command
-            if (currentCmd.trim()) {
-                const baseCommand = this.extractBaseCommand(currentCmd.trim());
-                if (baseCommand) commands.push(baseCommand);
-            }
+/**
+ * Thrown by the SSH tools for commands the policy denies, so that callers can report
+ * them like denied local commands
+ */
+export class CommandNotAllowedError extends Error {
+    readonly result: CommandCheckResult;
+
+    constructor(command: string, result: CommandCheckResult) {
+        super(commandManager.formatDenial(command, result));
+        this.name = 'CommandNotAllowedError';
+        this.result = result;
+    }
+}
+
+class CommandManager {
+
+    getBaseCommand(command: string) {
+        return command.split(' ')[0].toLowerCase().trim();
+    }
 
+    extractCommands(commandString: string): string[] {
+        try {
             // Remove duplicates and return
-            return [...new Set(commands)];
+            return [...new Set(this.resolveCommands(commandString).map(command => command.name))];
         } catch (error) {
             // If anything goes wrong, log the error but return the basic command to not break execution
             capture('server_request_error', {
@@ -124,61 +168,360 @@ class CommandManager {
         }
     }
 
-    // This extracts the actual command name from a command string
-    extractBaseCommand(commandStr: string): string | null {
+    // Every command the command line may run, falling back to its first word if there are none
+    resolveCommands(commandString: string, resolution: ShellResolution = resolveShell(commandString)): ResolvedCommand[] {
+        const commands = resolution.commands;
+        if (commands.length === 0 && commandString.trim()) {
+            const baseCommand = this.getBaseCommand(commandString.trim());
+            return [{ name: baseCommand, args: [], text: commandString.trim() }];
+        }
+        return commands;
+    }
+
+    /**
+     * Check a command against blockedCommands and the command policy.
+     * blockedCommands always applies. After that the rules of the most specific directory
+     * override containing directories, which override the global rules, and the first
+     * matching rule decides for each chained command. Commands no rule matches are allowed
+     * in denylist mode and denied in allowlist mode.
+     *
+     * @param command - Full command line
+     * @param cwd - Directory the command runs in, selects the per-directory policies
+     * @returns Whether the command may run and the rule that decided it
+     */
+    async checkCommand(command: string, cwd: string = process.cwd()): Promise<CommandCheckResult> {
         try {
-            // Remove environment variables (patterns like KEY=value)
-            const withoutEnvVars = commandStr.replace(/\w+=\S+\s*/g, '').trim();
+            const config = await configManager.getConfig();
+            const stateWrite = this.checkServerStateWrites(command, cwd);
+            if (stateWrite) {
+                return stateWrite;
+            }
+            // The policy of every directory the command line changes into applies as well
+            const directories = this.commandDirectories(command, cwd, config);
+            if (directories === null) {
+                return { allowed: false, reason: 'changes to a directory that is only known when it runs, so directoryCommandPolicies cannot be checked', segment: command.trim() };
+            }
+            let result: CommandCheckResult | undefined;
+            for (const directory of directories) {
+                const { mode, rules } = this.resolvePolicy(config, directory);
+                const directoryResult = this.evaluate(command, config.blockedCommands || [], mode, rules, { blocked: 'blockedCommands', mode: 'commandPolicyMode' });
+                if (!directoryResult.allowed) {
+                    return directory === cwd ? directoryResult : { ...directoryResult, reason: `${directoryResult.reason} in ${directory}` };
+                }
+                result = result ?? directoryResult;
+            }
+            return result!.allowed && await modeManager.getMode() === 'readonly' ? this.checkReadOnly(command, config) : result!;
+        } catch (error) {
+            console.error('Error validating command:', error);
+            // If there's an error, default to allowing the command
+            // This is less secure but prevents blocking all commands due to config issues
+            return { allowed: true, reason: 'policy could not be evaluated' };
+        }
+    }
 
-            // If nothing remains after removing env vars, return null
-            if (!withoutEnvVars) return null;
+    /**
+     * In readonly mode, check that a running session may be sent input: its command has to
+     * pass the read-only check and may not be a program that runs commands typed into it.
+     * Sessions in a terminal take no input, since read-only commands such as git log start
+     * a pager there. Other modes leave the session's command alone.
+     *
+     * @param session - Command the session was started with, the directory it runs in and whether it has a terminal
+     * @returns Whether input may be sent and why not
+     */
+    async checkSessionInput({ command, cwd, pty }: { command: string; cwd: string; pty: boolean }): Promise<CommandCheckResult> {
+        if (await modeManager.getMode() !== 'readonly') {
+            return { allowed: true, reason: 'mode is not readonly' };
+        }
+        if (pty) {
+            return { allowed: false, reason: 'commands in a terminal may start a pager that runs commands typed into it, mode is readonly', segment: command };
+        }
+        const result = await this.checkCommand(command, cwd);
+        if (!result.allowed) {
+            return { ...result, reason: `the session's command is not allowed: ${result.reason}` };
+        }
+        const interactive = this.resolveCommands(command).find(resolved => INTERACTIVE_COMMANDS.includes(resolved.name));
+        if (interactive) {
+            return { allowed: false, reason: `${interactive.name} runs commands typed into it, mode is readonly`, segment: interactive.text };
+        }
+        return result;
+    }
 
-            // Get the first token (the command)
-            const tokens = withoutEnvVars.split(/\s+/);
-            const firstToken = tokens[0];
+    /**
+     * Check input sent to a shell session opened with open_shell. The shell runs it, so it is
+     * checked like a command run in the shell's directory. It also has to end a complete line:
+     * input left inside quotes, a heredoc or a line continuation would be joined with the next
+     * input into commands that were never checked.
+     *
+     * @param input - Input as written to the shell, with its final newline
+     * @param cwd - The shell's current directory
+     * @returns Whether the input may be sent and the rule that decided it
+     */
+    async checkShellInput(input: string, cwd: string): Promise<CommandCheckResult> {
+        if (!input.endsWith('\n') || resolveShell(input).incomplete) {
+            return { allowed: false, reason: 'input to a shell has to end a complete line, outside quotes, heredocs and line continuations', segment: input.trim() };
+        }
+        return this.checkCommand(input, cwd);
+    }
 
-            // Check if it starts with special characters like (, $ that might indicate it's not a regular command
-            if (['(', '$'].includes(firstToken[0])) {
-                return null;
-            }
+    /**
+     * Check a command sent to a remote host over SSH. Remote commands have a policy of
+     * their own: sshBlockedCommands (blockedCommands if it is not set), sshCommandPolicyMode and sshCommandRules, refined by the
+     * sshHostCommandPolicies matching the host. Host keys are host names or user@host and may
+     * contain * wildcards, more specific keys take precedence.
+     *
+     * @param command - Full command line
+     * @param target - Host and user the command runs as
+     * @returns Whether the command may run and the rule that decided it
+     */
+    async checkSSHCommand(command: string, target: SSHTarget): Promise<CommandCheckResult> {
+        try {
+            const config = await configManager.getConfig();
+            let mode: CommandPolicyMode = config.sshCommandPolicyMode === 'allowlist' ? 'allowlist' : 'denylist';
+            let rules: CommandRule[] = Array.isArray(config.sshCommandRules) ? config.sshCommandRules : [];
+            // Without sshBlockedCommands the local blockedCommands apply, so that remote commands are never less restricted by default
+            let blockedCommands: string[] = Array.isArray(config.sshBlockedCommands) ? config.sshBlockedCommands
+                : Array.isArray(config.blockedCommands) ? config.blockedCommands : [];
 
-            return firstToken.toLowerCase();
+            // Least specific first, so that more specific policies end up in front
+            for (const policy of this.matchingHostPolicies(config.sshHostCommandPolicies || {}, target).reverse()) {
+                if (policy.mode === 'allowlist' || policy.mode === 'denylist') {
+                    mode = policy.mode;
+                }
+                if (Array.isArray(policy.rules)) {
+                    rules = [...policy.rules, ...rules];
+                }
+                if (Array.isArray(policy.blockedCommands)) {
+                    blockedCommands = [...blockedCommands, ...policy.blockedCommands];
+                }
+            }
+            const blockedSetting = Array.isArray(config.sshBlockedCommands) ? 'sshBlockedCommands' : 'blockedCommands';
+            const result = this.evaluate(command, blockedCommands, mode, rules, { blocked: blockedSetting, mode: 'sshCommandPolicyMode' });
+            return result.allowed && await modeManager.getMode() === 'readonly' ? this.checkReadOnly(command, config) : result;
         } catch (error) {
-            capture('Error extracting base command');
+            console.error('Error validating SSH command:', error);
+            // Same fallback as for local commands
+            return { allowed: true, reason: 'policy could not be evaluated' };
+        }
+    }
+
+    /**
+     * Throw a CommandNotAllowedError if the SSH command policy denies a command
+     */
+    async assertSSHCommandAllowed(command: string, target: SSHTarget): Promise<void> {
+        const result = await this.checkSSHCommand(command, target);
+        if (!result.allowed) {
+            throw new CommandNotAllowedError(command, result);
+        }
+    }
+
+    async validateCommand(command: string, cwd?: string): Promise<boolean> {
+        return (await this.checkCommand(command, cwd)).allowed;
+    }
+
+    /**
+     * Text for a denied command, naming the rule or setting that denied it
+     */
+    formatDenial(command: string, result: CommandCheckResult): string {
+        return `Command not allowed: ${command} (${result.reason})`;
+    }
+
+    /**
+     * Command lines that mention the server's own directory, or run in it, may only read there
+     * whatever the policy says, so that a command cannot forge approvals or change the config.
+     * They may not redirect output to files, and every command they run needs an allow rule
+     * in the default read-only rules.
+     *
+     * @returns The denial, or null if the command line does not write there
+     */
+    private checkServerStateWrites(command: string, cwd: string): CommandCheckResult | null {
+        const resolution = resolveShell(command);
+        const relativeCwd = path.relative(CONFIG_DIR, path.resolve(cwd));
+        const inStateDir = relativeCwd === '' || (!relativeCwd.startsWith('..') && !path.isAbsolute(relativeCwd));
+        const mentions = resolution.writes.some(mentionsServerState)
+            || resolution.commands.some(resolved => [resolved.name, ...resolved.args].some(mentionsServerState));
+        if (!inStateDir && !mentions) {
             return null;
         }
+
+        const protectedState = `the server's config, pending approvals and audit log cannot be changed by commands`;
+        const written = resolution.writes.find(target => !HARMLESS_WRITE_TARGETS.test(target));
+        if (written !== undefined) {
+            return { allowed: false, reason: `writes to ${written}, ${protectedState}`, segment: command.trim() };
+        }
+        for (const resolved of resolution.commands) {
+            const rule = this.findRule(DEFAULT_READONLY_COMMAND_RULES, resolved.text, resolved.name);
+            if (rule?.action !== 'allow' || outputOperands(resolved).length > 0) {
+                return { allowed: false, reason: `${resolved.name} may write to ${CONFIG_DIR}, ${protectedState}`, segment: resolved.text };
+            }
+        }
+        return null;
     }
 
-    async validateCommand(command: string): Promise<boolean> {
-        try {
-            // Get blocked commands from config
-            const config = await configManager.getConfig();
-            const blockedCommands = config.blockedCommands || [];
-            
-            // Extract all commands from the command string
-            const allCommands = this.extractCommands(command);
-            
-            // If there are no commands extracted, fall back to base command
-            if (allCommands.length === 0) {
-                const baseCommand = this.getBaseCommand(command);
-                return !blockedCommands.includes(baseCommand);
+    /**
+     * In readonly mode a command line may not redirect output to files, name output files
+     * as operands or set variables, and every command it runs needs an allow rule in
+     * readonlyCommandRules, or in the default read-only rules
+     */
+    private checkReadOnly(command: string, config: ServerConfig): CommandCheckResult {
+        const resolution = resolveShell(command);
+        const written = resolution.writes.find(target => !HARMLESS_WRITE_TARGETS.test(target));
+        if (written !== undefined) {
+            return { allowed: false, reason: `writes to ${written}, mode is readonly`, segment: command.trim() };
+        }
+        if (resolution.assignments.length > 0) {
+            const variable = resolution.assignments[0].split('=')[0];
+            return { allowed: false, reason: `sets ${variable}, variables can make read-only commands run other programs, mode is readonly`, segment: command.trim() };
+        }
+        for (const resolved of resolution.commands) {
+            const output = outputOperands(resolved).find(target => !HARMLESS_WRITE_TARGETS.test(target));
+            if (output !== undefined) {
+                return { allowed: false, reason: `writes to ${output}, mode is readonly`, segment: resolved.text };
             }
-            
-            // Check if any of the extracted commands are in the blocked list
-            for (const cmd of allCommands) {
-                if (blockedCommands.includes(cmd)) {
-                    return false; // Command is blocked
+        }
+        const rules = Array.isArray(config.readonlyCommandRules) ? config.readonlyCommandRules : DEFAULT_READONLY_COMMAND_RULES;
+        return this.evaluate(command, [], 'allowlist', rules, { blocked: 'blockedCommands', mode: 'mode', unmatched: 'not a read-only command, mode is readonly' });
+    }
+
+    /**
+     * Decide on every command a command line runs. Blocked commands cannot be overridden
+     * by rules, and deny rules also see the whole line to catch pipelines like curl ... | sh.
+     * Command lines whose commands cannot all be found before they run are denied.
+     */
+    private evaluate(command: string, blockedCommands: string[], mode: CommandPolicyMode, rules: CommandRule[], settings: { blocked: string; mode: string; unmatched?: string }): CommandCheckResult {
+        const resolution = resolveShell(command);
+        if (resolution.unparseable) {
+            return { allowed: false, reason: resolution.unparseable, segment: command.trim() };
+        }
+        const commands = this.resolveCommands(command, resolution);
+
+        for (const resolved of commands) {
+            if (blockedCommands.includes(resolved.name)) {
+                return { allowed: false, reason: `${resolved.name} is in ${settings.blocked}`, segment: resolved.text };
+            }
+        }
+
+        const denyRules = rules.filter(rule => rule?.action === 'deny');
+        const lineRule = this.findRule(denyRules, command.trim(), commands[0]?.name ?? null);
+        if (lineRule) {
+            return { allowed: false, rule: lineRule, reason: `denied by rule ${this.describeRule(lineRule)}`, segment: command.trim() };
+        }
+
+        let decidingRule: CommandRule | undefined;
+        for (const { name, text: segment } of commands) {
+            const rule = this.findRule(rules, segment, name);
+            if (!rule) {
+                if (mode === 'allowlist') {
+                    return { allowed: false, reason: `no allow rule matches "${segment}" (${settings.unmatched ?? `${settings.mode} is allowlist`})`, segment };
                 }
+                continue;
+            }
+            if (rule.action === 'deny') {
+                return { allowed: false, rule, reason: `denied by rule ${this.describeRule(rule)}`, segment };
+            }
+            decidingRule = decidingRule ?? rule;
+        }
+
+        return { allowed: true, rule: decidingRule, reason: decidingRule ? `allowed by rule ${this.describeRule(decidingRule)}` : `allowed (${settings.mode} is ${mode})` };
+    }
+
+    /**
+     * Host policies matching a target, most specific first: keys without wildcards
+     * before keys with them, user@host before host, then longer keys first
+     */
+    private matchingHostPolicies(policies: Record<string, HostCommandPolicy>, target: SSHTarget): HostCommandPolicy[] {
+        const host = target.host.toLowerCase();
+        const userHost = target.username ? `${target.username.toLowerCase()}@${host}` : null;
+        const specificity = (key: string) => (key.includes('*') ? 0 : 2) + (key.includes('@') ? 1 : 0);
+
+        return Object.keys(policies)
+            .filter(key => {
+                const pattern = new RegExp('^' + key.toLowerCase().split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$');
+                return key.includes('@') ? userHost !== null && pattern.test(userHost) : pattern.test(host);
+            })
+            .sort((a, b) => specificity(b) - specificity(a) || b.length - a.length)
+            .map(key => policies[key]);
+    }
+
+    /**
+     * The directories a command line runs commands in: cwd and the targets of its cd and pushd
+     * commands, each resolved against the one before. Targets that are only known when the
+     * command runs, such as cd "$DIR" or cd -, make the directories unknown if there are
+     * directory policies.
+     *
+     * @returns The directories, cwd first, or null if they are unknown
+     */
+    private commandDirectories(command: string, cwd: string, config: ServerConfig): string[] | null {
+        const directories = [cwd];
+        let current = cwd;
+        for (const resolved of this.resolveCommands(command)) {
+            if (resolved.name !== 'cd' && resolved.name !== 'pushd') {
+                continue;
+            }
+            const target = resolved.args.find(arg => arg === '-' || /^-\d+$/.test(arg) || !arg.startsWith('-'));
+            if (target === undefined) {
+                current = os.homedir();
+            } else if (target === '-' || /^[+-]\d+$/.test(target) || /[$`*?[{]/.test(target)) {
+                return Object.keys(config.directoryCommandPolicies || {}).length > 0 ? null : directories;
+            } else {
+                current = path.resolve(current, target.replace(/^~(?=$|[\\/])/, os.homedir()));
+            }
+            if (!directories.includes(current)) {
+                directories.push(current);
+            }
+        }
+        return directories;
+    }
+
+    /**
+     * Combine the global policy with the directory policies that contain cwd.
+     * Rules of deeper directories come first and the deepest mode wins.
+     */
+    private resolvePolicy(config: ServerConfig, cwd: string): { mode: CommandPolicyMode; rules: CommandRule[] } {
+        let mode: CommandPolicyMode = config.commandPolicyMode === 'allowlist' ? 'allowlist' : 'denylist';
+        let rules: CommandRule[] = Array.isArray(config.commandRules) ? config.commandRules : [];
+
+        const directoryPolicies: Record<string, DirectoryCommandPolicy> = config.directoryCommandPolicies || {};
+        const resolvedCwd = path.resolve(cwd);
+        const matching = Object.keys(directoryPolicies)
+            .map(dir => ({ dir: path.resolve(dir.replace(/^~(?=$|[\\/])/, os.homedir())), policy: directoryPolicies[dir] }))
+            .filter(({ dir }) => resolvedCwd === dir || resolvedCwd.startsWith(dir.endsWith(path.sep) ? dir : dir + path.sep))
+            .sort((a, b) => a.dir.length - b.dir.length);
+
+        for (const { policy } of matching) {
+            if (policy.mode === 'allowlist' || policy.mode === 'denylist') {
+                mode = policy.mode;
+            }
+            if (Array.isArray(policy.rules)) {
+                rules = [...policy.rules, ...rules];
             }
-            
-            // No commands were blocked
-            return true;
-        } catch (error) {
-            console.error('Error validating command:', error);
-            // If there's an error, default to allowing the command
-            // This is less secure but prevents blocking all commands due to config issues
-            return true;
         }
+        return { mode, rules };
+    }
+
+    /**
+     * First rule matching a command. A rule matches if its command equals the base
+     * command and its pattern, a regular expression, matches the command with its arguments.
+     * A rule with an invalid pattern matches nothing if it allows and everything if it denies.
+     */
+    private findRule(rules: CommandRule[], segment: string, baseCommand: string | null): CommandRule | undefined {
+        return rules.find(rule => {
+            if (!rule || (rule.action !== 'allow' && rule.action !== 'deny')) return false;
+            if (!rule.command && !rule.pattern) return false;
+            if (rule.command && rule.command.toLowerCase() !== baseCommand) return false;
+            if (rule.pattern) {
+                try {
+                    return new RegExp(rule.pattern).test(segment);
+                } catch (error) {
+                    return rule.action === 'deny';
+                }
+            }
+            return true;
+        });
+    }
+
+    // Rules are shown as they are written in the config so they are easy to find
+    private describeRule(rule: CommandRule): string {
+        return JSON.stringify(rule);
     }
 }
 
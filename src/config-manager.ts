@@ -3,14 +3,88 @@ import path from 'path';
 import { existsSync } from 'fs';
 import { mkdir } from 'fs/promises';
 import os from 'os';
+import type { CommandPolicyMode, CommandRule, DirectoryCommandPolicy, HostCommandPolicy } from './command-manager.js';
+import type { ApprovalRule } from './approval-manager.js';
+import type { ServerMode } from './server-mode.js';
+import type { PathPermission } from './tools/filesystem.js';
+import type { AllowedDirectoriesSource } from './client-roots.js';
 
 export interface ServerConfig {
   blockedCommands?: string[];
   defaultShell?: string;
   allowedDirectories?: string[];
+  allowedDirectoriesSource?: AllowedDirectoriesSource;
+  outputBufferMaxBytes?: number;
+  spillOutputToDisk?: boolean;
+  spillOutputMaxBytes?: number;
+  persistSessions?: boolean;
+  maxConcurrentJobs?: number;
+  commandPolicyMode?: CommandPolicyMode;
+  commandRules?: CommandRule[];
+  directoryCommandPolicies?: Record<string, DirectoryCommandPolicy>;
+  sshBlockedCommands?: string[];
+  sshCommandPolicyMode?: CommandPolicyMode;
+  sshCommandRules?: CommandRule[];
+  sshHostCommandPolicies?: Record<string, HostCommandPolicy>;
+  approvalRules?: ApprovalRule[];
+  auditLog?: boolean;
+  auditLogMaxBytes?: number;
+  auditLogMaxFiles?: number;
+  redactSecrets?: boolean;
+  redactionPatterns?: string[];
+  mode?: ServerMode;
+  readonlyCommandRules?: CommandRule[];
+  pathPermissions?: Record<string, PathPermission>;
+  deniedPaths?: string[];
   [key: string]: any; // Allow for arbitrary configuration keys
 }
 
+// Commands denied locally and, unless sshBlockedCommands is changed, over SSH
+const DEFAULT_BLOCKED_COMMANDS = [
+  // Disk and partition management
+  "mkfs",      // Create a filesystem on a device
+  "format",    // Format a storage device (cross-platform)
+  "mount",     // Mount a filesystem
+  "umount",    // Unmount a filesystem
+  "fdisk",     // Manipulate disk partition tables
+  "dd",        // Convert and copy files, can write directly to disks
+  "parted",    // Disk partition manipulator
+  "diskpart",  // Windows disk partitioning utility
+  
+  // System administration and user management
+  "sudo",      // Execute command as superuser
+  "su",        // Substitute user identity
+  "passwd",    // Change user password
+  "adduser",   // Add a user to the system
+  "useradd",   // Create a new user
+  "usermod",   // Modify user account
+  "groupadd",  // Create a new group
+  "chsh",      // Change login shell
+  "visudo",    // Edit the sudoers file
+  
+  // System control
+  "shutdown",  // Shutdown the system
+  "reboot",    // Restart the system
+  "halt",      // Stop the system
+  "poweroff",  // Power off the system
+  "init",      // Change system runlevel
+  
+  // Network and security
+  "iptables",  // Linux firewall administration
+  "firewall",  // Generic firewall command
+  "netsh",     // Windows network configuration
+  
+  // Windows system commands
+  "sfc",       // System File Checker
+  "bcdedit",   // Boot Configuration Data editor
+  "reg",       // Windows registry editor
+  "net",       // Network/user/service management
+  "sc",        // Service Control manager
+  "runas",     // Execute command as another user
+  "cipher",    // Encrypt/decrypt files or wipe data
+  "takeown"    // Take ownership of files
+];
+
 /**
  * Singleton config manager for the server
  */
@@ -73,51 +147,8 @@ class ConfigManager {
    */
   private getDefaultConfig(): ServerConfig {
     return {
-      blockedCommands: [
-
-        // Disk and partition management
-        "mkfs",      // Create a filesystem on a device
-        "format",    // Format a storage device (cross-platform)
-        "mount",     // Mount a filesystem
-        "umount",    // Unmount a filesystem
-        "fdisk",     // Manipulate disk partition tables
-        "dd",        // Convert and copy files, can write directly to disks
-        "parted",    // Disk partition manipulator
-        "diskpart",  // Windows disk partitioning utility
-        
-        // System administration and user management
-        "sudo",      // Execute command as superuser
-        "su",        // Substitute user identity
-        "passwd",    // Change user password
-        "adduser",   // Add a user to the system
-        "useradd",   // Create a new user
-        "usermod",   // Modify user account
-        "groupadd",  // Create a new group
-        "chsh",      // Change login shell
-        "visudo",    // Edit the sudoers file
-        
-        // System control
-        "shutdown",  // Shutdown the system
-        "reboot",    // Restart the system
-        "halt",      // Stop the system
-        "poweroff",  // Power off the system
-        "init",      // Change system runlevel
-        
-        // Network and security
-        "iptables",  // Linux firewall administration
-        "firewall",  // Generic firewall command
-        "netsh",     // Windows network configuration
-        
-        // Windows system commands
-        "sfc",       // System File Checker
-        "bcdedit",   // Boot Configuration Data editor
-        "reg",       // Windows registry editor
-        "net",       // Network/user/service management
-        "sc",        // Service Control manager
-        "runas",     // Execute command as another user
-        "cipher",    // Encrypt/decrypt files or wipe data
-        "takeown"    // Take ownership of files
-      ],
+      blockedCommands: [...DEFAULT_BLOCKED_COMMANDS],
+      sshBlockedCommands: [...DEFAULT_BLOCKED_COMMANDS],
       defaultShell: os.platform() === 'win32' ? 'powershell.exe' : 'bash',
       allowedDirectories: []
     };
@@ -4,11 +4,21 @@ import os from 'os';
 
 // Use user's home directory for configuration files
 const USER_HOME = os.homedir();
-const CONFIG_DIR = path.join(USER_HOME, '.claude-server-commander');
+// Holds the config, pending approvals and audit log, which tools and commands may not write
+export const CONFIG_DIR = path.join(USER_HOME, '.claude-server-commander');
 
 // Paths relative to the config directory
 export const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
 export const LOG_FILE = path.join(CONFIG_DIR, 'server.log');
 export const ERROR_LOG_FILE = path.join(CONFIG_DIR, 'error.log');
+export const OUTPUT_SPILL_DIR = path.join(CONFIG_DIR, 'output');
+export const SESSION_STATE_DIR = path.join(CONFIG_DIR, 'sessions');
+export const APPROVALS_DIR = path.join(CONFIG_DIR, 'pending-approvals');
+export const AUDIT_LOG_FILE = path.join(CONFIG_DIR, 'audit.jsonl');
 
 export const DEFAULT_COMMAND_TIMEOUT = 1000; // milliseconds
+export const DEFAULT_OUTPUT_BUFFER_BYTES = 1024 * 1024; // bytes of output kept in memory per stream
+export const DEFAULT_SPILL_OUTPUT_MAX_BYTES = 100 * 1024 * 1024; // bytes of output spilled to disk per session
+export const MAX_READ_OUTPUT_BYTES = 64 * 1024; // bytes returned by a single output read
+export const DEFAULT_AUDIT_LOG_MAX_BYTES = 10 * 1024 * 1024; // bytes of the audit log before it is rotated
+export const DEFAULT_AUDIT_LOG_MAX_FILES = 5; // rotated audit logs kept
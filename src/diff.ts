@@ -0,0 +1,134 @@
+/**
+ * Line-based unified diffs, used to show what an edit would change
+ */
+
+type Operation = { type: ' ' | '-' | '+'; line: string };
+
+// Above this many changed lines on both sides the diff replaces the whole block instead of aligning it
+const MAX_ALIGNED_LINES = 2000;
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  // A trailing newline does not start another line
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Align two lists of lines by their longest common subsequence
+ */
+function diffLines(before: string[], after: string[]): Operation[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const removed = before.slice(start, endBefore);
+  const added = after.slice(start, endAfter);
+  const middle: Operation[] = [];
+
+  if (removed.length > MAX_ALIGNED_LINES || added.length > MAX_ALIGNED_LINES || removed.length === 0 || added.length === 0) {
+    removed.forEach(line => middle.push({ type: '-', line }));
+    added.forEach(line => middle.push({ type: '+', line }));
+  } else {
+    // lengths[i][j] is the common subsequence length of removed[i..] and added[j..]
+    const width = added.length + 1;
+    const lengths = new Uint32Array((removed.length + 1) * width);
+    for (let i = removed.length - 1; i >= 0; i--) {
+      for (let j = added.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = removed[i] === added[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < removed.length || j < added.length) {
+      if (i < removed.length && j < added.length && removed[i] === added[j]) {
+        middle.push({ type: ' ', line: removed[i] });
+        i++;
+        j++;
+      } else if (i < removed.length && (j === added.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        // Removals before additions, as diff shows them
+        middle.push({ type: '-', line: removed[i++] });
+      } else {
+        middle.push({ type: '+', line: added[j++] });
+      }
+    }
+  }
+
+  return [
+    ...before.slice(0, start).map(line => ({ type: ' ' as const, line })),
+    ...middle,
+    ...before.slice(endBefore).map(line => ({ type: ' ' as const, line }))
+  ];
+}
+
+/**
+ * Create a unified diff between two texts
+ *
+ * @param before - Original text
+ * @param after - Changed text
+ * @param beforeName - Name of the original in the header, e.g. a/file.txt or /dev/null
+ * @param afterName - Name of the changed text in the header
+ * @param context - Unchanged lines shown around each change
+ * @returns The diff, or an empty string if the texts are equal
+ */
+export function unifiedDiff(before: string, after: string, beforeName: string, afterName: string, context = 3): string {
+  if (before === after) {
+    return '';
+  }
+  const operations = diffLines(splitLines(before), splitLines(after));
+  const output = [`--- ${beforeName}`, `+++ ${afterName}`];
+
+  // Line numbers before each operation, counted from 1
+  const beforeLine: number[] = [];
+  const afterLine: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const operation of operations) {
+    beforeLine.push(oldLine);
+    afterLine.push(newLine);
+    if (operation.type !== '+') oldLine++;
+    if (operation.type !== '-') newLine++;
+  }
+
+  let index = 0;
+  while (index < operations.length) {
+    if (operations[index].type === ' ') {
+      index++;
+      continue;
+    }
+    // Extend the hunk while the next change is within twice the context
+    const start = Math.max(0, index - context);
+    let end = index;
+    let gap = 0;
+    for (let k = index; k < operations.length && gap <= context * 2; k++) {
+      if (operations[k].type === ' ') {
+        gap++;
+      } else {
+        gap = 0;
+        end = k;
+      }
+    }
+    const stop = Math.min(operations.length, end + context + 1);
+    const hunk = operations.slice(start, stop);
+    const oldCount = hunk.filter(operation => operation.type !== '+').length;
+    const newCount = hunk.filter(operation => operation.type !== '-').length;
+    const oldStart = oldCount === 0 ? beforeLine[start] - 1 : beforeLine[start];
+    const newStart = newCount === 0 ? afterLine[start] - 1 : afterLine[start];
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    hunk.forEach(operation => output.push(`${operation.type}${operation.line}`));
+    index = stop;
+  }
+
+  if (output.length === 2) {
+    output.push('\\ Only the newline at the end of the file differs');
+  }
+  return output.join('\n');
+}
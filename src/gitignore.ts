@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+import { minimatch } from 'minimatch';
+
+interface IgnoreRule {
+  pattern: string;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Convert the lines of a .gitignore file to rules with patterns relative to its directory
+ */
+function parseGitignore(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    line = line.replace(/^\\([#!])/, '$1');
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    // Patterns without a slash match at any depth, others are relative to the .gitignore
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+    rules.push({ pattern: anchored || line.startsWith('**') ? line : `**/${line}`, negated, directoryOnly });
+  }
+  return rules;
+}
+
+/**
+ * Decides whether paths below a root directory are ignored by git, reading
+ * .gitignore files of the root and its subdirectories on demand.
+ * The .git directory is always ignored.
+ */
+export class GitignoreMatcher {
+  private readonly root: string;
+  private rulesByDir: Map<string, IgnoreRule[]> = new Map();
+
+  constructor(root: string) {
+    this.root = root;
+  }
+
+  /**
+   * Check a path relative to the root. A path is ignored if it or one of its parent directories is.
+   *
+   * @param relativePath - Path relative to the root, with / or the platform separator
+   * @param isDirectory - Whether the path itself is a directory
+   */
+  isIgnored(relativePath: string, isDirectory: boolean = false): boolean {
+    const segments = relativePath.split(/[\\/]/).filter(Boolean);
+    for (let depth = 1; depth <= segments.length; depth++) {
+      const isDir = depth < segments.length || isDirectory;
+      if (segments[depth - 1] === '.git' && isDir) {
+        return true;
+      }
+      if (this.matches(segments.slice(0, depth), isDir)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Forget cached rules, e.g. after a .gitignore file changed
+   */
+  invalidate(): void {
+    this.rulesByDir.clear();
+  }
+
+  private matches(segments: string[], isDirectory: boolean): boolean {
+    let ignored = false;
+    // Rules of deeper .gitignore files take precedence, so apply them last
+    for (let depth = 0; depth < segments.length; depth++) {
+      const dir = segments.slice(0, depth).join('/');
+      const relative = segments.slice(depth).join('/');
+      for (const rule of this.rulesFor(dir)) {
+        if (rule.directoryOnly && !isDirectory) continue;
+        if (minimatch(relative, rule.pattern, { dot: true })) {
+          ignored = !rule.negated;
+        }
+      }
+    }
+    return ignored;
+  }
+
+  private rulesFor(dir: string): IgnoreRule[] {
+    let rules = this.rulesByDir.get(dir);
+    if (!rules) {
+      try {
+        rules = parseGitignore(fs.readFileSync(path.join(this.root, dir, '.gitignore'), 'utf8'));
+      } catch {
+        rules = [];
+      }
+      this.rulesByDir.set(dir, rules);
+    }
+    return rules;
+  }
+}
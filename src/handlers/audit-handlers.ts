@@ -0,0 +1,13 @@
+import { queryAuditLog } from '../tools/audit.js';
+
+import { QueryAuditLogArgsSchema } from '../tools/schemas.js';
+
+import { ServerResult } from '../types.js';
+
+/**
+ * Handle query_audit_log command
+ */
+export async function handleQueryAuditLog(args: unknown): Promise<ServerResult> {
+    const parsed = QueryAuditLogArgsSchema.parse(args);
+    return queryAuditLog(parsed);
+}
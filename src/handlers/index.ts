@@ -3,3 +3,4 @@ export * from './filesystem-handlers.js';
 export * from './terminal-handlers.js';
 export * from './process-handlers.js';
 export * from './edit-search-handlers.js';
+export * from './audit-handlers.js';
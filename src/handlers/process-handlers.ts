@@ -3,7 +3,15 @@ import {
     killProcess
 } from '../tools/process.js';
 
+import {
+    getProcessInfo,
+    findProcessByPort
+} from '../tools/process-info.js';
+
 import { 
+    ListProcessesArgsSchema,
+    GetProcessInfoArgsSchema,
+    FindProcessByPortArgsSchema,
     KillProcessArgsSchema
 } from '../tools/schemas.js';
 
@@ -12,8 +20,25 @@ import { ServerResult } from '../types.js';
 /**
  * Handle list_processes command
  */
-export async function handleListProcesses(): Promise<ServerResult> {
-    return listProcesses();
+export async function handleListProcesses(args: unknown): Promise<ServerResult> {
+    const parsed = ListProcessesArgsSchema.parse(args);
+    return listProcesses(parsed);
+}
+
+/**
+ * Handle get_process_info command
+ */
+export async function handleGetProcessInfo(args: unknown): Promise<ServerResult> {
+    const parsed = GetProcessInfoArgsSchema.parse(args);
+    return getProcessInfo(parsed);
+}
+
+/**
+ * Handle find_process_by_port command
+ */
+export async function handleFindProcessByPort(args: unknown): Promise<ServerResult> {
+    const parsed = FindProcessByPortArgsSchema.parse(args);
+    return findProcessByPort(parsed);
 }
 
 /**
@@ -1,15 +1,46 @@
 import { 
     executeCommand, 
     readOutput, 
+    sendInput,
     forceTerminate, 
     listSessions 
 } from '../tools/execute.js';
 
+import {
+    openShell,
+    runInShell,
+    closeShell
+} from '../tools/shell.js';
+
+import { waitForOutput } from '../tools/wait.js';
+
+import {
+    scheduleCommand,
+    listScheduled,
+    cancelScheduled
+} from '../tools/schedule.js';
+
+import { enqueueCommand, getJob } from '../tools/queue.js';
+
+import { watchAndRun, getWatch, stopWatch } from '../tools/watch.js';
+
 import { 
     ExecuteCommandArgsSchema,
     ReadOutputArgsSchema,
+    SendInputArgsSchema,
+    WaitForOutputArgsSchema,
     ForceTerminateArgsSchema,
-    ListSessionsArgsSchema
+    ListSessionsArgsSchema,
+    OpenShellArgsSchema,
+    RunInShellArgsSchema,
+    CloseShellArgsSchema,
+    ScheduleCommandArgsSchema,
+    CancelScheduledArgsSchema,
+    EnqueueCommandArgsSchema,
+    GetJobArgsSchema,
+    WatchAndRunArgsSchema,
+    GetWatchArgsSchema,
+    StopWatchArgsSchema
 } from '../tools/schemas.js';
 
 import { ServerResult } from '../types.js';
@@ -30,6 +61,22 @@ export async function handleReadOutput(args: unknown): Promise<ServerResult> {
     return readOutput(parsed);
 }
 
+/**
+ * Handle send_input command
+ */
+export async function handleSendInput(args: unknown): Promise<ServerResult> {
+    const parsed = SendInputArgsSchema.parse(args);
+    return sendInput(parsed);
+}
+
+/**
+ * Handle wait_for_output command
+ */
+export async function handleWaitForOutput(args: unknown): Promise<ServerResult> {
+    const parsed = WaitForOutputArgsSchema.parse(args);
+    return waitForOutput(parsed);
+}
+
 /**
  * Handle force_terminate command
  */
@@ -44,3 +91,90 @@ export async function handleForceTerminate(args: unknown): Promise<ServerResult>
 export async function handleListSessions(): Promise<ServerResult> {
     return listSessions();
 }
+
+/**
+ * Handle open_shell command
+ */
+export async function handleOpenShell(args: unknown): Promise<ServerResult> {
+    const parsed = OpenShellArgsSchema.parse(args);
+    return openShell(parsed);
+}
+
+/**
+ * Handle run_in_shell command
+ */
+export async function handleRunInShell(args: unknown): Promise<ServerResult> {
+    const parsed = RunInShellArgsSchema.parse(args);
+    return runInShell(parsed);
+}
+
+/**
+ * Handle close_shell command
+ */
+export async function handleCloseShell(args: unknown): Promise<ServerResult> {
+    const parsed = CloseShellArgsSchema.parse(args);
+    return closeShell(parsed);
+}
+
+/**
+ * Handle schedule_command command
+ */
+export async function handleScheduleCommand(args: unknown): Promise<ServerResult> {
+    const parsed = ScheduleCommandArgsSchema.parse(args);
+    return scheduleCommand(parsed);
+}
+
+/**
+ * Handle list_scheduled command
+ */
+export async function handleListScheduled(): Promise<ServerResult> {
+    return listScheduled();
+}
+
+/**
+ * Handle cancel_scheduled command
+ */
+export async function handleCancelScheduled(args: unknown): Promise<ServerResult> {
+    const parsed = CancelScheduledArgsSchema.parse(args);
+    return cancelScheduled(parsed);
+}
+
+/**
+ * Handle enqueue_command command
+ */
+export async function handleEnqueueCommand(args: unknown): Promise<ServerResult> {
+    const parsed = EnqueueCommandArgsSchema.parse(args);
+    return enqueueCommand(parsed);
+}
+
+/**
+ * Handle get_job command
+ */
+export async function handleGetJob(args: unknown): Promise<ServerResult> {
+    const parsed = GetJobArgsSchema.parse(args);
+    return getJob(parsed);
+}
+
+/**
+ * Handle watch_and_run command
+ */
+export async function handleWatchAndRun(args: unknown): Promise<ServerResult> {
+    const parsed = WatchAndRunArgsSchema.parse(args);
+    return watchAndRun(parsed);
+}
+
+/**
+ * Handle get_watch command
+ */
+export async function handleGetWatch(args: unknown): Promise<ServerResult> {
+    const parsed = GetWatchArgsSchema.parse(args);
+    return getWatch(parsed);
+}
+
+/**
+ * Handle stop_watch command
+ */
+export async function handleStopWatch(args: unknown): Promise<ServerResult> {
+    const parsed = StopWatchArgsSchema.parse(args);
+    return stopWatch(parsed);
+}
@@ -4,6 +4,9 @@ import { FilteredStdioServerTransport } from './custom-stdio.js';
 import { server } from './server.js';
 import { commandManager } from './command-manager.js';
 import { configManager } from './config-manager.js';
+import { terminalManager } from './terminal-manager.js';
+import { sshCommandManager } from './tools/ssh-command-manager.js';
+import { modeManager, isServerMode, SERVER_MODES, ServerMode } from './server-mode.js';
 import { join, dirname } from 'path';
 import { fileURLToPath, pathToFileURL } from 'url';
 import { platform } from 'os';
@@ -48,6 +51,19 @@ async function runSetup() {
   }
 }
 
+// Read --mode <mode> or --mode=<mode> from the command line
+function parseModeFlag(args: string[]): ServerMode | null {
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i] === '--mode' ? args[i + 1] : args[i].startsWith('--mode=') ? args[i].slice('--mode='.length) : undefined;
+    if (value === undefined) continue;
+    if (!isServerMode(value)) {
+      throw new Error(`Invalid --mode ${value}, expected one of ${SERVER_MODES.join(', ')}`);
+    }
+    return value;
+  }
+  return null;
+}
+
 async function runServer() {
   try {
     const transport = new FilteredStdioServerTransport();
@@ -95,6 +111,13 @@ async function runServer() {
       process.exit(1);
     });
 
+    // The command line mode takes precedence over the mode setting
+    const mode = parseModeFlag(process.argv.slice(2));
+    if (mode) {
+      modeManager.setOverride(mode);
+      console.error(`Running in ${mode} mode`);
+    }
+
     capture('run_server_start');
     
     try {
@@ -108,6 +131,14 @@ async function runServer() {
       // Continue anyway - we'll use an in-memory config
     }
 
+    try {
+      // Pick up background commands started before a restart (persistSessions)
+      await terminalManager.restoreSessions();
+      await sshCommandManager.restoreCommands();
+    } catch (restoreError) {
+      console.error(`Failed to restore sessions: ${restoreError instanceof Error ? restoreError.message : String(restoreError)}`);
+    }
+
 
     console.error("Connecting server...");
     await server.connect(transport);
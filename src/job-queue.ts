@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import { terminalManager } from './terminal-manager.js';
+import { commandManager } from './command-manager.js';
+import { configManager } from './config-manager.js';
+import { CommandExecutionOptions } from './types.js';
+import { capture } from './utils.js';
+
+const DEFAULT_QUEUE = 'default';
+const DEFAULT_MAX_CONCURRENT_JOBS = 2;
+// Finished jobs remembered for get_job
+const MAX_FINISHED_JOBS = 100;
+
+export type JobStatus = 'queued' | 'running' | 'done';
+export type JobOutcome = 'succeeded' | 'failed' | 'skipped';
+// 'success' runs a job only if all its dependencies succeeded, 'always' once they are done
+export type DependencyCondition = 'success' | 'always';
+
+export interface Job {
+  id: string;
+  command: string;
+  queue: string;
+  shell?: string;
+  options: CommandExecutionOptions;
+  dependsOn: string[];
+  condition: DependencyCondition;
+  status: JobStatus;
+  outcome: JobOutcome | null;
+  pid: number | null;
+  exitCode: number | null;
+  // Why a job failed to start or was skipped
+  error: string | null;
+  enqueuedAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+export interface EnqueueOptions {
+  command: string;
+  queue?: string;
+  shell?: string;
+  options?: CommandExecutionOptions;
+  dependsOn?: string[];
+  condition?: DependencyCondition;
+  // Changes the concurrency limit of the queue
+  maxConcurrency?: number;
+}
+
+/**
+ * Runs commands through named queues, each with a limit on how many of its jobs
+ * run at the same time. A job starts once a slot in its queue is free and the jobs
+ * it depends on are done. Every job runs as an ordinary terminal session.
+ */
+class JobQueue {
+  private jobs: Map<string, Job> = new Map();
+  private concurrency: Map<string, number> = new Map();
+  // Queue processing runs one pass at a time so concurrency limits are not overrun
+  private processing: Promise<void> = Promise.resolve();
+
+  /**
+   * Add a command to a queue
+   *
+   * @param options - Command, queue, dependencies and execution options
+   * @returns The queued job, which may already be running
+   */
+  async enqueue(options: EnqueueOptions): Promise<Job> {
+    const dependsOn = Array.from(new Set(options.dependsOn || []));
+    const unknown = dependsOn.filter(id => !this.jobs.has(id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown job ID${unknown.length > 1 ? 's' : ''} in depends_on: ${unknown.join(', ')}`);
+    }
+
+    const queue = options.queue || DEFAULT_QUEUE;
+    if (options.maxConcurrency !== undefined) {
+      this.concurrency.set(queue, options.maxConcurrency);
+    }
+
+    const job: Job = {
+      id: `job-${crypto.randomBytes(4).toString('hex')}`,
+      command: options.command,
+      queue,
+      shell: options.shell,
+      options: options.options || {},
+      dependsOn,
+      condition: options.condition || 'success',
+      status: 'queued',
+      outcome: null,
+      pid: null,
+      exitCode: null,
+      error: null,
+      enqueuedAt: new Date(),
+      startedAt: null,
+      finishedAt: null
+    };
+    this.jobs.set(job.id, job);
+
+    await this.process();
+    return job;
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  list(): Job[] {
+    return Array.from(this.jobs.values());
+  }
+
+  /**
+   * Concurrency limit of a queue, from enqueue_command or the maxConcurrentJobs setting
+   */
+  async getConcurrency(queue: string): Promise<number> {
+    const limit = this.concurrency.get(queue);
+    if (limit !== undefined) {
+      return limit;
+    }
+    try {
+      const config = await configManager.getConfig();
+      if (typeof config.maxConcurrentJobs === 'number' && config.maxConcurrentJobs > 0) {
+        return config.maxConcurrentJobs;
+      }
+    } catch (error) {
+      // Fall back to the default
+    }
+    return DEFAULT_MAX_CONCURRENT_JOBS;
+  }
+
+  /**
+   * Position of a queued job among the queued jobs of its queue, starting at 1
+   */
+  position(job: Job): number | null {
+    if (job.status !== 'queued') {
+      return null;
+    }
+    return this.list().filter(other => other.queue === job.queue && other.status === 'queued').indexOf(job) + 1;
+  }
+
+  private process(): Promise<void> {
+    const pass = this.processing.then(() => this.processQueued());
+    // A failed pass must not stop later ones
+    this.processing = pass.catch(() => {});
+    return pass;
+  }
+
+  /**
+   * Skip jobs whose dependencies failed and start every job that can run
+   */
+  private async processQueued(): Promise<void> {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const job of this.list().filter(job => job.status === 'queued')) {
+        const dependencies = job.dependsOn.map(id => this.jobs.get(id)!);
+        if (dependencies.some(dependency => dependency.status !== 'done')) {
+          continue;
+        }
+        const failed = dependencies.filter(dependency => dependency.outcome !== 'succeeded');
+        if (job.condition === 'success' && failed.length > 0) {
+          // Skipping can unblock jobs that depend on this one with 'always'
+          this.finish(job, 'skipped', null, `dependency ${failed.map(dependency => dependency.id).join(', ')} did not succeed`);
+          changed = true;
+          continue;
+        }
+
+        const running = this.list().filter(other => other.queue === job.queue && other.status === 'running').length;
+        if (running >= await this.getConcurrency(job.queue)) {
+          continue;
+        }
+        await this.start(job);
+        changed = true;
+      }
+    }
+  }
+
+  private async start(job: Job): Promise<void> {
+    job.status = 'running';
+    job.startedAt = new Date();
+
+    // The command policy may have changed while the job was waiting
+    const check = await commandManager.checkCommand(job.command, job.options.cwd);
+    if (!check.allowed) {
+      this.finish(job, 'failed', null, commandManager.formatDenial(job.command, check));
+      return;
+    }
+
+    capture('server_job_start', {
+      command: commandManager.getBaseCommand(job.command)
+    });
+
+    // A zero timeout returns as soon as the process has started
+    const result = await terminalManager.executeCommand(job.command, 0, job.shell, job.options);
+    if (result.pid === -1) {
+      this.finish(job, 'failed', null, result.output.replace(/^Error: /, ''));
+      return;
+    }
+    job.pid = result.pid;
+
+    if (!result.isBlocked) {
+      this.finish(job, result.exitCode === 0 ? 'succeeded' : 'failed', result.exitCode ?? null);
+      return;
+    }
+
+    const unsubscribe = terminalManager.onExit(result.pid, (exitCode) => {
+      this.finish(job, exitCode === 0 ? 'succeeded' : 'failed', exitCode);
+      this.process().catch(error => console.error('Failed to start queued jobs:', error));
+    });
+    if (!unsubscribe) {
+      // Exited before the listener was added
+      const exitCode = terminalManager.getCompletedSession(result.pid)?.exitCode ?? null;
+      this.finish(job, exitCode === 0 ? 'succeeded' : 'failed', exitCode);
+    }
+  }
+
+  private finish(job: Job, outcome: JobOutcome, exitCode: number | null, error?: string): void {
+    job.status = 'done';
+    job.outcome = outcome;
+    job.exitCode = exitCode;
+    job.error = error ?? null;
+    job.finishedAt = new Date();
+    this.prune();
+  }
+
+  /**
+   * Forget the oldest finished jobs that no waiting job depends on
+   */
+  private prune(): void {
+    const finished = this.list().filter(job => job.status === 'done');
+    if (finished.length <= MAX_FINISHED_JOBS) {
+      return;
+    }
+    const needed = new Set(this.list().filter(job => job.status === 'queued').flatMap(job => job.dependsOn));
+    finished.filter(job => !needed.has(job.id))
+      .slice(0, finished.length - MAX_FINISHED_JOBS)
+      .forEach(job => this.jobs.delete(job.id));
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,257 @@
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_SPILL_OUTPUT_MAX_BYTES, MAX_READ_OUTPUT_BYTES } from './config.js';
+
+export interface OutputBufferOptions {
+  maxBytes: number;
+  // When set, bytes evicted from memory are appended to this file so they remain readable
+  spillPath?: string;
+  // Bytes the spill file may grow to, output evicted after that is dropped
+  maxSpillBytes?: number;
+}
+
+// Bytes read at a time when looking for the last lines of the output
+const TAIL_CHUNK_BYTES = 16 * 1024;
+
+export interface OutputSlice {
+  text: string;
+  // Absolute byte offset of the first returned byte
+  offset: number;
+  // Absolute byte offset just past the last returned byte, usable as the next cursor
+  end: number;
+  // Bytes between the requested offset and the first returned byte that are no longer available
+  droppedBytes: number;
+}
+
+/**
+ * Byte-bounded ring buffer for process output.
+ * Offsets are absolute positions in the whole output stream, so clients can keep
+ * cursors that stay valid while old output is evicted.
+ */
+export class OutputBuffer {
+  private chunks: Buffer[] = [];
+  private retainedBytes = 0;
+  // Absolute offset of the first byte held in memory
+  private memoryStart = 0;
+  private totalBytes = 0;
+  private spilledBytes = 0;
+  private spillFd: number | null = null;
+  private readonly maxBytes: number;
+  private readonly spillPath?: string;
+  private readonly maxSpillBytes: number;
+
+  constructor(options: OutputBufferOptions) {
+    this.maxBytes = Math.max(1, options.maxBytes);
+    this.spillPath = options.spillPath;
+    this.maxSpillBytes = options.maxSpillBytes ?? DEFAULT_SPILL_OUTPUT_MAX_BYTES;
+  }
+
+  /**
+   * Absolute offset just past the last byte written
+   */
+  get end(): number {
+    return this.totalBytes;
+  }
+
+  /**
+   * Earliest absolute offset that can still be read
+   */
+  get start(): number {
+    // Spilled output is only readable while the spill file covers everything evicted
+    return this.spillPath && this.spilledBytes === this.memoryStart ? 0 : this.memoryStart;
+  }
+
+  /**
+   * True if some output was dropped and cannot be read anymore
+   */
+  get truncated(): boolean {
+    return this.start > 0;
+  }
+
+  /**
+   * Path of the spill file, if any output was spilled to disk
+   */
+  get spillFile(): string | undefined {
+    return this.spilledBytes > 0 ? this.spillPath : undefined;
+  }
+
+  append(text: string): void {
+    if (!text) return;
+    const chunk = Buffer.from(text);
+    this.chunks.push(chunk);
+    this.retainedBytes += chunk.length;
+    this.totalBytes += chunk.length;
+    this.evict();
+  }
+
+  /**
+   * Read up to length bytes starting at the absolute offset, at most MAX_READ_OUTPUT_BYTES
+   */
+  read(offset: number, length: number = MAX_READ_OUTPUT_BYTES): OutputSlice {
+    const requested = Math.max(0, Math.min(offset, this.totalBytes));
+    const from = Math.max(requested, this.start);
+    const to = Math.min(this.totalBytes, from + Math.max(0, Math.min(length, MAX_READ_OUTPUT_BYTES)));
+
+    return {
+      text: this.readBytes(from, to).toString('utf8'),
+      offset: from,
+      end: to,
+      droppedBytes: from - requested
+    };
+  }
+
+  /**
+   * Return the last lines of the output, at most maxBytes of them and at most MAX_READ_OUTPUT_BYTES.
+   * The output is read backwards from the end in chunks until enough lines are found,
+   * so a large spill file is not read as a whole.
+   */
+  tail(lines: number, maxBytes: number = MAX_READ_OUTPUT_BYTES): OutputSlice {
+    const end = this.totalBytes;
+    const limit = Math.max(this.start, end - Math.max(0, Math.min(maxBytes, MAX_READ_OUTPUT_BYTES)));
+    if (lines <= 0) {
+      return { text: '', offset: end, end, droppedBytes: 0 };
+    }
+
+    const parts: Buffer[] = [];
+    let from = end;
+    let newlines = 0;
+    while (from > limit) {
+      const chunkStart = Math.max(limit, from - TAIL_CHUNK_BYTES);
+      const chunk = this.readBytes(chunkStart, from);
+      let lineStart = -1;
+      for (let i = chunk.length - 1; i >= 0 && lineStart === -1; i--) {
+        // A trailing newline ends the last line instead of starting another one
+        if (chunk[i] === 0x0a && chunkStart + i !== end - 1 && ++newlines === lines) {
+          lineStart = i + 1;
+        }
+      }
+      if (lineStart !== -1) {
+        parts.unshift(chunk.subarray(lineStart));
+        from = chunkStart + lineStart;
+        break;
+      }
+      parts.unshift(chunk);
+      from = chunkStart;
+    }
+
+    let data = Buffer.concat(parts);
+    if (from === limit && limit > this.start) {
+      // Cut off by maxBytes, do not start in the middle of a character
+      let skip = 0;
+      while (skip < data.length && (data[skip] & 0xc0) === 0x80) skip++;
+      data = data.subarray(skip);
+      from += skip;
+    }
+    return {
+      text: data.toString('utf8'),
+      offset: from,
+      end,
+      droppedBytes: 0
+    };
+  }
+
+  toString(): string {
+    return this.readMemory(this.memoryStart, this.totalBytes).toString('utf8');
+  }
+
+  /**
+   * Close the spill file, optionally deleting it
+   */
+  dispose(removeSpill: boolean = false): void {
+    if (this.spillFd !== null) {
+      try {
+        fs.closeSync(this.spillFd);
+      } catch {
+        // Ignore close errors
+      }
+      this.spillFd = null;
+    }
+    if (removeSpill && this.spillPath && this.spilledBytes > 0) {
+      fs.rm(this.spillPath, { force: true }, () => {});
+    }
+  }
+
+  private evict(): void {
+    while (this.retainedBytes > this.maxBytes && this.chunks.length > 0) {
+      const excess = this.retainedBytes - this.maxBytes;
+      const first = this.chunks[0];
+      const evicted = excess >= first.length ? first : first.subarray(0, excess);
+
+      if (evicted === first) {
+        this.chunks.shift();
+      } else {
+        this.chunks[0] = first.subarray(excess);
+      }
+      this.spill(evicted);
+      this.retainedBytes -= evicted.length;
+      this.memoryStart += evicted.length;
+    }
+  }
+
+  private spill(data: Buffer): void {
+    if (!this.spillPath || this.spilledBytes !== this.memoryStart) {
+      // Spilling disabled or a previous write failed; keep the file contiguous
+      return;
+    }
+    if (this.spilledBytes + data.length > this.maxSpillBytes) {
+      // Older output becomes unreadable as without spilling, so the file is not kept either
+      console.error(`Spilled output reached the limit of ${this.maxSpillBytes} bytes, removing ${this.spillPath}`);
+      this.dispose(true);
+      this.spilledBytes = 0;
+      return;
+    }
+    try {
+      if (this.spillFd === null) {
+        fs.mkdirSync(path.dirname(this.spillPath), { recursive: true });
+        this.spillFd = fs.openSync(this.spillPath, 'w');
+      }
+      fs.writeSync(this.spillFd, data);
+      this.spilledBytes += data.length;
+    } catch (error) {
+      console.error(`Failed to spill output to ${this.spillPath}:`, error);
+    }
+  }
+
+  private readBytes(from: number, to: number): Buffer {
+    const parts: Buffer[] = [];
+    if (from < this.memoryStart) {
+      parts.push(this.readSpill(from, Math.min(to, this.memoryStart)));
+    }
+    if (to > this.memoryStart) {
+      parts.push(this.readMemory(Math.max(from, this.memoryStart), to));
+    }
+    return Buffer.concat(parts);
+  }
+
+  private readSpill(from: number, to: number): Buffer {
+    if (!this.spillPath || to <= from) {
+      return Buffer.alloc(0);
+    }
+    const buffer = Buffer.alloc(to - from);
+    let fd: number | null = null;
+    try {
+      fd = fs.openSync(this.spillPath, 'r');
+      const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, from);
+      return buffer.subarray(0, bytesRead);
+    } catch (error) {
+      console.error(`Failed to read spilled output from ${this.spillPath}:`, error);
+      return Buffer.alloc(0);
+    } finally {
+      if (fd !== null) fs.closeSync(fd);
+    }
+  }
+
+  private readMemory(from: number, to: number): Buffer {
+    const parts: Buffer[] = [];
+    let position = this.memoryStart;
+    for (const chunk of this.chunks) {
+      const chunkEnd = position + chunk.length;
+      if (chunkEnd > from && position < to) {
+        parts.push(chunk.subarray(Math.max(0, from - position), Math.min(chunk.length, to - position)));
+      }
+      if (chunkEnd >= to) break;
+      position = chunkEnd;
+    }
+    return Buffer.concat(parts);
+  }
+}
@@ -0,0 +1,187 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import { readFileSync } from 'fs';
+import os from 'os';
+
+const execAsync = promisify(exec);
+
+export interface ProcessTableEntry {
+  pid: number;
+  ppid: number;
+  pgid: number;
+}
+
+export interface SignalOptions {
+  // Also signal all descendants of the process
+  tree?: boolean;
+  // Signal the process group led by the process (sessions are spawned as group leaders)
+  group?: boolean;
+}
+
+export interface SignalResult {
+  signal: NodeJS.Signals;
+  signaled: number[];
+  failed: Array<{ pid: number; error: string }>;
+}
+
+/**
+ * Normalize a signal name such as "term", "TERM" or "SIGTERM".
+ * Returns null if the platform does not know the signal.
+ */
+export function normalizeSignal(signal: string): NodeJS.Signals | null {
+  const upper = signal.trim().toUpperCase();
+  const name = upper.startsWith('SIG') ? upper : `SIG${upper}`;
+  return name in os.constants.signals ? name as NodeJS.Signals : null;
+}
+
+/**
+ * Check whether a process exists (zombies included)
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Read when a process started, in clock ticks since boot (Linux only).
+ * Together with the pid this identifies a process across pid reuse.
+ */
+export function readProcessStartTicks(pid: number): number | null {
+  if (os.platform() !== 'linux') {
+    return null;
+  }
+  try {
+    const stat = readFileSync(`/proc/${pid}/stat`, 'utf8');
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    // starttime is field 22, the fields after the command name start at field 3
+    return parseInt(fields[19], 10);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read pid, parent pid and process group of every process.
+ * Uses /proc on Linux and ps elsewhere.
+ */
+export async function readProcessTable(): Promise<ProcessTableEntry[]> {
+  if (os.platform() === 'linux') {
+    const entries = await fs.readdir('/proc');
+    const table: ProcessTableEntry[] = [];
+    await Promise.all(entries.filter(entry => /^\d+$/.test(entry)).map(async entry => {
+      try {
+        const stat = await fs.readFile(`/proc/${entry}/stat`, 'utf8');
+        // The command name may contain spaces and parentheses, fields follow the last ')'
+        const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+        table.push({ pid: parseInt(entry, 10), ppid: parseInt(fields[1], 10), pgid: parseInt(fields[2], 10) });
+      } catch {
+        // Process exited while reading
+      }
+    }));
+    return table;
+  }
+
+  const { stdout } = await execAsync('ps -A -o pid= -o ppid= -o pgid=');
+  return stdout.split('\n')
+    .map(line => line.trim().split(/\s+/).map(value => parseInt(value, 10)))
+    .filter(fields => fields.length === 3 && fields.every(value => !isNaN(value)))
+    .map(([pid, ppid, pgid]) => ({ pid, ppid, pgid }));
+}
+
+/**
+ * Collect all descendants of a process, parents before children
+ */
+export function collectDescendants(table: ProcessTableEntry[], pid: number): number[] {
+  const children = new Map<number, number[]>();
+  for (const entry of table) {
+    const siblings = children.get(entry.ppid) || [];
+    siblings.push(entry.pid);
+    children.set(entry.ppid, siblings);
+  }
+
+  const descendants: number[] = [];
+  const queue = [pid];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const child of children.get(current) || []) {
+      if (!descendants.includes(child)) {
+        descendants.push(child);
+        queue.push(child);
+      }
+    }
+  }
+  return descendants;
+}
+
+/**
+ * Send a signal to a process and optionally its process group and descendants.
+ * The server's own process is never signaled.
+ */
+export async function signalProcesses(pid: number, signal: NodeJS.Signals, options: SignalOptions = {}): Promise<SignalResult> {
+  const result: SignalResult = { signal, signaled: [], failed: [] };
+
+  if (os.platform() === 'win32') {
+    if (options.tree) {
+      // Windows has no signals or process groups, taskkill /T walks the tree
+      try {
+        const { stdout } = await execAsync(`taskkill /PID ${pid} /T /F`);
+        for (const match of stdout.matchAll(/PID (\d+)/g)) {
+          const killed = parseInt(match[1], 10);
+          if (!result.signaled.includes(killed)) result.signaled.push(killed);
+        }
+      } catch (error) {
+        result.failed.push({ pid, error: error instanceof Error ? error.message : String(error) });
+      }
+      return result;
+    }
+    options = { ...options, group: false };
+  }
+
+  let table: ProcessTableEntry[] = [];
+  if (options.tree || options.group) {
+    try {
+      table = await readProcessTable();
+    } catch {
+      // Fall back to signaling only the process itself
+    }
+  }
+
+  const targets = [pid];
+  if (options.group) {
+    table.filter(entry => entry.pgid === pid).forEach(entry => targets.push(entry.pid));
+  }
+  if (options.tree) {
+    collectDescendants(table, pid).forEach(descendant => targets.push(descendant));
+  }
+  const uniqueTargets = Array.from(new Set(targets)).filter(target => target !== process.pid);
+
+  if (options.group) {
+    try {
+      process.kill(-pid, signal);
+      table.filter(entry => entry.pgid === pid).forEach(entry => result.signaled.push(entry.pid));
+      if (!result.signaled.includes(pid) && table.length === 0) result.signaled.push(pid);
+    } catch {
+      // Not a group leader anymore, signal processes one by one
+    }
+  }
+
+  for (const target of uniqueTargets) {
+    if (result.signaled.includes(target)) continue;
+    try {
+      process.kill(target, signal);
+      result.signaled.push(target);
+    } catch (error) {
+      // Descendants may exit on their own while the tree is being walked
+      if (target !== pid && (error as NodeJS.ErrnoException).code === 'ESRCH') continue;
+      result.failed.push({ pid: target, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+}
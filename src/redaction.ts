@@ -0,0 +1,200 @@
+import { configManager } from './config-manager.js';
+import { ServerResult } from './types.js';
+
+/**
+ * Finds one kind of secret. A detector with a value group only masks that group,
+ * otherwise the whole match is masked.
+ */
+interface Detector {
+  name: string;
+  pattern: RegExp;
+  valueGroup?: number;
+  // Decides whether a match is a secret, e.g. by its entropy
+  accept?: (value: string) => boolean;
+}
+
+export interface RedactionResult {
+  text: string;
+  // Number of masked values per detector
+  counts: Record<string, number>;
+}
+
+// Values assigned to these names are masked if they look random. The secret word has to end
+// the name or a part of it, so that e.g. tokenizer is not a secret name.
+const SECRET_NAME = '[A-Za-z0-9_.-]*?(?:password|passwd|passphrase|secret(?:[_-]?key)?|token|api[_-]?key|access[_-]?key|auth[_-]?key|private[_-]?key|credentials?)(?:[_.-][A-Za-z0-9_.-]*)?(?![A-Za-z0-9])';
+// Below this many bits per character an assigned value looks like a word, not a secret
+const MIN_SECRET_ENTROPY = 3;
+const MIN_SECRET_LENGTH = 8;
+// Values that read another variable or call something, e.g. options.key, getToken() or process.env.TOKEN
+const EXPRESSION = /^[A-Za-z_$][\w$]*\s*[.([]|process\.env|os\.environ|getenv\(/;
+
+function isSecretValue(value: string): boolean {
+  return value.length >= MIN_SECRET_LENGTH
+    && !/^(\$|%|<|\{\{|\[REDACTED)/.test(value)
+    && !EXPRESSION.test(value)
+    && entropy(value) >= MIN_SECRET_ENTROPY;
+}
+
+const BUILT_IN_DETECTORS: Detector[] = [
+  {
+    name: 'private-key',
+    pattern: /-----BEGIN ((?:RSA |DSA |EC |OPENSSH |ENCRYPTED |PGP )?PRIVATE KEY(?: BLOCK)?)-----[\s\S]*?-----END \1-----/g
+  },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+  {
+    name: 'aws-secret-key',
+    pattern: /(aws_secret_access_key|AWS_SECRET_ACCESS_KEY|SecretAccessKey)(["']?\s*[:=]\s*["']?)([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/g,
+    valueGroup: 3
+  },
+  { name: 'gcp-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: 'gcp-oauth-token', pattern: /\bya29\.[0-9A-Za-z_-]{20,}/g },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g },
+  // String literals assigned to a secret name: password = "...", "client_secret": "..."
+  {
+    name: 'secret-assignment',
+    pattern: new RegExp(`(${SECRET_NAME})(["']?\\s*(?::=|[:=])\\s*)(["'])([^"'\\n]+)(?=\\3)`, 'gi'),
+    valueGroup: 4,
+    accept: isSecretValue
+  },
+  // Lines of .env files and printenv output: DB_PASSWORD=...
+  {
+    name: 'secret-assignment',
+    pattern: new RegExp(`^(\\s*(?:export\\s+)?)(${SECRET_NAME})(=)([^\\s"'#]+)(?=\\s*(?:#.*)?$)`, 'gim'),
+    valueGroup: 4,
+    accept: isSecretValue
+  }
+];
+
+/**
+ * Shannon entropy in bits per character
+ */
+function entropy(value: string): number {
+  const frequencies = new Map<string, number>();
+  for (const char of value) {
+    frequencies.set(char, (frequencies.get(char) ?? 0) + 1);
+  }
+  let bits = 0;
+  for (const count of frequencies.values()) {
+    const probability = count / value.length;
+    bits -= probability * Math.log2(probability);
+  }
+  return bits;
+}
+
+function mask(name: string): string {
+  return `[REDACTED:${name}]`;
+}
+
+function applyDetector(text: string, detector: Detector, counts: Record<string, number>): string {
+  return text.replace(detector.pattern, (match: string, ...groups: unknown[]) => {
+    const value = detector.valueGroup ? groups[detector.valueGroup - 1] as string : match;
+    if (typeof value !== 'string' || value.startsWith('[REDACTED') || (detector.accept && !detector.accept(value))) {
+      return match;
+    }
+    counts[detector.name] = (counts[detector.name] ?? 0) + 1;
+    if (!detector.valueGroup) {
+      return mask(detector.name);
+    }
+    const captured = groups.slice(0, detector.valueGroup) as string[];
+    return captured.slice(0, -1).join('') + mask(detector.name);
+  });
+}
+
+/**
+ * Mask secrets in a piece of text
+ *
+ * @param text - Text that may contain secrets
+ * @param customPatterns - Regular expressions from the redactionPatterns setting, masked as a whole
+ * @returns The masked text and how many values each detector masked
+ */
+export function redactSecrets(text: string, customPatterns: RegExp[] = []): RedactionResult {
+  const counts: Record<string, number> = {};
+  let redacted = text;
+  for (const detector of BUILT_IN_DETECTORS) {
+    redacted = applyDetector(redacted, detector, counts);
+  }
+  for (const pattern of customPatterns) {
+    redacted = applyDetector(redacted, { name: 'custom', pattern }, counts);
+  }
+  return { text: redacted, counts };
+}
+
+function compilePatterns(patterns: unknown): RegExp[] {
+  if (!Array.isArray(patterns)) {
+    return [];
+  }
+  const compiled: RegExp[] = [];
+  for (const pattern of patterns) {
+    try {
+      const regex = new RegExp(pattern, 'g');
+      // A pattern matching the empty string would mask between every character
+      if (!regex.test('')) {
+        compiled.push(regex);
+      }
+    } catch (error) {
+      console.error(`Ignoring invalid redaction pattern ${JSON.stringify(pattern)}:`, error);
+    }
+  }
+  return compiled;
+}
+
+function redactValue(value: unknown, customPatterns: RegExp[]): unknown {
+  if (typeof value === 'string') {
+    return redactSecrets(value, customPatterns).text;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, customPatterns));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>)
+      .map(([key, item]) => [key, redactValue(item, customPatterns)]));
+  }
+  return value;
+}
+
+/**
+ * Mask secrets in the text of a tool result, unless the redactSecrets setting is false.
+ * A note saying how many values were masked is added to the result.
+ *
+ * @param result - Result of a tool call
+ * @returns The result with secrets masked
+ */
+export async function redactResult(result: ServerResult): Promise<ServerResult> {
+  const config = await configManager.getConfig();
+  if (config.redactSecrets === false) {
+    return result;
+  }
+  const customPatterns = compilePatterns(config.redactionPatterns);
+
+  const counts: Record<string, number> = {};
+  const content = result.content.map(item => {
+    if (item.type !== 'text' || typeof item.text !== 'string') {
+      return item;
+    }
+    const redacted = redactSecrets(item.text, customPatterns);
+    for (const [name, count] of Object.entries(redacted.counts)) {
+      counts[name] = (counts[name] ?? 0) + count;
+    }
+    return { ...item, text: redacted.text };
+  });
+
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  if (total === 0 && !result.structuredContent) {
+    return result;
+  }
+
+  const redactedResult: ServerResult = { ...result, content };
+  if (result.structuredContent) {
+    redactedResult.structuredContent = redactValue(result.structuredContent, customPatterns) as Record<string, unknown>;
+  }
+  if (total > 0) {
+    const details = Object.entries(counts).map(([name, count]) => `${count} ${name}`).join(', ');
+    content.push({
+      type: 'text',
+      text: `[${total} secret value${total === 1 ? ' was' : 's were'} masked: ${details}]`
+    });
+    redactedResult._meta = { ...result._meta, redactedSecrets: counts };
+  }
+  return redactedResult;
+}
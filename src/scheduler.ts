@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+import { terminalManager } from './terminal-manager.js';
+import { commandManager } from './command-manager.js';
+import { parseCron, nextCronTime, CronSchedule } from './cron.js';
+import { CommandExecutionOptions } from './types.js';
+import { capture } from './utils.js';
+
+// setTimeout cannot wait longer than this, longer delays are re-armed
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+// Runs remembered per scheduled command
+const MAX_RUN_HISTORY = 20;
+
+export type ScheduledStatus = 'scheduled' | 'completed' | 'cancelled';
+
+export interface ScheduledRun {
+  time: Date;
+  // PID of the session, its output is available through read_output
+  pid: number | null;
+  // Set when the run did not start
+  skipped?: string;
+}
+
+export interface ScheduledCommand {
+  id: string;
+  command: string;
+  shell?: string;
+  options: CommandExecutionOptions;
+  cron?: string;
+  createdAt: Date;
+  nextRun: Date | null;
+  status: ScheduledStatus;
+  runs: ScheduledRun[];
+}
+
+export interface ScheduleOptions {
+  command: string;
+  shell?: string;
+  options?: CommandExecutionOptions;
+  // Exactly one of delayMs, runAt and cron
+  delayMs?: number;
+  runAt?: Date;
+  cron?: string;
+}
+
+interface ScheduleEntry {
+  job: ScheduledCommand;
+  schedule?: CronSchedule;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Runs commands after a delay, at a given time or on a cron schedule.
+ * Every run is an ordinary terminal session, so its output can be read with read_output
+ * and it shows up in the completed sessions once it finishes.
+ */
+class CommandScheduler {
+  private entries: Map<string, ScheduleEntry> = new Map();
+
+  /**
+   * Schedule a command
+   *
+   * @param options - Command, execution options and when to run it
+   * @returns The scheduled command
+   */
+  schedule(options: ScheduleOptions): ScheduledCommand {
+    const triggers = [options.delayMs, options.runAt, options.cron].filter(trigger => trigger !== undefined);
+    if (triggers.length !== 1) {
+      throw new Error('Specify exactly one of delay_ms, run_at and cron');
+    }
+
+    const now = new Date();
+    const schedule = options.cron !== undefined ? parseCron(options.cron) : undefined;
+    let nextRun: Date | null;
+    if (schedule) {
+      nextRun = nextCronTime(schedule, now);
+      if (!nextRun) {
+        throw new Error(`Cron expression never matches: ${options.cron}`);
+      }
+    } else if (options.runAt) {
+      if (isNaN(options.runAt.getTime())) {
+        throw new Error('Invalid run_at time');
+      }
+      nextRun = options.runAt;
+    } else {
+      nextRun = new Date(now.getTime() + options.delayMs!);
+    }
+
+    const job: ScheduledCommand = {
+      id: `sched-${crypto.randomBytes(4).toString('hex')}`,
+      command: options.command,
+      shell: options.shell,
+      options: options.options || {},
+      cron: schedule?.expression,
+      createdAt: now,
+      nextRun,
+      status: 'scheduled',
+      runs: []
+    };
+
+    const entry: ScheduleEntry = { job, schedule };
+    this.entries.set(job.id, entry);
+    this.arm(entry);
+    return job;
+  }
+
+  /**
+   * List all scheduled commands, including finished and cancelled ones
+   */
+  list(): ScheduledCommand[] {
+    return Array.from(this.entries.values()).map(entry => entry.job);
+  }
+
+  get(id: string): ScheduledCommand | undefined {
+    return this.entries.get(id)?.job;
+  }
+
+  /**
+   * Cancel a scheduled command. Runs that already started are not affected.
+   *
+   * @returns False if no pending schedule has this id
+   */
+  cancel(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry || entry.job.status !== 'scheduled') {
+      return false;
+    }
+    clearTimeout(entry.timer);
+    entry.job.status = 'cancelled';
+    entry.job.nextRun = null;
+    return true;
+  }
+
+  private arm(entry: ScheduleEntry): void {
+    const { job } = entry;
+    if (!job.nextRun) return;
+
+    const delay = job.nextRun.getTime() - Date.now();
+    if (delay > MAX_TIMER_DELAY_MS) {
+      entry.timer = setTimeout(() => this.arm(entry), MAX_TIMER_DELAY_MS);
+      return;
+    }
+    entry.timer = setTimeout(() => {
+      this.run(entry).catch(error => {
+        console.error(`Scheduled command ${job.id} failed:`, error);
+      });
+    }, Math.max(0, delay));
+  }
+
+  private async run(entry: ScheduleEntry): Promise<void> {
+    const { job } = entry;
+    const run: ScheduledRun = { time: new Date(), pid: null };
+
+    // Schedule the next run first so a slow start does not delay it
+    if (entry.schedule) {
+      job.nextRun = nextCronTime(entry.schedule, run.time);
+      this.arm(entry);
+    } else {
+      job.nextRun = null;
+      job.status = 'completed';
+    }
+
+    const previous = job.runs[job.runs.length - 1];
+    const check = await commandManager.checkCommand(job.command, job.options.cwd);
+    if (!check.allowed) {
+      // The command policy may have changed since the command was scheduled
+      run.skipped = commandManager.formatDenial(job.command, check);
+    } else if (previous?.pid != null && terminalManager.listActiveSessions().some(session => session.pid === previous.pid)) {
+      run.skipped = `previous run (PID ${previous.pid}) is still running`;
+    } else {
+      capture('server_scheduled_command_run', {
+        command: commandManager.getBaseCommand(job.command)
+      });
+      // A zero timeout returns as soon as the process has started
+      const result = await terminalManager.executeCommand(job.command, 0, job.shell, job.options);
+      if (result.pid === -1) {
+        run.skipped = result.output.replace(/^Error: /, '');
+      } else {
+        run.pid = result.pid;
+      }
+    }
+
+    job.runs.push(run);
+    if (job.runs.length > MAX_RUN_HISTORY) {
+      job.runs.shift();
+    }
+  }
+}
+
+export const commandScheduler = new CommandScheduler();
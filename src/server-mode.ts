@@ -0,0 +1,92 @@
+import { configManager } from './config-manager.js';
+
+/**
+ * normal runs every tool, readonly rejects everything that could change the machine
+ * and dryrun describes what a changing tool call would have done instead of doing it
+ */
+export type ServerMode = 'normal' | 'readonly' | 'dryrun';
+
+export const SERVER_MODES: ServerMode[] = ['normal', 'readonly', 'dryrun'];
+
+// Tools that change files, processes or the configuration. Hidden and rejected in readonly mode.
+export const MODIFYING_TOOLS = [
+  'write_file',
+  'edit_block',
+  'move_file',
+  'create_directory',
+  'kill_process',
+  'set_config_value',
+  'ssh_upload_file',
+  'ssh_download_file',
+  'ssh_upload_in_session',
+  'ssh_download_in_session'
+];
+
+// Tools that run commands. In readonly mode they only run read-only commands.
+export const COMMAND_TOOLS = [
+  'execute_command',
+  'open_shell',
+  'run_in_shell',
+  'schedule_command',
+  'enqueue_command',
+  'watch_and_run',
+  'ssh_execute_command',
+  'ssh_run_in_session'
+];
+
+// Tools that act on running sessions. Allowed in readonly mode, where send_input only reaches
+// sessions running a read-only command that does not run commands typed into it.
+export const SESSION_CONTROL_TOOLS = ['send_input', 'force_terminate', 'close_shell'];
+
+export function isServerMode(value: unknown): value is ServerMode {
+  return SERVER_MODES.includes(value as ServerMode);
+}
+
+/**
+ * Holds the server mode. The mode setting can be overridden for the lifetime
+ * of the process with the --mode command line flag.
+ */
+class ModeManager {
+  private override: ServerMode | null = null;
+
+  /**
+   * Use a mode regardless of the mode setting
+   *
+   * @param mode - Mode from the command line
+   */
+  setOverride(mode: ServerMode): void {
+    this.override = mode;
+  }
+
+  /**
+   * The current mode, normal if the mode setting is missing or invalid
+   */
+  async getMode(): Promise<ServerMode> {
+    if (this.override) {
+      return this.override;
+    }
+    try {
+      const config = await configManager.getConfig();
+      return isServerMode(config.mode) ? config.mode : 'normal';
+    } catch (error) {
+      console.error('Error reading the server mode:', error);
+      return 'normal';
+    }
+  }
+
+  /**
+   * Whether a tool is left out of the tool list and rejected in a mode
+   */
+  isHidden(tool: string, mode: ServerMode): boolean {
+    return mode === 'readonly' && MODIFYING_TOOLS.includes(tool);
+  }
+
+  /**
+   * Whether a tool call only gets described in a mode
+   */
+  isDryRun(tool: string, mode: ServerMode): boolean {
+    return mode === 'dryrun' && [...MODIFYING_TOOLS, ...COMMAND_TOOLS, ...SESSION_CONTROL_TOOLS].includes(tool);
+  }
+}
+
+export const modeManager = new ModeManager();
@@ -4,14 +4,31 @@ import {
     ListToolsRequestSchema,
     ListResourcesRequestSchema,
     ListPromptsRequestSchema,
+    RootsListChangedNotificationSchema,
     type CallToolRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 import {zodToJsonSchema} from "zod-to-json-schema";
+import {z} from "zod";
 import {
   ExecuteCommandArgsSchema,
   ReadOutputArgsSchema,
+  SendInputArgsSchema,
+  WaitForOutputArgsSchema,
   ForceTerminateArgsSchema,
   ListSessionsArgsSchema,
+  OpenShellArgsSchema,
+  RunInShellArgsSchema,
+  CloseShellArgsSchema,
+  ScheduleCommandArgsSchema,
+  ListScheduledArgsSchema,
+  CancelScheduledArgsSchema,
+  EnqueueCommandArgsSchema,
+  GetJobArgsSchema,
+  WatchAndRunArgsSchema,
+  GetWatchArgsSchema,
+  StopWatchArgsSchema,
+  GetProcessInfoArgsSchema,
+  FindProcessByPortArgsSchema,
   KillProcessArgsSchema,
   ReadFileArgsSchema,
   ReadMultipleFilesArgsSchema,
@@ -32,6 +49,7 @@ import {
   GetConfigArgsSchema,
   SetConfigValueArgsSchema,
   ListProcessesArgsSchema,
+  QueryAuditLogArgsSchema,
 } from './tools/schemas.js';
 import {
   sshConnectSchema,
@@ -61,6 +79,13 @@ import {getConfig, setConfigValue} from './tools/config.js';
 
 import {VERSION} from './version.js';
 import {capture} from "./utils.js";
+import {CommandNotAllowedError} from './command-manager.js';
+import {approvalManager} from './approval-manager.js';
+import {auditLog} from './audit-log.js';
+import {redactResult} from './redaction.js';
+import {modeManager} from './server-mode.js';
+import {dryRun} from './tools/dryrun.js';
+import {rootsManager} from './client-roots.js';
 
 console.error("Loading server.ts");
 
@@ -94,57 +119,205 @@ server.setRequestHandler(ListPromptsRequestSchema, async () => {
     };
 });
 
+// Ask the client for its workspace roots, which can limit the allowed directories
+async function refreshRoots(): Promise<void> {
+    if (!server.getClientCapabilities()?.roots) {
+        return;
+    }
+    try {
+        const result = await server.listRoots();
+        rootsManager.setRoots(result.roots.map(root => root.uri));
+        console.error(`Client roots: ${JSON.stringify(rootsManager.getRoots())}`);
+    } catch (error) {
+        console.error('Failed to list client roots:', error);
+        capture('server_list_roots_error', {message: error instanceof Error ? error.message : String(error)});
+    }
+}
+
+server.oninitialized = () => {
+    refreshRoots();
+};
+
+server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+    await refreshRoots();
+});
+
 console.error("Setting up request handlers...");
 
 server.setRequestHandler(ListToolsRequestSchema, async () => {
     try {
         console.error("Generating tools list...");
-        return {
+        const mode = await modeManager.getMode();
+        const list = {
             tools: [
                 // Configuration tools
                 {
                     name: "get_config",
                     description:
-                        "Get the complete server configuration as JSON. Config includes fields for: blockedCommands (array of blocked shell commands), defaultShell (shell to use for commands), allowedDirectories (paths the server can access).",
+                        "Get the complete server configuration as JSON. Config includes fields for: blockedCommands (array of blocked shell commands), commandPolicyMode, commandRules and directoryCommandPolicies (command policy), sshBlockedCommands, sshCommandPolicyMode, sshCommandRules and sshHostCommandPolicies (SSH command policy), approvalRules (tool calls that need the user's approval), auditLog, auditLogMaxBytes and auditLogMaxFiles (audit log of tool calls and its rotation), redactSecrets and redactionPatterns (secrets masked in tool results), mode ('normal', 'readonly' or 'dryrun') and readonlyCommandRules, defaultShell (shell to use for commands), allowedDirectories (paths the server can access) and allowedDirectoriesSource, pathPermissions and deniedPaths (per-path read and write access).",
                     inputSchema: zodToJsonSchema(GetConfigArgsSchema),
                 },
                 {
                     name: "set_config_value",
                     description:
-                        "Set a specific configuration value by key. WARNING: Should be used in a separate chat from file operations and command execution to prevent security issues. Config keys include: blockedCommands (array), defaultShell (string), allowedDirectories (array of paths). IMPORTANT: Setting allowedDirectories to an empty array ([]) allows full access to the entire file system, regardless of the operating system.",
+                        "Set a specific configuration value by key. WARNING: Should be used in a separate chat from file operations and command execution to prevent security issues. Config keys include: blockedCommands (array), commandPolicyMode ('denylist' or 'allowlist'), commandRules (array of {action: 'allow' or 'deny', command?, pattern?, description?} rules, pattern being a regex on the full command), directoryCommandPolicies (object mapping directories to {mode?, rules?}), sshBlockedCommands, sshCommandPolicyMode, sshCommandRules and sshHostCommandPolicies (the same policy for commands run over SSH, per host or user@host), approvalRules (array of {tool?, command?, path?, description?} rules; matching tool calls wait for the user's approval), auditLog (boolean, true by default), auditLogMaxBytes (size at which the audit log is rotated) and auditLogMaxFiles (rotated audit logs kept), redactSecrets (boolean, true by default; masks private keys, cloud and GitHub tokens, JWTs and random-looking values assigned to password/secret/token names in tool results) and redactionPatterns (array of extra regexes to mask), mode ('normal', 'readonly' to reject every change and allow only read-only commands, or 'dryrun' to describe changes instead of making them; the --mode command line flag takes precedence), readonlyCommandRules (command rules replacing the default read-only commands), defaultShell (string), allowedDirectories (array of paths), allowedDirectoriesSource ('config' to use allowedDirectories, 'roots' to use the workspace roots the client announces, or 'intersection' for directories in both; until the client lists roots allowedDirectories is used), pathPermissions (object mapping paths or globs to 'read', 'write' or 'none'; the most specific match narrows the access allowedDirectories gives, paths outside them stay inaccessible), deniedPaths (array of paths or globs such as '**/.env' that can be neither read nor written, taking precedence over everything else). IMPORTANT: Setting allowedDirectories to an empty array ([]) allows full access to the entire file system, regardless of the operating system.",
                     inputSchema: zodToJsonSchema(SetConfigValueArgsSchema),
                 },
+                {
+                    name: "query_audit_log",
+                    description:
+                        "Search the audit log of tool calls, newest first. Every call is logged to ~/.claude-server-commander/audit.jsonl with its timestamp, tool name, arguments (secrets redacted), affected paths, command, exit status, duration and result size. " +
+                        "Filter by time (since/until as ISO dates), tool name (* matches anything), path (the path or anything below it), command (regex) or errors_only. Returns at most limit entries (default 50).",
+                    inputSchema: zodToJsonSchema(QueryAuditLogArgsSchema),
+                },
 
                 // Terminal tools
                 {
                     name: "execute_command",
                     description:
-                        "Execute a terminal command with timeout. Command will continue running in background if it doesn't complete within timeout.",
+                        "Execute a terminal command with timeout. Command will continue running in background if it doesn't complete within timeout. Set pty to true (optionally with cols and rows) to run the command in a pseudo-terminal, for interactive or full-screen programs like top, less or colorized test runners. Use cwd to run in a specific directory (must be within allowed directories) and env (with env_mode 'merge' or 'replace', and optionally an env_file in dotenv format) to set environment variables instead of prefixing the command. Completed commands report the exit code, signal, duration and separate stdout/stderr, also as structuredContent. " +
+                        "timeout_ms only controls when the call returns; set max_runtime_ms to kill the process tree after that long and max_output_bytes to kill it once it has printed that much. " +
+                        "max_memory_mb (address space), max_cpu_seconds and max_open_files are applied with ulimit before the command starts (not on Windows). The reason a command was killed is reported with its result.",
                     inputSchema: zodToJsonSchema(ExecuteCommandArgsSchema),
                 },
                 {
                     name: "read_output",
-                    description: "Read new output from a running terminal session.",
+                    description:
+                        "Read new output from a running terminal session. format selects 'raw' (default, the output stream as-is), 'text' (ANSI escape sequences stripped) or 'screen' (the currently rendered screen of a session started with pty: true). " +
+                        "Without a position, returns the output since the last read, at most length bytes (default 64KB) per call. " +
+                        "To page through history instead, pass offset (absolute byte offset), since_cursor (the cursor returned by an earlier read) or tail_lines (last N lines, also at most length bytes); these do not affect what counts as new output. " +
+                        "Output is kept in a bounded buffer per session (config outputBufferMaxBytes), older output is dropped unless spillOutputToDisk is enabled.",
                     inputSchema: zodToJsonSchema(ReadOutputArgsSchema),
                 },
+                {
+                    name: "send_input",
+                    description:
+                        "Send input to the stdin of a running terminal session by PID, for commands that prompt or REPLs. A newline is appended unless newline is false. Set eof to close stdin or ctrl_c to interrupt the process. Waits until output settles (settle_ms, default 300ms; at most timeout_ms, default 5000ms) and returns the output produced since the last read.",
+                    inputSchema: zodToJsonSchema(SendInputArgsSchema),
+                },
+                {
+                    name: "wait_for_output",
+                    description:
+                        "Wait until a running command prints a line matching a regex pattern, exits, or timeout_ms elapses (default 30000ms), instead of polling read_output. " +
+                        "Pass pid for a local command from execute_command or id for an SSH command from ssh_execute_command. " +
+                        "Unread output is checked first. Without a pattern, waits for the command to exit. " +
+                        "Returns why it returned (matched, exited or timeout), the matched line and the output seen while waiting.",
+                    inputSchema: zodToJsonSchema(WaitForOutputArgsSchema),
+                },
                 {
                     name: "force_terminate",
-                    description: "Force terminate a running terminal session.",
+                    description:
+                        "Force terminate a running terminal session together with its process group. " +
+                        "By default sends SIGINT and then SIGKILL after 1s to anything still running; pass signal (e.g. SIGTERM) to send only that signal. " +
+                        "Set tree to also signal descendants that left the group. Reports the PIDs that were signaled.",
                     inputSchema: zodToJsonSchema(ForceTerminateArgsSchema),
                 },
                 {
                     name: "list_sessions",
-                    description: "List all active terminal sessions.",
+                    description: "List all active terminal sessions with their working directory and environment overrides. With persistSessions enabled, sessions re-attached after a server restart are included and marked.",
                     inputSchema: zodToJsonSchema(ListSessionsArgsSchema),
                 },
+                {
+                    name: "open_shell",
+                    description:
+                        "Open a named persistent local shell session. Unlike execute_command, the working directory, exported variables, activated virtualenvs and shell functions persist between commands run with run_in_shell. Optional shell (name or path of a POSIX shell such as bash or zsh, without arguments), cwd (must be within allowed directories), env, env_mode and env_file. Not available on Windows.",
+                    inputSchema: zodToJsonSchema(OpenShellArgsSchema),
+                },
+                {
+                    name: "run_in_shell",
+                    description:
+                        "Run a command in a named shell session opened with open_shell and wait for it to finish (default timeout 30000ms). Returns stdout, stderr, the exit code and the session's current working directory. Commands do not receive stdin.",
+                    inputSchema: zodToJsonSchema(RunInShellArgsSchema),
+                },
+                {
+                    name: "close_shell",
+                    description: "Close a named shell session opened with open_shell, terminating anything still running in it.",
+                    inputSchema: zodToJsonSchema(CloseShellArgsSchema),
+                },
+                {
+                    name: "schedule_command",
+                    description:
+                        "Schedule a command to run later: after delay_ms, once at run_at (ISO 8601 time) or repeatedly on a cron schedule " +
+                        "(5 fields: minute hour day-of-month month day-of-week in local time, or @hourly, @daily, @weekly, @monthly). " +
+                        "Each run is a normal terminal session whose output can be read with read_output. " +
+                        "The command is checked against the blocked commands when scheduled and before every run; a cron run is skipped while the previous one is still running. " +
+                        "Accepts the same shell, cwd, env, env_mode, env_file, max_runtime_ms and max_output_bytes as execute_command. Schedules are kept in memory until the server restarts.",
+                    inputSchema: zodToJsonSchema(ScheduleCommandArgsSchema),
+                },
+                {
+                    name: "list_scheduled",
+                    description: "List scheduled commands with their status, next run time and the PIDs and exit codes of their recent runs.",
+                    inputSchema: zodToJsonSchema(ListScheduledArgsSchema),
+                },
+                {
+                    name: "cancel_scheduled",
+                    description: "Cancel a command scheduled with schedule_command. Runs that already started are not terminated.",
+                    inputSchema: zodToJsonSchema(CancelScheduledArgsSchema),
+                },
+                {
+                    name: "enqueue_command",
+                    description:
+                        "Add a command to a job queue instead of running it immediately. Each named queue (default \"default\") runs at most " +
+                        "max_concurrency jobs at once (config maxConcurrentJobs, 2 by default); passing max_concurrency changes the limit of that queue. " +
+                        "depends_on lists job IDs that must finish first: with depends_on_condition \"success\" (default) the job is skipped unless all of them succeeded, with \"always\" it runs once they are done. " +
+                        "Accepts the same shell, cwd, env, env_mode, env_file, max_runtime_ms and max_output_bytes as execute_command. Returns a job ID for get_job.",
+                    inputSchema: zodToJsonSchema(EnqueueCommandArgsSchema),
+                },
+                {
+                    name: "get_job",
+                    description:
+                        "Get the state of a queued job: queued (with its position), running (with its PID for read_output) or done (succeeded, failed or skipped, with the exit code). " +
+                        "Without id, lists all jobs.",
+                    inputSchema: zodToJsonSchema(GetJobArgsSchema),
+                },
+                {
+                    name: "watch_and_run",
+                    description:
+                        "Rerun a command whenever files matching the globs in paths change, e.g. paths [\"src/**/*.ts\"] with command \"npm test\". " +
+                        "Globs are relative to cwd, which must be within allowed directories and is also the command's working directory. " +
+                        "Changes are debounced (debounce_ms, default 500), files ignored by .gitignore and the .git directory are skipped, " +
+                        "and a run that is still going when the next one starts is terminated. Set run_on_start to run once immediately. " +
+                        "Returns a watch ID; use get_watch to see the pass/fail history of runs.",
+                    inputSchema: zodToJsonSchema(WatchAndRunArgsSchema),
+                },
+                {
+                    name: "get_watch",
+                    description:
+                        "Show a watch started with watch_and_run: its globs and the recent runs with the files that triggered them, " +
+                        "their status (running, passed, failed, cancelled) and exit code, plus the last tail_lines lines (default 20) of the latest run's output. " +
+                        "Without id, lists all watches.",
+                    inputSchema: zodToJsonSchema(GetWatchArgsSchema),
+                },
+                {
+                    name: "stop_watch",
+                    description: "Stop a watch started with watch_and_run. A run that is still going is not terminated.",
+                    inputSchema: zodToJsonSchema(StopWatchArgsSchema),
+                },
                 {
                     name: "list_processes",
-                    description: "List all running processes. Returns process information including PID, command name, CPU usage, and memory usage.",
+                    description:
+                        "List running processes with PID, parent PID, user, CPU and memory usage, RSS, start time and the full command line. " +
+                        "Filter by name (substring of the executable name), user or pattern (regex on the full command line), " +
+                        "sort by pid, cpu, memory, start_time or name (order asc/desc) and cap the result with limit.",
                     inputSchema: zodToJsonSchema(ListProcessesArgsSchema),
                 },
+                {
+                    name: "get_process_info",
+                    description:
+                        "Get details of a single process from /proc (Linux only): parent chain and child process tree, executable, cwd, full command line, " +
+                        "listening TCP/UDP sockets, open file descriptors (up to max_fds) and its environment with secret-looking values masked (include_env: false to omit).",
+                    inputSchema: zodToJsonSchema(GetProcessInfoArgsSchema),
+                },
+                {
+                    name: "find_process_by_port",
+                    description: "Find which process is listening on a TCP or UDP port (Linux only), without relying on lsof or ss.",
+                    inputSchema: zodToJsonSchema(FindProcessByPortArgsSchema),
+                },
                 {
                     name: "kill_process",
-                    description: "Terminate a running process by PID. Use with caution as this will forcefully terminate the specified process.",
+                    description:
+                        "Terminate a running process by PID. Use with caution as this will forcefully terminate the specified process. " +
+                        "signal selects the signal to send (default SIGTERM); set tree to also signal all of its descendants. Reports the PIDs that were signaled.",
                     inputSchema: zodToJsonSchema(KillProcessArgsSchema),
                 },
 
@@ -219,7 +392,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                         "Execute a command on a remote server over SSH, providing connection details and the command. " +
                         "For short commands, returns complete output immediately. For long-running commands, " +
                         "transitions to background processing with streaming output. " +
-                        "Use either password or privateKeyPath for authentication.",
+                        "Use either password or privateKeyPath for authentication. " +
+                        "Commands are checked against the SSH command policy (sshBlockedCommands, sshCommandRules, sshHostCommandPolicies).",
                     inputSchema: zodToJsonSchema(SshExecuteCommandArgsSchema),
                 },
                 {
@@ -270,7 +444,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                     name: "ssh_run_in_session",
                     description:
                         "Execute a command on a remote server using an established SSH session. " +
-                        "Requires a session identifier returned from ssh_connect.",
+                        "Requires a session identifier returned from ssh_connect. " +
+                        "Commands are checked against the SSH command policy like ssh_execute_command.",
                     inputSchema: zodToJsonSchema(sshRunInSessionSchema),
                 },
                 {
@@ -302,6 +477,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                 }
             ],
         };
+        // readonly mode leaves out the tools that change something
+        return {
+            tools: list.tools.filter(tool => !modeManager.isHidden(tool.name, mode)),
+        };
     } catch (error) {
         console.error("Error in list_tools request handler:", error);
         throw error;
@@ -311,13 +490,69 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
 import * as handlers from './handlers/index.js';
 import {ServerResult} from './types.js';
 
-server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest): Promise<ServerResult> => {
+// Result of an elicitation/create request, which this SDK version has no schema for
+const ElicitResultSchema = z.object({
+    action: z.enum(['accept', 'decline', 'cancel']),
+    content: z.record(z.unknown()).optional(),
+}).passthrough();
+
+// How long the user has to answer an approval request in the client
+const APPROVAL_ELICITATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Ask the user to approve a tool call through MCP elicitation, or resolve to null if the client does not support it
+ */
+async function elicitApproval(message: string): Promise<boolean | null> {
+    if (!server.getClientCapabilities()?.elicitation) {
+        return null;
+    }
+    const result = await server.request({
+        method: 'elicitation/create',
+        params: {
+            message,
+            requestedSchema: {
+                type: 'object',
+                properties: {
+                    approve: { type: 'boolean', title: 'Approve', description: 'Run this tool call' },
+                },
+                required: ['approve'],
+            },
+        },
+    }, ElicitResultSchema, { timeout: APPROVAL_ELICITATION_TIMEOUT_MS });
+    return result.action === 'accept' && result.content?.approve !== false;
+}
+
+async function callTool(request: CallToolRequest): Promise<ServerResult> {
     try {
         const {name, arguments: args} = request.params;
         capture('server_call_tool', {
             name
         });
 
+        // readonly mode rejects tools that change something, dryrun mode only describes what they would do
+        const mode = await modeManager.getMode();
+        if (modeManager.isHidden(name, mode)) {
+            capture('server_tool_rejected_readonly', { name });
+            return {
+                content: [{ type: "text", text: `Error: ${name} is not available, the server is in readonly mode` }],
+                isError: true,
+            };
+        }
+        if (modeManager.isDryRun(name, mode)) {
+            capture('server_tool_dry_run', { name });
+            return await dryRun(name, args);
+        }
+
+        // Calls matching approvalRules wait for the user before they run
+        const approval = await approvalManager.check(name, args, elicitApproval);
+        if (!approval.approved) {
+            capture('server_tool_not_approved', { name });
+            return {
+                content: [{ type: "text", text: `Error: ${approval.message}` }],
+                isError: true,
+            };
+        }
+
         // Using a more structured approach with dedicated handlers
         switch (name) {
             // Config tools
@@ -341,6 +576,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
                         isError: true,
                     };
                 }
+            case "query_audit_log":
+                return await handlers.handleQueryAuditLog(args);
 
             // Terminal tools
             case "execute_command":
@@ -349,15 +586,60 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
             case "read_output":
                 return await handlers.handleReadOutput(args);
 
+            case "send_input":
+                return await handlers.handleSendInput(args);
+
+            case "wait_for_output":
+                return await handlers.handleWaitForOutput(args);
+
             case "force_terminate":
                 return await handlers.handleForceTerminate(args);
 
             case "list_sessions":
                 return await handlers.handleListSessions();
 
+            case "open_shell":
+                return await handlers.handleOpenShell(args);
+
+            case "run_in_shell":
+                return await handlers.handleRunInShell(args);
+
+            case "close_shell":
+                return await handlers.handleCloseShell(args);
+
+            case "schedule_command":
+                return await handlers.handleScheduleCommand(args);
+
+            case "list_scheduled":
+                return await handlers.handleListScheduled();
+
+            case "cancel_scheduled":
+                return await handlers.handleCancelScheduled(args);
+
+            case "enqueue_command":
+                return await handlers.handleEnqueueCommand(args);
+
+            case "get_job":
+                return await handlers.handleGetJob(args);
+
+            case "watch_and_run":
+                return await handlers.handleWatchAndRun(args);
+
+            case "get_watch":
+                return await handlers.handleGetWatch(args);
+
+            case "stop_watch":
+                return await handlers.handleStopWatch(args);
+
             // Process tools
             case "list_processes":
-                return await handlers.handleListProcesses();
+                return await handlers.handleListProcesses(args);
+
+            case "get_process_info":
+                return await handlers.handleGetProcessInfo(args);
+
+            case "find_process_by_port":
+                return await handlers.handleFindProcessByPort(args);
 
             case "kill_process":
                 return await handlers.handleKillProcess(args);
@@ -450,6 +732,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
                         };
                     }
                 } catch (error: any) {
+                    if (error instanceof CommandNotAllowedError) {
+                        return {
+                            content: [{ type: "text", text: `Error: ${error.message}` }],
+                            isError: true,
+                        };
+                    }
                     const errorMessage = error instanceof Error ? error.message : String(error);
                     return {
                         content: [{ type: "text", text: `SSH Error: ${errorMessage}` }],
@@ -623,6 +911,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
                         content: [{ type: "text", text: responseText }],
                     };
                 } catch (error: any) {
+                    if (error instanceof CommandNotAllowedError) {
+                        return {
+                            content: [{ type: "text", text: `Error: ${error.message}` }],
+                            isError: true,
+                        };
+                    }
                     const errorMessage = error instanceof Error ? error.message : String(error);
                     return {
                         content: [{ type: "text", text: `SSH Command Execution Error: ${errorMessage}` }],
@@ -728,4 +1022,28 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
             isError: true,
         };
     }
+}
+
+// Tools whose results are not redacted, the configuration holds the redaction patterns themselves
+const UNREDACTED_TOOLS = ['get_config', 'set_config_value'];
+
+// Secrets are masked in every result, and every tool call goes to the audit log,
+// including calls that fail or are not approved
+server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest): Promise<ServerResult> => {
+    const startedAt = new Date();
+    let result = await callTool(request);
+    if (!UNREDACTED_TOOLS.includes(request.params.name)) {
+        try {
+            result = await redactResult(result);
+        } catch (error) {
+            // The result may hold the secrets that could not be masked, so it is not returned
+            console.error('Error redacting secrets:', error);
+            result = {
+                content: [{ type: "text", text: `Error: The result of ${request.params.name} was withheld because masking secrets in it failed: ${error instanceof Error ? error.message : String(error)}` }],
+                isError: true,
+            };
+        }
+    }
+    auditLog.record(request.params.name, request.params.arguments, result, startedAt);
+    return result;
 });
@@ -0,0 +1,228 @@
+import fs from 'fs';
+import path from 'path';
+import { SESSION_STATE_DIR } from './config.js';
+import { EnvMode, KillReason } from './types.js';
+
+// Completed sessions kept on disk, matching the in-memory limit
+const MAX_STORED_SESSIONS = 100;
+
+/**
+ * Metadata of a local session, written when it starts and updated when it completes
+ */
+export interface SessionRecord {
+  pid: number;
+  command: string;
+  cwd: string;
+  pty: boolean;
+  cols?: number;
+  rows?: number;
+  envKeys: string[];
+  envMode: EnvMode;
+  startTime: string;
+  // Identifies the process so a reused pid is not mistaken for it (Linux only)
+  processStartTicks?: number | null;
+  maxRuntimeMs?: number;
+  maxOutputBytes?: number;
+  endTime?: string;
+  exitCode?: number | null;
+  signal?: NodeJS.Signals | null;
+  killReason?: KillReason | null;
+}
+
+/**
+ * Files of a persisted session. The process writes its output straight to the
+ * log files, so it keeps running and logging while the server is down.
+ */
+export interface SessionFiles {
+  dir: string;
+  meta: string;
+  stdout: string;
+  stderr: string;
+  // Exit status written by the shell when the command finishes
+  status: string;
+}
+
+export interface StoredSession {
+  files: SessionFiles;
+  record: SessionRecord;
+}
+
+/**
+ * Record of an SSH command. Remote commands cannot outlive the connection,
+ * so only their output and exit code are kept.
+ */
+export interface SSHCommandRecord {
+  id: string;
+  command: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  isCompleted: boolean;
+  startTime: string;
+  endTime?: string;
+}
+
+function writeJson(file: string, data: unknown): void {
+  // Write through a temporary file so a crash never leaves half a record behind
+  const temp = `${file}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(data, null, 2));
+  fs.renameSync(temp, file);
+}
+
+function readJson<T>(file: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Singleton store of session state under ~/.claude-server-commander/sessions
+ */
+class SessionStore {
+  private readonly root = SESSION_STATE_DIR;
+  private readonly sshDir = path.join(SESSION_STATE_DIR, 'ssh');
+
+  /**
+   * Create the directory of a new session. The pid is not known before spawning,
+   * so directories are named after the start time.
+   */
+  create(startTime: Date): SessionFiles {
+    let dir = path.join(this.root, String(startTime.getTime()));
+    for (let suffix = 1; fs.existsSync(dir); suffix++) {
+      dir = path.join(this.root, `${startTime.getTime()}-${suffix}`);
+    }
+    fs.mkdirSync(dir, { recursive: true });
+    return this.filesIn(dir);
+  }
+
+  save(files: SessionFiles, record: SessionRecord): void {
+    try {
+      writeJson(files.meta, record);
+    } catch (error) {
+      console.error(`Failed to save session state to ${files.meta}:`, error);
+    }
+  }
+
+  load(files: SessionFiles): SessionRecord | null {
+    return readJson<SessionRecord>(files.meta);
+  }
+
+  /**
+   * Load all persisted sessions, oldest first
+   */
+  list(): StoredSession[] {
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(this.root);
+    } catch {
+      return [];
+    }
+
+    const sessions: StoredSession[] = [];
+    for (const entry of entries) {
+      const files = this.filesIn(path.join(this.root, entry));
+      const record = this.load(files);
+      if (record && typeof record.pid === 'number') {
+        sessions.push({ files, record });
+      }
+    }
+    return sessions.sort((a, b) => Date.parse(a.record.startTime) - Date.parse(b.record.startTime));
+  }
+
+  /**
+   * Exit code written by the shell, or null if the process was killed before it could write one
+   */
+  readExitStatus(files: SessionFiles): number | null {
+    try {
+      const status = parseInt(fs.readFileSync(files.status, 'utf8').trim(), 10);
+      return isNaN(status) ? null : status;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Size of a log file, 0 if it does not exist
+   */
+  logSize(file: string): number {
+    try {
+      return fs.statSync(file).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Read bytes of a log file from position, at most maxBytes
+   */
+  readLog(file: string, position: number, maxBytes: number): Buffer {
+    let fd: number | null = null;
+    try {
+      fd = fs.openSync(file, 'r');
+      const buffer = Buffer.alloc(maxBytes);
+      const bytesRead = fs.readSync(fd, buffer, 0, maxBytes, position);
+      return buffer.subarray(0, bytesRead);
+    } catch {
+      return Buffer.alloc(0);
+    } finally {
+      if (fd !== null) fs.closeSync(fd);
+    }
+  }
+
+  remove(files: SessionFiles): void {
+    fs.rm(files.dir, { recursive: true, force: true }, () => {});
+  }
+
+  /**
+   * Delete the oldest completed sessions beyond the limit
+   */
+  prune(): void {
+    const completed = this.list().filter(session => session.record.endTime);
+    completed.slice(0, Math.max(0, completed.length - MAX_STORED_SESSIONS))
+      .forEach(session => this.remove(session.files));
+  }
+
+  saveSSHCommand(record: SSHCommandRecord): void {
+    try {
+      fs.mkdirSync(this.sshDir, { recursive: true });
+      writeJson(path.join(this.sshDir, `${record.id}.json`), record);
+    } catch (error) {
+      console.error(`Failed to save SSH command ${record.id}:`, error);
+    }
+  }
+
+  /**
+   * Load all persisted SSH command records, oldest first
+   */
+  listSSHCommands(): SSHCommandRecord[] {
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(this.sshDir);
+    } catch {
+      return [];
+    }
+    return entries
+      .filter(entry => entry.endsWith('.json'))
+      .map(entry => readJson<SSHCommandRecord>(path.join(this.sshDir, entry)))
+      .filter((record): record is SSHCommandRecord => record !== null && typeof record.id === 'string')
+      .sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime));
+  }
+
+  removeSSHCommand(id: string): void {
+    fs.rm(path.join(this.sshDir, `${id}.json`), { force: true }, () => {});
+  }
+
+  private filesIn(dir: string): SessionFiles {
+    return {
+      dir,
+      meta: path.join(dir, 'session.json'),
+      stdout: path.join(dir, 'stdout.log'),
+      stderr: path.join(dir, 'stderr.log'),
+      status: path.join(dir, 'exit-status')
+    };
+  }
+}
+
+export const sessionStore = new SessionStore();
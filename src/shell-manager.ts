@@ -0,0 +1,298 @@
+import os from 'os';
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { terminalManager } from './terminal-manager.js';
+import { configManager } from './config-manager.js';
+import { EnvMode } from './types.js';
+
+export interface ShellSessionInfo {
+  name: string;
+  pid: number;
+  shell: string;
+  cwd: string;
+  startTime: Date;
+  lastUsed: Date;
+  busy: boolean;
+}
+
+export interface ShellCommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  cwd: string;
+  timedOut: boolean;
+  shellExited: boolean;
+}
+
+export interface OpenShellOptions {
+  shell?: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  envMode?: EnvMode;
+}
+
+const DEFAULT_RUN_TIMEOUT = 30000;
+
+// Commands are fed to the shell with POSIX syntax, so only POSIX shells can run them
+const POSIX_SHELLS = ['sh', 'bash', 'zsh', 'dash', 'ksh', 'mksh', 'ash', 'yash', 'posh'];
+
+/**
+ * Manages named long-lived local shell processes so that cwd, exported variables,
+ * activated virtualenvs and shell functions persist between commands.
+ * Each command's output is delimited by a random sentinel that also carries
+ * the exit code and the shell's working directory.
+ */
+class ShellManager {
+  private shells: Map<string, ShellSessionInfo> = new Map();
+
+  /**
+   * Start a new named shell session
+   *
+   * @param name - Name used to address the session in later calls
+   * @param options - Shell binary, initial working directory and environment
+   * @returns Information about the started session
+   */
+  async openShell(name: string, options: OpenShellOptions = {}): Promise<ShellSessionInfo> {
+    if (os.platform() === 'win32') {
+      throw new Error('Persistent shell sessions are only supported on POSIX shells');
+    }
+    if (this.shells.has(name)) {
+      throw new Error(`Shell session already exists: ${name}`);
+    }
+
+    const shellPath = await this.resolveShellPath(options.shell, options.env);
+
+    // Keep the shell non-interactive: commands are fed through stdin.
+    // The path was checked to contain no shell syntax, quoting it is only a second line of defense.
+    const result = await terminalManager.executeCommand(`exec '${shellPath}'`, 100, undefined, {
+      cwd: options.cwd,
+      env: options.env,
+      envMode: options.envMode
+    });
+
+    if (result.pid === -1) {
+      throw new Error(result.output);
+    }
+    if (!result.isBlocked) {
+      throw new Error(`Shell exited immediately: ${result.output || '(no output)'}`);
+    }
+
+    const now = new Date();
+    const shell: ShellSessionInfo = {
+      name,
+      pid: result.pid,
+      shell: shellPath,
+      cwd: options.cwd || process.cwd(),
+      startTime: now,
+      lastUsed: now,
+      busy: false
+    };
+    this.shells.set(name, shell);
+
+    terminalManager.onExit(shell.pid, () => {
+      this.shells.delete(name);
+    });
+
+    // Resolve the actual working directory reported by the shell
+    await this.runInShell(name, ':', 5000);
+
+    return { ...shell };
+  }
+
+  /**
+   * Find the executable of the shell to open. Only POSIX shells are accepted, given by name
+   * or path without any arguments or shell syntax, since the value is run as a command.
+   *
+   * @param shell - Shell name or path, defaultShell or bash if not given
+   * @param env - Environment of the session, its PATH is searched for shells given by name
+   * @returns Absolute path of the shell executable
+   */
+  async resolveShellPath(shell?: string, env?: Record<string, string>): Promise<string> {
+    let requested = shell;
+    if (!requested) {
+      const config = await configManager.getConfig();
+      requested = config.defaultShell || 'bash';
+    }
+    if (!/^[A-Za-z0-9_./+-]+$/.test(requested)) {
+      throw new Error(`Invalid shell "${requested}": give the name or path of a shell executable without arguments`);
+    }
+    if (!POSIX_SHELLS.includes(path.basename(requested))) {
+      throw new Error(`Invalid shell "${requested}": shell sessions support ${POSIX_SHELLS.join(', ')}`);
+    }
+
+    const candidates = requested.includes('/')
+      ? [path.resolve(requested)]
+      : (env?.PATH ?? process.env.PATH ?? '/usr/bin:/bin').split(path.delimiter).filter(Boolean).map(dir => path.join(dir, requested!));
+    for (const candidate of candidates) {
+      try {
+        await fs.access(candidate, fs.constants.X_OK);
+        return candidate;
+      } catch {
+        // Not executable or not there
+      }
+    }
+    throw new Error(`Shell not found or not executable: ${requested}`);
+  }
+
+  /**
+   * Run a command in a named shell session and wait for it to finish
+   *
+   * @param name - The shell session name
+   * @param command - Command to run in the session
+   * @param timeoutMs - How long to wait before returning partial output
+   * @returns Output, exit code and the shell's working directory after the command
+   */
+  async runInShell(name: string, command: string, timeoutMs: number = DEFAULT_RUN_TIMEOUT): Promise<ShellCommandResult> {
+    const shell = this.getShell(name);
+    if (shell.busy) {
+      throw new Error(`Shell session ${name} is still running a previous command`);
+    }
+
+    shell.busy = true;
+    shell.lastUsed = new Date();
+
+    const marker = `__DC_DONE_${crypto.randomBytes(8).toString('hex')}__`;
+    const stdoutSentinel = new RegExp(`\\n${marker}:(\\d+):([^\\n]*)\\n`);
+    const stderrSentinel = `\n${marker}\n`;
+
+    // Run the command as a group in the current shell so cd/export persist,
+    // with stdin detached so it cannot swallow the sentinel commands
+    const script = [
+      `{ ${command}`,
+      `} </dev/null`,
+      `__dc_status=$?`,
+      `printf '\\n%s:%s:%s\\n' '${marker}' "$__dc_status" "$PWD"`,
+      `printf '\\n%s\\n' '${marker}' >&2`,
+      ''
+    ].join('\n');
+
+    terminalManager.clearOutput(shell.pid);
+
+    return new Promise((resolve, reject) => {
+      let stdout = '';
+      let stderr = '';
+      let stdoutDone = false;
+      let stderrDone = false;
+      let exitCode: number | null = null;
+      let settled = false;
+
+      const buildResult = (timedOut: boolean, shellExited: boolean): ShellCommandResult => ({
+        stdout,
+        stderr,
+        exitCode,
+        cwd: shell.cwd,
+        timedOut,
+        shellExited
+      });
+
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        unsubscribeOutput?.();
+        unsubscribeExit?.();
+        shell.busy = false;
+      };
+
+      const unsubscribeOutput = terminalManager.onOutput(shell.pid, (text, stream) => {
+        if (stream === 'stdout' && !stdoutDone) {
+          stdout += text;
+          const match = stdout.match(stdoutSentinel);
+          if (match && match.index !== undefined) {
+            stdoutDone = true;
+            exitCode = parseInt(match[1], 10);
+            shell.cwd = match[2];
+            stdout = stdout.slice(0, match.index);
+          }
+        } else if (stream === 'stderr' && !stderrDone) {
+          stderr += text;
+          const index = stderr.indexOf(stderrSentinel);
+          if (index !== -1) {
+            stderrDone = true;
+            stderr = stderr.slice(0, index);
+          }
+        }
+
+        if (stdoutDone && stderrDone) {
+          cleanup();
+          terminalManager.clearOutput(shell.pid);
+          if (!settled) {
+            settled = true;
+            resolve(buildResult(false, false));
+          }
+        }
+      });
+
+      const unsubscribeExit = terminalManager.onExit(shell.pid, (code) => {
+        cleanup();
+        this.shells.delete(name);
+        if (!settled) {
+          settled = true;
+          exitCode = code;
+          resolve(buildResult(false, true));
+        }
+      });
+
+      // The command keeps running after a timeout; the session stays busy until it finishes
+      const timeoutId = setTimeout(() => {
+        if (!settled) {
+          settled = true;
+          resolve(buildResult(true, false));
+        }
+      }, timeoutMs);
+
+      terminalManager.writeInput(shell.pid, script).catch((error) => {
+        cleanup();
+        settled = true;
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Close a named shell session, terminating anything still running in it
+   *
+   * @param name - The shell session name
+   */
+  async closeShell(name: string): Promise<void> {
+    const shell = this.getShell(name);
+    this.shells.delete(name);
+
+    try {
+      await terminalManager.writeInput(shell.pid, 'exit\n');
+    } catch {
+      // stdin already closed, fall through to termination
+    }
+
+    // Give the shell a moment to exit cleanly before forcing it
+    setTimeout(() => {
+      terminalManager.forceTerminate(shell.pid, { tree: true }).catch((error) => {
+        console.error(`Failed to terminate shell session ${name}:`, error);
+      });
+    }, 1000);
+  }
+
+  /**
+   * List all open shell sessions
+   */
+  listShells(): ShellSessionInfo[] {
+    return Array.from(this.shells.values()).map(shell => ({ ...shell }));
+  }
+
+  /**
+   * Gets a shell session by name
+   *
+   * @param name - The shell session name
+   * @returns The shell session
+   * @private
+   */
+  private getShell(name: string): ShellSessionInfo {
+    const shell = this.shells.get(name);
+    if (!shell) {
+      throw new Error(`Shell session not found: ${name}`);
+    }
+    return shell;
+  }
+}
+
+// Export a singleton instance
+export const shellManager = new ShellManager();
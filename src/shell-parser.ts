@@ -0,0 +1,777 @@
+/**
+ * POSIX shell parsing for command validation.
+ * Splits a command line into simple commands the way a shell would, follows
+ * command and process substitutions, subshells, heredocs and scripts given to
+ * shells with -c, and unwraps commands that run other commands (env, sudo, xargs...).
+ * It only has to find every command that may run, not to evaluate the script.
+ */
+
+export interface HereDocument {
+  body: string;
+  // Unquoted delimiters expand substitutions in the body
+  expand: boolean;
+}
+
+export interface SimpleCommand {
+  // Words after quote removal, without leading assignments
+  argv: string[];
+  assignments: string[];
+  // Heredocs and here-strings the command reads
+  stdin: string[];
+  // Files its output is redirected to
+  writes: string[];
+}
+
+export interface ParsedShell {
+  commands: SimpleCommand[];
+  // Sources of command and process substitutions, parsed separately
+  substitutions: string[];
+  // Set if the input ends inside quotes, a substitution, a heredoc or a line continuation
+  incomplete: boolean;
+}
+
+export interface ResolvedCommand {
+  // Command name without its directory, lowercased
+  name: string;
+  args: string[];
+  // Command name and arguments on one line, for matching rules against
+  text: string;
+}
+
+export interface ShellResolution {
+  commands: ResolvedCommand[];
+  // Files written by output redirections, e.g. > out.txt, in the order they appear
+  writes: string[];
+  // Variable assignments before commands or on their own, e.g. PAGER=cat
+  assignments: string[];
+  // Why not every command could be found, e.g. substitutions nesting deeper than MAX_DEPTH
+  // or a command name that is only known when it runs; null if all of them were
+  unparseable: string | null;
+  // Set if the input ends inside quotes, a substitution, a heredoc or a line continuation,
+  // a shell reading it line by line would wait for more before running it
+  incomplete: boolean;
+}
+
+type Token =
+  | { type: 'word'; value: string; raw: string }
+  | { type: 'op'; value: string; heredoc?: HereDocument };
+
+// Longest first so that e.g. && is not read as two &
+const OPERATORS = [
+  ';;&', '&>>', '<<<', '<<-',
+  '&&', '||', ';;', ';&', '|&', '&>', '>>', '>|', '>&', '<<', '<&', '<>',
+  ';', '&', '|', '(', ')', '<', '>', '\n'
+];
+const SEPARATORS = new Set([';', '&', '&&', '||', '|', '|&', ';;', ';&', ';;&', '\n', '(', ')']);
+const REDIRECTS = new Set(['<', '>', '>>', '>|', '<>', '>&', '<&', '&>', '&>>']);
+const OUTPUT_REDIRECTS = new Set(['>', '>>', '>|', '<>', '>&', '&>', '&>>']);
+const METACHARACTERS = new Set([' ', '\t', '\n', ';', '&', '|', '<', '>', '(', ')']);
+
+// Reserved words that may start a command and are followed by another command
+const PREFIX_KEYWORDS = new Set(['if', 'then', 'else', 'elif', 'do', 'while', 'until', '!', '{']);
+// Reserved words that end a compound command
+const CLOSING_KEYWORDS = new Set(['fi', 'done', 'esac', '}']);
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'mksh', 'ash', 'yash', 'fish']);
+
+interface WrapperSpec {
+  // Options that take the next argument as their value
+  valueOptions: string[];
+  // Arguments between the options and the wrapped command, e.g. the duration of timeout
+  positional?: number;
+  // Options in place of the wrapped command that give it as a script instead, e.g. flock file -c 'cmd'
+  scriptOptions?: string[];
+  // Command run when none is given
+  defaultCommand?: string[];
+}
+
+// Commands that run the command given in their arguments
+const WRAPPERS: Record<string, WrapperSpec> = {
+  nohup: { valueOptions: [] },
+  setsid: { valueOptions: [] },
+  command: { valueOptions: [] },
+  builtin: { valueOptions: [] },
+  exec: { valueOptions: ['-a'] },
+  time: { valueOptions: ['-f', '--format', '-o', '--output'] },
+  nice: { valueOptions: ['-n', '--adjustment'] },
+  ionice: { valueOptions: ['-c', '--class', '-n', '--classdata', '-p', '--pid', '-P', '--pgid', '-u', '--uid'] },
+  timeout: { valueOptions: ['-s', '--signal', '-k', '--kill-after'], positional: 1 },
+  stdbuf: { valueOptions: ['-i', '--input', '-o', '--output', '-e', '--error'] },
+  chroot: { valueOptions: ['--userspec', '--groups'], positional: 1 },
+  flock: { valueOptions: ['-w', '--wait', '--timeout', '-E', '--conflict-exit-code'], positional: 1, scriptOptions: ['-c', '--command'] },
+  taskset: { valueOptions: [], positional: 1 },
+  chrt: { valueOptions: ['-T', '--sched-runtime', '-P', '--sched-period', '-D', '--sched-deadline'], positional: 1 },
+  strace: {
+    valueOptions: ['-e', '-o', '--output', '-p', '--attach', '-s', '--string-limit', '-u', '--user', '-a', '--columns',
+      '-b', '--detach-on', '-I', '--interruptible', '-O', '--summary-syscall-overhead', '-S', '--summary-sort-by',
+      '-E', '--env', '-P', '--trace-path', '-X', '--const-print-style', '-U', '--summary-columns']
+  },
+  nsenter: { valueOptions: ['-t', '--target', '-S', '--setuid', '-G', '--setgid'] },
+  unshare: {
+    valueOptions: ['--propagation', '--setgroups', '-S', '--setuid', '-G', '--setgid', '--map-user', '--map-group',
+      '--map-users', '--map-groups', '-R', '--root', '-w', '--wd']
+  },
+  'systemd-run': {
+    valueOptions: ['-u', '--unit', '-p', '--property', '-H', '--host', '-M', '--machine', '--description', '--slice',
+      '-E', '--setenv', '--uid', '--gid', '--nice', '--working-directory', '--service-type', '--path-property',
+      '--socket-property', '--timer-property', '--on-active', '--on-boot', '--on-startup', '--on-unit-active',
+      '--on-unit-inactive', '--on-calendar']
+  },
+  busybox: { valueOptions: [] },
+  sudo: {
+    valueOptions: ['-u', '--user', '-g', '--group', '-h', '--host', '-p', '--prompt', '-C', '--close-from',
+      '-D', '--chdir', '-r', '--role', '-t', '--type', '-U', '--other-user', '-T', '--command-timeout']
+  },
+  doas: { valueOptions: ['-u', '-C'] },
+  xargs: {
+    valueOptions: ['-a', '--arg-file', '-d', '--delimiter', '-E', '-I', '-L', '--max-lines', '-n', '--max-args',
+      '-P', '--max-procs', '-s', '--max-chars', '--process-slot-var'],
+    defaultCommand: ['echo']
+  }
+};
+
+// Commands that run a script given with one of these options through a shell
+const SCRIPT_OPTIONS: Record<string, string[]> = {
+  script: ['-c', '--command'],
+  su: ['-c', '--command', '--session-command']
+};
+
+// Limit on nested substitutions and wrappers, deeper nesting marks the input as unparseable
+const MAX_DEPTH = 16;
+
+/**
+ * Index of the parenthesis closing one opened just before start, or the end of the input
+ */
+function findClosing(input: string, start: number, open: string = '(', close: string = ')'): number {
+  let depth = 1;
+  for (let i = start; i < input.length; i++) {
+    const char = input[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      i = end === -1 ? input.length : end;
+    } else if (char === '"' || char === '`') {
+      for (i++; i < input.length && input[i] !== char; i++) {
+        if (input[i] === '\\') i++;
+      }
+    } else if (char === open) {
+      depth++;
+    } else if (char === close) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return input.length;
+}
+
+/**
+ * Collect the substitutions of text that is expanded but not split into commands,
+ * such as arithmetic, ${...} and the body of a heredoc
+ */
+function scanExpansions(text: string, substitutions: string[]): void {
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '$' && text.startsWith('((', i + 1)) {
+      const end = findClosing(text, i + 3);
+      scanExpansions(text.slice(i + 3, end), substitutions);
+      i = end + 1;
+    } else if (char === '$' && text[i + 1] === '(') {
+      const end = findClosing(text, i + 2);
+      substitutions.push(text.slice(i + 2, end));
+      i = end;
+    } else if (char === '$' && text[i + 1] === '{') {
+      const end = findClosing(text, i + 2, '{', '}');
+      scanExpansions(text.slice(i + 2, end), substitutions);
+      i = end;
+    } else if (char === '`') {
+      const end = findBacktick(text, i + 1);
+      substitutions.push(unescapeBackticks(text.slice(i + 1, end)));
+      i = end;
+    }
+  }
+}
+
+function findBacktick(input: string, start: number): number {
+  for (let i = start; i < input.length; i++) {
+    if (input[i] === '\\') i++;
+    else if (input[i] === '`') return i;
+  }
+  return input.length;
+}
+
+// Inside backticks a backslash only escapes $, ` and another backslash
+function unescapeBackticks(text: string): string {
+  return text.replace(/\\([$`\\])/g, '$1');
+}
+
+function decodeAnsiC(text: string): string {
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', a: '\x07', b: '\b', e: '\x1b', E: '\x1b', f: '\f', v: '\v' };
+  return text.replace(/\\(x[0-9a-fA-F]{1,2}|[0-7]{1,3}|.)/g, (_match, escape: string) => {
+    if (escape[0] === 'x' && escape.length > 1) return String.fromCharCode(parseInt(escape.slice(1), 16));
+    if (/^[0-7]+$/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+    return escapes[escape] ?? escape;
+  });
+}
+
+/**
+ * Split shell input into words and operators. Quotes are removed from word values,
+ * substitutions are kept as written in the value and their sources collected.
+ */
+function tokenize(input: string, substitutions: string[]): { tokens: Token[]; incomplete: boolean } {
+  const tokens: Token[] = [];
+  let incomplete = false;
+  // Heredocs whose body starts after the next newline
+  const pendingHeredocs: { token: Token & { type: 'op' }; delimiter: string; strip: boolean }[] = [];
+  let pos = 0;
+
+  const readHeredocBodies = () => {
+    for (const pending of pendingHeredocs) {
+      const lines: string[] = [];
+      let terminated = false;
+      while (pos < input.length) {
+        let end = input.indexOf('\n', pos);
+        if (end === -1) end = input.length;
+        let line = input.slice(pos, end);
+        pos = end + 1;
+        if (pending.strip) line = line.replace(/^\t+/, '');
+        if (line === pending.delimiter) {
+          terminated = true;
+          break;
+        }
+        lines.push(line);
+      }
+      if (!terminated) incomplete = true;
+      const body = lines.join('\n');
+      pending.token.heredoc = { body, expand: pending.token.heredoc!.expand };
+      if (pending.token.heredoc.expand) {
+        scanExpansions(body, substitutions);
+      }
+    }
+    pendingHeredocs.length = 0;
+  };
+
+  const readWord = (): { value: string; raw: string } => {
+    const start = pos;
+    let value = '';
+    while (pos < input.length && !METACHARACTERS.has(input[pos])) {
+      const char = input[pos];
+      if (char === '\\') {
+        if (input[pos + 1] !== '\n') value += input[pos + 1] ?? '';
+        if (pos + 1 >= input.length || (input[pos + 1] === '\n' && pos + 2 >= input.length)) incomplete = true;
+        pos += 2;
+      } else if (char === "'") {
+        const end = input.indexOf("'", pos + 1);
+        if (end === -1) incomplete = true;
+        const close = end === -1 ? input.length : end;
+        value += input.slice(pos + 1, close);
+        pos = close + 1;
+      } else if (char === '$' && input[pos + 1] === "'") {
+        let end = pos + 2;
+        while (end < input.length && input[end] !== "'") {
+          if (input[end] === '\\') end++;
+          end++;
+        }
+        value += decodeAnsiC(input.slice(pos + 2, end));
+        if (end >= input.length) incomplete = true;
+        pos = end + 1;
+      } else if (char === '"') {
+        pos++;
+        while (pos < input.length && input[pos] !== '"') {
+          const inner = input[pos];
+          if (inner === '\\' && '$`"\\\n'.includes(input[pos + 1])) {
+            if (input[pos + 1] !== '\n') value += input[pos + 1];
+            pos += 2;
+          } else if (inner === '$' || inner === '`') {
+            value += readExpansion();
+          } else {
+            value += inner;
+            pos++;
+          }
+        }
+        if (pos >= input.length) incomplete = true;
+        pos++;
+      } else if (char === '$' || char === '`') {
+        value += readExpansion();
+      } else {
+        value += char;
+        pos++;
+      }
+    }
+    return { value, raw: input.slice(start, pos) };
+  };
+
+  // Read a $ expansion or backtick substitution at pos and return it as written
+  const readExpansion = (): string => {
+    const start = pos;
+    if (input[pos] === '`') {
+      const end = findBacktick(input, pos + 1);
+      substitutions.push(unescapeBackticks(input.slice(pos + 1, end)));
+      pos = end + 1;
+    } else if (input.startsWith('$((', pos)) {
+      const end = findClosing(input, pos + 3);
+      scanExpansions(input.slice(pos + 3, end), substitutions);
+      pos = input[end + 1] === ')' ? end + 2 : end + 1;
+    } else if (input.startsWith('$(', pos)) {
+      const end = findClosing(input, pos + 2);
+      substitutions.push(input.slice(pos + 2, end));
+      pos = end + 1;
+    } else if (input.startsWith('${', pos)) {
+      const end = findClosing(input, pos + 2, '{', '}');
+      scanExpansions(input.slice(pos + 2, end), substitutions);
+      pos = end + 1;
+    } else {
+      pos++;
+    }
+    if (pos > input.length) incomplete = true;
+    return input.slice(start, Math.min(pos, input.length));
+  };
+
+  while (pos < input.length) {
+    const char = input[pos];
+
+    if (char === ' ' || char === '\t') {
+      pos++;
+      continue;
+    }
+    if (char === '\\' && input[pos + 1] === '\n') {
+      pos += 2;
+      if (pos >= input.length) incomplete = true;
+      continue;
+    }
+    if (char === '#') {
+      while (pos < input.length && input[pos] !== '\n') pos++;
+      continue;
+    }
+
+    // Process substitution is a word of its own
+    if ((char === '<' || char === '>') && input[pos + 1] === '(') {
+      const end = findClosing(input, pos + 2);
+      substitutions.push(input.slice(pos + 2, end));
+      tokens.push({ type: 'word', value: input.slice(pos, end + 1), raw: input.slice(pos, end + 1) });
+      pos = end + 1;
+      continue;
+    }
+
+    // (( ... )) in command position is arithmetic, as is the header of for (( ... ))
+    const previous = tokens[tokens.length - 1];
+    if (input.startsWith('((', pos) && (!previous || previous.type === 'op' || previous.value === 'for')) {
+      const end = findClosing(input, pos + 2);
+      scanExpansions(input.slice(pos + 2, end), substitutions);
+      pos = input[end + 1] === ')' ? end + 2 : end + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => input.startsWith(op, pos));
+    if (operator) {
+      pos += operator.length;
+      const token: Token = { type: 'op', value: operator };
+      tokens.push(token);
+      if (operator === '<<' || operator === '<<-') {
+        while (input[pos] === ' ' || input[pos] === '\t') pos++;
+        const delimiter = readWord();
+        tokens.push({ type: 'word', ...delimiter });
+        // Quoting any part of the delimiter turns off expansion in the body
+        token.heredoc = { body: '', expand: !/['"\\]/.test(delimiter.raw) };
+        pendingHeredocs.push({ token, delimiter: delimiter.value, strip: operator === '<<-' });
+      } else if (operator === '\n') {
+        readHeredocBodies();
+      }
+      continue;
+    }
+
+    const word = readWord();
+    // A file descriptor number belongs to the redirection after it, e.g. 2>&1
+    if (/^\d+$/.test(word.raw) && (input[pos] === '<' || input[pos] === '>')) {
+      continue;
+    }
+    tokens.push({ type: 'word', ...word });
+  }
+
+  readHeredocBodies();
+  return { tokens, incomplete };
+}
+
+/**
+ * Parse shell input into its simple commands. Compound commands (if, while, for,
+ * case, subshells, brace groups, functions) are flattened into the commands they contain.
+ */
+export function parseShell(input: string): ParsedShell {
+  const substitutions: string[] = [];
+  const { tokens, incomplete } = tokenize(input, substitutions);
+  const commands: SimpleCommand[] = [];
+
+  let current: SimpleCommand = { argv: [], assignments: [], stdin: [], writes: [] };
+  // Words up to the next separator that are not commands, e.g. the list of a for loop
+  let skipWords = false;
+  // Inside case ... esac, before the ) that ends a pattern
+  let casePattern = false;
+  let caseDepth = 0;
+  // After "case", skip the word up to "in"
+  let caseHeader = false;
+
+  const finish = () => {
+    if (current.argv.length > 0 || current.assignments.length > 0 || current.stdin.length > 0 || current.writes.length > 0) {
+      commands.push(current);
+    }
+    current = { argv: [], assignments: [], stdin: [], writes: [] };
+    skipWords = false;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === 'op') {
+      if (casePattern) {
+        if (token.value === ')') casePattern = false;
+        continue;
+      }
+      if (REDIRECTS.has(token.value)) {
+        // The target is not a command, its substitutions were already collected
+        const target = tokens[i + 1];
+        if (target?.type === 'word') {
+          // >&2 and >&- duplicate or close a file descriptor
+          if (OUTPUT_REDIRECTS.has(token.value) && !(token.value === '>&' && /^(\d+|-)$/.test(target.value))) {
+            current.writes.push(target.value);
+          }
+          i++;
+        }
+        continue;
+      }
+      if (token.value === '<<' || token.value === '<<-') {
+        if (tokens[i + 1]?.type === 'word') i++;
+        current.stdin.push(token.heredoc?.body ?? '');
+        continue;
+      }
+      if (token.value === '<<<') {
+        const next = tokens[i + 1];
+        if (next?.type === 'word') {
+          current.stdin.push(next.value);
+          i++;
+        }
+        continue;
+      }
+      if (token.value === '(' && current.argv.length === 1 && tokens[i + 1]?.type === 'op' && tokens[i + 1].value === ')') {
+        // Function definition: name() { ...; }
+        current.argv = [];
+        i++;
+        continue;
+      }
+      finish();
+      if ((token.value === ';;' || token.value === ';&' || token.value === ';;&') && caseDepth > 0) {
+        casePattern = true;
+      }
+      continue;
+    }
+
+    if (caseHeader) {
+      if (token.value === 'in') {
+        caseHeader = false;
+        casePattern = true;
+      }
+      continue;
+    }
+    if (casePattern) {
+      if (token.value === 'esac') {
+        casePattern = false;
+        caseDepth--;
+      }
+      continue;
+    }
+    if (skipWords) {
+      continue;
+    }
+
+    if (current.argv.length === 0) {
+      if (/^[A-Za-z_][A-Za-z0-9_]*\+?=/.test(token.raw)) {
+        current.assignments.push(token.value);
+        continue;
+      }
+      if (token.raw === token.value) {
+        if (PREFIX_KEYWORDS.has(token.value)) continue;
+        if (CLOSING_KEYWORDS.has(token.value)) {
+          if (token.value === 'esac') caseDepth = Math.max(0, caseDepth - 1);
+          continue;
+        }
+        if (token.value === 'for' || token.value === 'select') {
+          skipWords = true;
+          continue;
+        }
+        if (token.value === 'case') {
+          caseDepth++;
+          caseHeader = true;
+          continue;
+        }
+        if (token.value === 'function') {
+          // Skip the name, the body follows as commands
+          if (tokens[i + 1]?.type === 'word') i++;
+          if (tokens[i + 1]?.value === '(' && tokens[i + 2]?.value === ')') i += 2;
+          continue;
+        }
+      }
+    }
+    current.argv.push(token.value);
+  }
+  finish();
+
+  return { commands, substitutions, incomplete };
+}
+
+/**
+ * Skip the options of a wrapper and return the command it runs, if any
+ */
+function wrappedCommand(name: string, args: string[]): string[] | null {
+  if (name === 'env') {
+    let i = 0;
+    for (; i < args.length; i++) {
+      const arg = args[i];
+      if (arg === '--') {
+        i++;
+        break;
+      }
+      if (arg === '-S' || arg === '--split-string') {
+        // The string is split into the command and its first arguments
+        return [...splitWords(args[i + 1] ?? ''), ...args.slice(i + 2)];
+      }
+      if (arg.startsWith('-S') || arg.startsWith('--split-string=')) {
+        return [...splitWords(arg.replace(/^(-S|--split-string=)/, '')), ...args.slice(i + 1)];
+      }
+      if (arg === '-u' || arg === '--unset' || arg === '-C' || arg === '--chdir') {
+        i++;
+        continue;
+      }
+      if (arg.startsWith('-') && arg.length > 1) continue;
+      if (!/^[^=]+=/.test(arg)) break;
+    }
+    return args.length > i ? args.slice(i) : null;
+  }
+
+  if (name === 'coproc') {
+    // coproc NAME { ...; } names the coprocess, a simple command cannot be named
+    const start = args[0] === '{' ? 1 : args[1] === '{' ? 2 : 0;
+    return args.length > start ? args.slice(start) : null;
+  }
+
+  const spec = WRAPPERS[name];
+  if (!spec) {
+    return null;
+  }
+  let i = 0;
+  for (; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      i++;
+      break;
+    }
+    if (!arg.startsWith('-') || arg.length === 1) break;
+    if (spec.valueOptions.includes(arg)) i++;
+  }
+  i += spec.positional ?? 0;
+  return args.length > i ? args.slice(i) : spec.defaultCommand ?? null;
+}
+
+/**
+ * The script a shell runs with -c, or whether it reads its script from stdin
+ */
+function shellInvocation(args: string[]): { script: string | null; readsStdin: boolean } {
+  let command = false;
+  let readsStdin = false;
+  let i = 0;
+  for (; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--' || arg === '-') {
+      i++;
+      break;
+    }
+    if (arg.startsWith('--')) {
+      if (arg === '--rcfile' || arg === '--init-file') i++;
+      if (arg === '--command') command = true;
+      continue;
+    }
+    if (!/^[-+]/.test(arg) || arg.length === 1) break;
+    const flags = arg.slice(1);
+    if (flags.includes('c')) command = true;
+    if (flags.includes('s')) readsStdin = true;
+    // -o and -O take an option name
+    if (/[oO]/.test(flags)) i++;
+  }
+  if (command) {
+    return { script: args[i] ?? '', readsStdin: false };
+  }
+  return { script: null, readsStdin: readsStdin || i >= args.length };
+}
+
+/**
+ * The script given with one of the options, which may end a group of short options, e.g. su -lc 'cmd'
+ */
+function optionScript(args: string[], options: string[]): string | null {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') break;
+    const long = options.find(option => option.startsWith('--') && arg.startsWith(`${option}=`));
+    if (long) {
+      return arg.slice(long.length + 1);
+    }
+    if (options.includes(arg) || (options.includes('-c') && /^-[A-Za-z]+c$/.test(arg))) {
+      return args[i + 1] ?? '';
+    }
+  }
+  return null;
+}
+
+function splitWords(text: string): string[] {
+  return parseShell(text).commands[0]?.argv ?? [];
+}
+
+function commandName(word: string): string {
+  return word.split('/').pop()!.toLowerCase();
+}
+
+/**
+ * Whether the name of a command is only known when it runs: it comes from an expansion or
+ * substitution, or is a glob, a brace expansion or the {} that find and xargs replace.
+ * Only the name counts, e.g. "$VENV/bin/python" runs python.
+ */
+function isDynamicName(word: string): boolean {
+  // Slashes inside ${...}, $(...) and backticks do not end the directory part
+  let depth = 0;
+  let backtick = false;
+  let start = 0;
+  for (let i = 0; i < word.length; i++) {
+    const char = word[i];
+    if (char === '`') {
+      backtick = !backtick;
+    } else if (char === '$' && (word[i + 1] === '{' || word[i + 1] === '(')) {
+      depth++;
+      i++;
+    } else if (depth > 0 && (char === '{' || char === '(')) {
+      depth++;
+    } else if (depth > 0 && (char === '}' || char === ')')) {
+      depth--;
+    } else if (char === '/' && depth === 0 && !backtick) {
+      start = i + 1;
+    }
+  }
+  const name = word.slice(start);
+  return /[$`*?]/.test(name) || /\[.*\]/.test(name) || /\{.*(,|\.\.).*\}/.test(name) || name.includes('{}');
+}
+
+function quoteWord(word: string): string {
+  return word === '' || /\s/.test(word) ? `'${word.replace(/'/g, `'\\''`)}'` : word;
+}
+
+function collect(input: string, depth: number, resolution: ShellResolution): void {
+  if (depth > MAX_DEPTH) {
+    resolution.unparseable ??= 'substitutions or wrappers are nested too deeply to check';
+    return;
+  }
+  const parsed = parseShell(input);
+  if (depth === 0) {
+    resolution.incomplete = parsed.incomplete;
+  }
+  for (const command of parsed.commands) {
+    resolution.writes.push(...command.writes);
+    resolution.assignments.push(...command.assignments);
+    unwrap(command.argv, command.stdin, depth, resolution);
+  }
+  for (const substitution of parsed.substitutions) {
+    collect(substitution, depth + 1, resolution);
+  }
+}
+
+function unwrap(argv: string[], stdin: string[], depth: number, resolution: ShellResolution): void {
+  if (argv.length === 0) return;
+  if (depth > MAX_DEPTH) {
+    resolution.unparseable ??= 'substitutions or wrappers are nested too deeply to check';
+    return;
+  }
+  const name = commandName(argv[0]);
+  const args = argv.slice(1);
+  resolution.commands.push({ name, args, text: [name, ...args].map(quoteWord).join(' ') });
+  if (isDynamicName(argv[0])) {
+    resolution.unparseable ??= `the command ${argv[0]} is only known when it runs`;
+    return;
+  }
+
+  if (SHELLS.has(name)) {
+    const invocation = shellInvocation(args);
+    if (invocation.script !== null) {
+      collect(invocation.script, depth + 1, resolution);
+    } else if (invocation.readsStdin && stdin.length > 0) {
+      // bash <<EOF runs the heredoc as its script
+      stdin.forEach(script => collect(script, depth + 1, resolution));
+    } else if (invocation.readsStdin) {
+      // The script comes through a pipe, a file or the terminal
+      resolution.unparseable ??= `${name} reads its commands from standard input`;
+    }
+    return;
+  }
+  if (SCRIPT_OPTIONS[name]) {
+    const script = optionScript(args, SCRIPT_OPTIONS[name]);
+    if (script !== null) {
+      collect(script, depth + 1, resolution);
+    }
+    return;
+  }
+  if (name === 'eval' || name === 'watch') {
+    // Both join their arguments into a script, watch after its own options
+    const start = name === 'watch' ? watchCommandStart(args) : 0;
+    collect(args.slice(start).join(' '), depth + 1, resolution);
+    return;
+  }
+  if (name === 'find') {
+    for (let i = 0; i < args.length; i++) {
+      if (['-exec', '-execdir', '-ok', '-okdir'].includes(args[i])) {
+        let end = i + 1;
+        while (end < args.length && args[end] !== ';' && args[end] !== '+') end++;
+        unwrap(args.slice(i + 1, end), [], depth + 1, resolution);
+        i = end;
+      }
+    }
+    return;
+  }
+
+  const wrapped = wrappedCommand(name, args);
+  if (wrapped && WRAPPERS[name]?.scriptOptions?.includes(wrapped[0])) {
+    collect(wrapped[1] ?? '', depth + 1, resolution);
+  } else if (wrapped) {
+    unwrap(wrapped, stdin, depth + 1, resolution);
+  }
+}
+
+function watchCommandStart(args: string[]): number {
+  let i = 0;
+  for (; i < args.length && args[i].startsWith('-'); i++) {
+    if (args[i] === '--') return i + 1;
+    if (['-n', '--interval', '-q', '--equexit'].includes(args[i])) i++;
+  }
+  return i;
+}
+
+/**
+ * Find every command a command line may run, including commands in substitutions,
+ * scripts passed to shells and commands run through wrappers such as env, sudo or xargs.
+ * Wrappers are reported along with the command they run.
+ *
+ * @param input - Command line as given to the shell
+ * @returns The commands in the order they appear, names without directories
+ */
+export function resolveCommands(input: string): ResolvedCommand[] {
+  return resolveShell(input).commands;
+}
+
+/**
+ * Find every command a command line may run, as resolveCommands does, and the files
+ * its output redirections write to
+ *
+ * @param input - Command line as given to the shell
+ * @returns The commands and written files in the order they appear, and why not all of them
+ * could be found if they could not
+ */
+export function resolveShell(input: string): ShellResolution {
+  const resolution: ShellResolution = { commands: [], writes: [], assignments: [], unparseable: null, incomplete: false };
+  collect(input, 0, resolution);
+  return resolution;
+}
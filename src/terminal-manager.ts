@@ -1,149 +1,834 @@
-import { spawn } from 'child_process';
-import { TerminalSession, CommandExecutionResult, ActiveSession } from './types.js';
-import { DEFAULT_COMMAND_TIMEOUT } from './config.js';
-import { configManager } from './config-manager.js';
+import { spawn, StdioOptions } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StringDecoder } from 'string_decoder';
+import { Writable } from 'stream';
+import { TerminalSession, CommandExecutionResult, CommandExecutionOptions, ActiveSession, CompletedSession, OutputReadOptions, OutputReadResult, OutputListener, ExitListener, OutputStream, SendInputOptions, SendInputResult, TerminateOptions, KillReason, ResourceLimits } from './types.js';
+import { DEFAULT_COMMAND_TIMEOUT, DEFAULT_OUTPUT_BUFFER_BYTES, MAX_READ_OUTPUT_BYTES, OUTPUT_SPILL_DIR } from './config.js';
+import { configManager, ServerConfig } from './config-manager.js';
+import { TerminalScreen, stripAnsi } from './terminal-screen.js';
+import { OutputBuffer } from './output-buffer.js';
+import { signalProcesses, isProcessAlive, readProcessStartTicks, SignalResult } from './process-tree.js';
+import { sessionStore, SessionFiles, SessionRecord } from './session-store.js';
 import {capture} from "./utils.js";
 
-interface CompletedSession {
-  pid: number;
-  output: string;
-  exitCode: number | null;
-  startTime: Date;
-  endTime: Date;
+const DEFAULT_PTY_COLS = 120;
+const DEFAULT_PTY_ROWS = 40;
+
+// How long to wait for stdio to drain after the process exits
+const EXIT_FLUSH_GRACE_MS = 200;
+
+// How often the log files of persisted sessions are checked for new output
+const LOG_POLL_INTERVAL_MS = 100;
+const LOG_READ_CHUNK_BYTES = 64 * 1024;
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Build a shell prefix that writes the exit status of the command to a file,
+ * so it can be read even if the server is not the parent anymore.
+ */
+function buildStatusTrap(statusPath: string): string {
+  return `trap ${shellQuote(`printf '%s' "$?" > ${shellQuote(statusPath)}`)} EXIT; `;
+}
+
+/**
+ * Return a function that reads whatever was appended to the stdout and stderr logs
+ * of a persisted session since the previous call, starting at the given positions.
+ */
+function followLogs(files: SessionFiles, positions: Record<OutputStream, number>, onData: (text: string, stream: OutputStream) => void): () => void {
+  const decoders = { stdout: new StringDecoder('utf8'), stderr: new StringDecoder('utf8') };
+  return () => {
+    for (const stream of ['stdout', 'stderr'] as const) {
+      let chunk: Buffer;
+      do {
+        chunk = sessionStore.readLog(files[stream], positions[stream], LOG_READ_CHUNK_BYTES);
+        positions[stream] += chunk.length;
+        const text = decoders[stream].write(chunk);
+        if (text) onData(text, stream);
+      } while (chunk.length === LOG_READ_CHUNK_BYTES);
+    }
+  };
+}
+
+
+/**
+ * Build a shell prefix that applies resource limits with ulimit.
+ * The command is not run if a limit cannot be set.
+ */
+function buildLimitPrefix(limits: ResourceLimits): string {
+  const settings: string[] = [];
+  if (limits.memoryBytes !== undefined) {
+    // RLIMIT_AS, ulimit takes kilobytes
+    settings.push(`ulimit -v ${Math.ceil(limits.memoryBytes / 1024)}`);
+  }
+  if (limits.cpuSeconds !== undefined) {
+    // The kernel kills with SIGKILL once the hard limit is reached and sends SIGXCPU at the
+    // soft one. A hard limit one second later makes a process over its limit die of SIGXCPU,
+    // which tells the CPU limit apart from any other SIGKILL.
+    settings.push(`ulimit -S -t ${limits.cpuSeconds}`, `ulimit -H -t ${limits.cpuSeconds + 1}`);
+  }
+  if (limits.openFiles !== undefined) {
+    settings.push(`ulimit -n ${limits.openFiles}`);
+  }
+  return settings.length > 0 ? `${settings.join(' && ')} || exit 126; ` : '';
+}
+
+/**
+ * Build the spawn arguments that run a command inside a pseudo-terminal.
+ * Uses the system `script` utility so no native module is required.
+ */
+function buildPtyCommand(command: string, cols: number, rows: number, shell: string | boolean, baseEnv: NodeJS.ProcessEnv): { file: string; args: string[]; env: NodeJS.ProcessEnv } {
+  const shellPath = typeof shell === 'string' ? shell : (baseEnv.SHELL || '/bin/sh');
+  const innerCommand = `stty cols ${cols} rows ${rows} 2>/dev/null; ${command}`;
+  const env = {
+    ...baseEnv,
+    SHELL: shellPath,
+    TERM: baseEnv.TERM && baseEnv.TERM !== 'dumb' ? baseEnv.TERM : 'xterm-256color',
+    COLUMNS: String(cols),
+    LINES: String(rows)
+  };
+
+  if (os.platform() === 'darwin') {
+    // BSD script: script [-q] file command...
+    return { file: 'script', args: ['-q', '/dev/null', shellPath, '-c', innerCommand], env };
+  }
+
+  // util-linux script: -q quiet, -f flush output, -e return the child's exit code
+  return { file: 'script', args: ['-qfec', innerCommand, '/dev/null'], env };
+}
+
+/**
+ * Find an executable the way spawn looks it up: in the PATH of the environment it is
+ * given, or in /usr/bin and /bin if that environment has no PATH
+ */
+function findExecutable(name: string, env: NodeJS.ProcessEnv): string | null {
+  const searchPath = env.PATH ?? '/usr/bin:/bin';
+  for (const directory of searchPath.split(path.delimiter).filter(Boolean)) {
+    const candidate = path.join(directory, name);
+    try {
+      fs.accessSync(candidate, fs.constants.X_OK);
+      return candidate;
+    } catch {
+      // Not in this directory
+    }
+  }
+  return null;
 }
 
 export class TerminalManager {
   private sessions: Map<number, TerminalSession> = new Map();
   private completedSessions: Map<number, CompletedSession> = new Map();
   
-  async executeCommand(command: string, timeoutMs: number = DEFAULT_COMMAND_TIMEOUT, shell?: string): Promise<CommandExecutionResult> {
+  async executeCommand(command: string, timeoutMs: number = DEFAULT_COMMAND_TIMEOUT, shell?: string, options: CommandExecutionOptions = {}): Promise<CommandExecutionResult> {
     // Get the shell from config if not specified
-    let shellToUse: string | boolean | undefined = shell;
-    if (!shellToUse) {
+    let config: ServerConfig = {};
+    try {
+      config = await configManager.getConfig();
+    } catch (error) {
+      // If there's an error getting the config, fall back to defaults
+    }
+    const shellToUse: string | boolean = shell || config.shell || true;
+
+    const usePty = options.pty === true;
+    if (usePty && os.platform() === 'win32') {
+      return {
+        pid: -1,
+        output: 'Error: PTY mode is not supported on Windows.',
+        isBlocked: false
+      };
+    }
+
+    const limits = options.limits || {};
+    const hasLimits = Object.values(limits).some(value => value !== undefined);
+    if (hasLimits && os.platform() === 'win32') {
+      return {
+        pid: -1,
+        output: 'Error: Memory, CPU and open file limits are not supported on Windows.',
+        isBlocked: false
+      };
+    }
+    let commandToRun = buildLimitPrefix(limits) + command;
+
+    const cols = options.cols || DEFAULT_PTY_COLS;
+    const rows = options.rows || DEFAULT_PTY_ROWS;
+
+    // Working directory and environment are validated by the caller
+    const cwd = options.cwd || process.cwd();
+    const envMode = options.envMode || 'merge';
+    const envOverrides = options.env || {};
+    const env: NodeJS.ProcessEnv = envMode === 'replace'
+      ? { ...envOverrides }
+      : { ...process.env, ...envOverrides };
+
+    // Run each session in its own process group so it can be terminated as a whole
+    const detached = os.platform() !== 'win32';
+    const startTime = new Date();
+
+    // Persisted sessions write their output to log files instead of pipes,
+    // so the process keeps running when the server exits
+    let files: SessionFiles | undefined;
+    let stdio: StdioOptions = 'pipe';
+    if (config.persistSessions && os.platform() !== 'win32') {
       try {
-        const config = await configManager.getConfig();
-        shellToUse = config.shell || true;
+        files = sessionStore.create(startTime);
+        stdio = ['pipe', fs.openSync(files.stdout, 'a'), fs.openSync(files.stderr, 'a')];
+        commandToRun = buildStatusTrap(files.status) + commandToRun;
       } catch (error) {
-        // If there's an error getting the config, fall back to default
-        shellToUse = true;
+        console.error('Failed to create session state, output will not be persisted:', error);
+        if (Array.isArray(stdio)) stdio.slice(1).forEach(fd => fs.closeSync(fd as number));
+        files = undefined;
+        stdio = 'pipe';
       }
     }
-    
-    const spawnOptions = { 
-      shell: shellToUse
-    };
-    
-    const process = spawn(command, [], spawnOptions);
-    let output = '';
+
+    let childProcess;
+    if (usePty) {
+      const ptyCommand = buildPtyCommand(commandToRun, cols, rows, shellToUse, env);
+      if (!findExecutable(ptyCommand.file, ptyCommand.env)) {
+        if (Array.isArray(stdio)) stdio.slice(1).forEach(fd => fs.closeSync(fd as number));
+        if (files) sessionStore.remove(files);
+        return {
+          pid: -1,
+          output: `Error: PTY mode needs the \`${ptyCommand.file}\` utility, which was not found in ${
+            ptyCommand.env.PATH === undefined ? '/usr/bin or /bin (the environment has no PATH)' : `the PATH ${ptyCommand.env.PATH}`
+          }.`,
+          isBlocked: false
+        };
+      }
+      childProcess = spawn(ptyCommand.file, ptyCommand.args, { cwd, env: ptyCommand.env, detached, stdio });
+    } else {
+      const spawnOptions = { 
+        shell: shellToUse,
+        cwd,
+        env,
+        detached,
+        stdio
+      };
+      childProcess = spawn(commandToRun, [], spawnOptions);
+    }
+
+    // A failed spawn emits 'error' on the next tick, which would crash the server unhandled
+    let spawnError: Error | undefined;
+    childProcess.on('error', (error) => {
+      spawnError = error;
+      console.error(`Failed to run command: ${error.message}`);
+    });
+
+    // The child holds its own copies of the log file descriptors
+    if (Array.isArray(stdio)) {
+      stdio.slice(1).forEach(fd => fs.closeSync(fd as number));
+    }
     
     // Ensure process.pid is defined before proceeding
-    if (!process.pid) {
+    if (!childProcess.pid) {
+      if (files) sessionStore.remove(files);
+      // Let the 'error' event arrive so its reason can be reported
+      await new Promise(resolve => setImmediate(resolve));
       // Return a consistent error object instead of throwing
       return {
         pid: -1,  // Use -1 to indicate an error state
-        output: 'Error: Failed to get process ID. The command could not be executed.',
+        output: `Error: Failed to get process ID. The command could not be executed${spawnError ? `: ${spawnError.message}` : '.'}`,
         isBlocked: false
       };
     }
     
+    const maxBytes = config.outputBufferMaxBytes || DEFAULT_OUTPUT_BUFFER_BYTES;
+    const spillPath = config.spillOutputToDisk
+      ? path.join(OUTPUT_SPILL_DIR, `${childProcess.pid}-${startTime.getTime()}.log`)
+      : undefined;
+
     const session: TerminalSession = {
-      pid: process.pid,
-      process,
-      lastOutput: '',
+      pid: childProcess.pid,
+      command,
+      process: childProcess,
+      output: new OutputBuffer({ maxBytes, spillPath, maxSpillBytes: config.spillOutputMaxBytes }),
+      stdout: new OutputBuffer({ maxBytes }),
+      stderr: new OutputBuffer({ maxBytes }),
+      readCursor: 0,
       isBlocked: false,
-      startTime: new Date()
+      startTime,
+      pty: usePty,
+      screen: usePty ? new TerminalScreen(cols, rows) : undefined,
+      cwd,
+      envKeys: Object.keys(envOverrides),
+      envMode,
+      outputListeners: new Set(),
+      exitListeners: new Set(),
+      files
     };
     
-    this.sessions.set(process.pid, session);
+    this.sessions.set(childProcess.pid, session);
 
-    return new Promise((resolve) => {
-      process.stdout.on('data', (data) => {
-        const text = data.toString();
-        output += text;
-        session.lastOutput += text;
-      });
+    // Writing to a stdin the process has closed fails with EPIPE, which would crash the server unhandled.
+    // The failed write itself is reported to its caller.
+    childProcess.stdin?.on('error', (error) => {
+      console.error(`Input stream for PID ${session.pid} failed: ${error.message}`);
+    });
 
-      process.stderr.on('data', (data) => {
-        const text = data.toString();
-        output += text;
-        session.lastOutput += text;
+    if (files) {
+      sessionStore.save(files, {
+        pid: session.pid,
+        command,
+        cwd,
+        pty: usePty,
+        cols: usePty ? cols : undefined,
+        rows: usePty ? rows : undefined,
+        envKeys: session.envKeys,
+        envMode,
+        startTime: startTime.toISOString(),
+        processStartTicks: readProcessStartTicks(session.pid),
+        maxRuntimeMs: options.maxRuntimeMs,
+        maxOutputBytes: options.maxOutputBytes
       });
+    }
 
-      setTimeout(() => {
+    const captureOutput = (text: string, stream: OutputStream) => this.captureOutput(session, text, stream, options.maxOutputBytes);
+    const pollLogs = files ? followLogs(files, { stdout: 0, stderr: 0 }, captureOutput) : undefined;
+
+    return new Promise((resolve) => {
+      childProcess.stdout?.on('data', (data) => captureOutput(data.toString(), 'stdout'));
+      childProcess.stderr?.on('data', (data) => captureOutput(data.toString(), 'stderr'));
+      const logTimer = pollLogs ? setInterval(pollLogs, LOG_POLL_INTERVAL_MS) : undefined;
+
+      const blockTimer = setTimeout(() => {
         session.isBlocked = true;
+        // The initial output is returned to the caller, so later reads start after it
+        session.readCursor = session.output.end;
         resolve({
-          pid: process.pid!,
-          output,
-          isBlocked: true
+          pid: childProcess.pid!,
+          output: session.output.toString(),
+          isBlocked: true,
+          stdout: session.stdout.toString(),
+          stderr: session.stderr.toString(),
+          stdoutTruncated: session.stdout.truncated,
+          stderrTruncated: session.stderr.truncated
         });
       }, timeoutMs);
 
-      process.on('exit', (code) => {
-        if (process.pid) {
-          // Store completed session before removing active session
-          this.completedSessions.set(process.pid, {
-            pid: process.pid,
-            output: output + session.lastOutput, // Combine all output
-            exitCode: code,
-            startTime: session.startTime,
-            endTime: new Date()
-          });
-          
-          // Keep only last 100 completed sessions
-          if (this.completedSessions.size > 100) {
-            const oldestKey = Array.from(this.completedSessions.keys())[0];
-            this.completedSessions.delete(oldestKey);
-          }
-          
-          this.sessions.delete(process.pid);
+      const runtimeTimer = options.maxRuntimeMs !== undefined
+        ? setTimeout(() => this.killSession(session, 'max_runtime'), options.maxRuntimeMs)
+        : undefined;
+
+      let finalized = false;
+      const finalize = (code: number | null, signal: NodeJS.Signals | null) => {
+        if (finalized) return;
+        finalized = true;
+        clearTimeout(blockTimer);
+        clearTimeout(runtimeTimer);
+        clearInterval(logTimer);
+        pollLogs?.();
+
+        // Only SIGXCPU, sent at the soft CPU limit, is attributed to it. Any other signal,
+        // e.g. a SIGKILL from the OOM killer, is reported as a plain signal exit.
+        // A shell reports a killed child as 128 + signal number.
+        if (!session.killReason && limits.cpuSeconds !== undefined
+          && (signal === 'SIGXCPU' || code === 128 + os.constants.signals.SIGXCPU)) {
+          session.killReason = 'cpu_limit';
+        }
+
+        const completed = this.completeSession(session, code, signal);
+        session.exitListeners.forEach(listener => listener(code, signal));
+        if (!session.isBlocked) {
+          completed.readCursor = completed.output.end;
         }
         resolve({
-          pid: process.pid!,
-          output,
-          isBlocked: false
+          pid: completed.pid,
+          output: completed.output.toString(),
+          isBlocked: false,
+          stdout: completed.stdout.toString(),
+          stderr: completed.stderr.toString(),
+          exitCode: completed.exitCode,
+          signal: completed.signal,
+          durationMs: completed.durationMs,
+          killReason: completed.killReason,
+          stdoutTruncated: completed.stdout.truncated,
+          stderrTruncated: completed.stderr.truncated
         });
+      };
+
+      // 'close' fires once stdio has drained; fall back shortly after 'exit'
+      // in case a background child keeps the pipes open
+      childProcess.on('exit', (code, signal) => {
+        setTimeout(() => finalize(code, signal), EXIT_FLUSH_GRACE_MS);
+      });
+      childProcess.on('close', (code, signal) => finalize(code, signal));
+    });
+  }
+
+  /**
+   * Add a chunk of output to a running session, enforcing its output limit
+   */
+  private captureOutput(session: TerminalSession, text: string, stream: OutputStream, maxOutputBytes?: number): void {
+    if (maxOutputBytes !== undefined) {
+      const remaining = maxOutputBytes - session.output.end;
+      if (remaining <= 0) {
+        return;
+      }
+      if (Buffer.byteLength(text) > remaining) {
+        const bytes = Buffer.from(text);
+        let end = remaining;
+        // Do not cut a character in half
+        while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+        text = bytes.subarray(0, end).toString('utf8');
+        this.killSession(session, 'max_output');
+      }
+    }
+
+    session.output.append(text);
+    if (stream === 'stdout') {
+      session.stdout.append(text);
+      session.screen?.write(text);
+    } else {
+      session.stderr.append(text);
+    }
+    session.outputListeners.forEach(listener => listener(text, stream));
+  }
+
+  /**
+   * Terminate a session that exceeded one of its limits, recording why
+   */
+  private killSession(session: TerminalSession, reason: KillReason): void {
+    if (session.killReason) {
+      return;
+    }
+    session.killReason = reason;
+    this.forceTerminate(session.pid, { tree: true }).catch(() => {});
+  }
+
+  /**
+   * Move a finished session into the completed sessions list
+   */
+  private completeSession(session: TerminalSession, exitCode: number | null, signal: NodeJS.Signals | null): CompletedSession {
+    const endTime = new Date();
+    const completed: CompletedSession = {
+      pid: session.pid,
+      command: session.command,
+      output: session.output,
+      stdout: session.stdout,
+      stderr: session.stderr,
+      readCursor: session.readCursor,
+      exitCode,
+      signal,
+      startTime: session.startTime,
+      endTime,
+      durationMs: endTime.getTime() - session.startTime.getTime(),
+      screenSnapshot: session.screen?.snapshot(),
+      cwd: session.cwd,
+      killReason: session.killReason ?? null,
+      files: session.files
+    };
+
+    // No more output will arrive, release the spill file handle
+    session.output.dispose();
+
+    if (session.files) {
+      const record = sessionStore.load(session.files);
+      if (record) {
+        sessionStore.save(session.files, {
+          ...record,
+          endTime: endTime.toISOString(),
+          exitCode,
+          signal,
+          killReason: completed.killReason
+        });
+      }
+    }
+
+    // Store completed session before removing active session
+    this.storeCompleted(completed);
+    this.sessions.delete(session.pid);
+    return completed;
+  }
+
+  /**
+   * Add a completed session, keeping only the last 100
+   */
+  private storeCompleted(completed: CompletedSession): void {
+    this.completedSessions.set(completed.pid, completed);
+
+    if (this.completedSessions.size > 100) {
+      const oldestKey = Array.from(this.completedSessions.keys())[0];
+      const oldest = this.completedSessions.get(oldestKey);
+      oldest?.output.dispose(true);
+      if (oldest?.files) sessionStore.remove(oldest.files);
+      this.completedSessions.delete(oldestKey);
+    }
+  }
+
+  /**
+   * Load the sessions persisted by a previous server process.
+   * Sessions whose process is still running are re-attached and followed through
+   * their log files; the others are listed as completed with the exit status their
+   * shell recorded. Input cannot be sent to re-attached sessions.
+   */
+  async restoreSessions(): Promise<void> {
+    let config: ServerConfig = {};
+    try {
+      config = await configManager.getConfig();
+    } catch (error) {
+      // Fall back to defaults
+    }
+    if (!config.persistSessions) {
+      return;
+    }
+
+    sessionStore.prune();
+    const maxBytes = config.outputBufferMaxBytes || DEFAULT_OUTPUT_BUFFER_BYTES;
+    for (const { files, record } of sessionStore.list()) {
+      if (this.sessions.has(record.pid) || this.completedSessions.has(record.pid)) {
+        continue;
+      }
+      if (!record.endTime && this.isSessionProcess(files, record)) {
+        this.reattachSession(files, record, maxBytes);
+      } else {
+        this.restoreCompletedSession(files, record, maxBytes);
+      }
+    }
+  }
+
+  /**
+   * Check that a persisted session that never completed is still running,
+   * and that its pid was not reused by another process meanwhile
+   */
+  private isSessionProcess(files: SessionFiles, record: SessionRecord): boolean {
+    if (!isProcessAlive(record.pid) || sessionStore.readExitStatus(files) !== null) {
+      return false;
+    }
+    const startTicks = readProcessStartTicks(record.pid);
+    return record.processStartTicks == null || startTicks === null || startTicks === record.processStartTicks;
+  }
+
+  private restoredBuffers(files: SessionFiles, maxBytes: number) {
+    return {
+      output: new OutputBuffer({ maxBytes }),
+      stdout: new OutputBuffer({ maxBytes }),
+      stderr: new OutputBuffer({ maxBytes }),
+      // Only the end of long logs fits in the buffers
+      positions: {
+        stdout: Math.max(0, sessionStore.logSize(files.stdout) - maxBytes),
+        stderr: Math.max(0, sessionStore.logSize(files.stderr) - maxBytes)
+      }
+    };
+  }
+
+  private reattachSession(files: SessionFiles, record: SessionRecord, maxBytes: number): void {
+    const { output, stdout, stderr, positions } = this.restoredBuffers(files, maxBytes);
+    const startTime = new Date(record.startTime);
+    const session: TerminalSession = {
+      pid: record.pid,
+      command: record.command,
+      process: null,
+      output,
+      stdout,
+      stderr,
+      readCursor: 0,
+      isBlocked: true,
+      startTime,
+      pty: record.pty,
+      screen: record.pty ? new TerminalScreen(record.cols || DEFAULT_PTY_COLS, record.rows || DEFAULT_PTY_ROWS) : undefined,
+      cwd: record.cwd,
+      envKeys: record.envKeys,
+      envMode: record.envMode,
+      outputListeners: new Set(),
+      exitListeners: new Set(),
+      files
+    };
+    this.sessions.set(record.pid, session);
+
+    const pollLogs = followLogs(files, positions, (text, stream) => this.captureOutput(session, text, stream, record.maxOutputBytes));
+    pollLogs();
+
+    const runtimeTimer = record.maxRuntimeMs !== undefined
+      ? setTimeout(() => this.killSession(session, 'max_runtime'), Math.max(0, startTime.getTime() + record.maxRuntimeMs - Date.now()))
+      : undefined;
+
+    // The server is not the parent anymore, so there is no exit event to wait for
+    const timer = setInterval(() => {
+      pollLogs();
+      if (isProcessAlive(record.pid)) {
+        return;
+      }
+      clearInterval(timer);
+      clearTimeout(runtimeTimer);
+      pollLogs();
+      const exitCode = sessionStore.readExitStatus(files);
+      this.completeSession(session, exitCode, null);
+      session.exitListeners.forEach(listener => listener(exitCode, null));
+    }, LOG_POLL_INTERVAL_MS);
+  }
+
+  private restoreCompletedSession(files: SessionFiles, record: SessionRecord, maxBytes: number): void {
+    const { output, stdout, stderr, positions } = this.restoredBuffers(files, maxBytes);
+    const screen = record.pty ? new TerminalScreen(record.cols || DEFAULT_PTY_COLS, record.rows || DEFAULT_PTY_ROWS) : undefined;
+    followLogs(files, positions, (text, stream) => {
+      output.append(text);
+      if (stream === 'stdout') {
+        stdout.append(text);
+        screen?.write(text);
+      } else {
+        stderr.append(text);
+      }
+    })();
+
+    // The process ended while no server was running
+    if (!record.endTime) {
+      record = {
+        ...record,
+        endTime: new Date().toISOString(),
+        exitCode: sessionStore.readExitStatus(files),
+        signal: null
+      };
+      sessionStore.save(files, record);
+    }
+
+    const startTime = new Date(record.startTime);
+    const endTime = new Date(record.endTime!);
+    this.storeCompleted({
+      pid: record.pid,
+      command: record.command,
+      output,
+      stdout,
+      stderr,
+      readCursor: 0,
+      exitCode: record.exitCode ?? null,
+      signal: record.signal ?? null,
+      startTime,
+      endTime,
+      durationMs: endTime.getTime() - startTime.getTime(),
+      screenSnapshot: screen?.snapshot(),
+      cwd: record.cwd,
+      killReason: record.killReason ?? null,
+      files
+    });
+  }
+
+  /**
+   * Read output from a running or completed session.
+   * Without a position this drains the output written since the last read, one page at a time.
+   * offset, since_cursor and tailLines read from the retained history without moving the read cursor.
+   * 'text' strips ANSI sequences; 'screen' renders the current screen of a PTY session.
+   */
+  readOutput(pid: number, options: OutputReadOptions = {}): OutputReadResult | null {
+    const active = this.sessions.get(pid);
+    const completed = this.completedSessions.get(pid);
+    const session = active || completed;
+    if (!session) {
+      return null;
+    }
+    const isRunning = active !== undefined;
+    const buffer = session.output;
+    const format = options.format || 'raw';
+    const length = options.length || MAX_READ_OUTPUT_BYTES;
+
+    if (format === 'screen') {
+      const snapshot = active ? active.screen?.snapshot() : completed?.screenSnapshot;
+      if (snapshot === undefined) {
+        throw new Error(`Session ${pid} was not started with pty: true, screen output is not available`);
+      }
+      return { pid, text: snapshot, isRunning, offset: buffer.end, cursor: buffer.end, totalBytes: buffer.end, droppedBytes: 0, hasMore: false };
+    }
+
+    let slice;
+    if (options.tailLines !== undefined) {
+      slice = buffer.tail(options.tailLines, length);
+    } else if (options.offset !== undefined) {
+      slice = buffer.read(options.offset, length);
+    } else if (options.sinceCursor !== undefined) {
+      slice = buffer.read(options.sinceCursor, length);
+    } else {
+      slice = buffer.read(session.readCursor, length);
+      session.readCursor = slice.end;
+    }
+
+    return {
+      pid,
+      text: format === 'text' ? stripAnsi(slice.text) : slice.text,
+      isRunning,
+      offset: slice.offset,
+      cursor: slice.end,
+      totalBytes: buffer.end,
+      droppedBytes: slice.droppedBytes,
+      hasMore: slice.end < buffer.end
+    };
+  }
+
+  /**
+   * Subscribe to output of a running session as it arrives.
+   * Returns an unsubscribe function, or null if the session is not running.
+   */
+  onOutput(pid: number, listener: OutputListener): (() => void) | null {
+    const session = this.sessions.get(pid);
+    if (!session) {
+      return null;
+    }
+    session.outputListeners.add(listener);
+    return () => session.outputListeners.delete(listener);
+  }
+
+  /**
+   * Subscribe to the exit of a running session.
+   * Returns an unsubscribe function, or null if the session is not running.
+   */
+  onExit(pid: number, listener: ExitListener): (() => void) | null {
+    const session = this.sessions.get(pid);
+    if (!session) {
+      return null;
+    }
+    session.exitListeners.add(listener);
+    return () => session.exitListeners.delete(listener);
+  }
+
+  /**
+   * Write raw data to the stdin of a running session without waiting for output
+   */
+  async writeInput(pid: number, data: string): Promise<void> {
+    const session = this.sessions.get(pid);
+    if (!session) {
+      throw new Error(`No active session found for PID ${pid}`);
+    }
+    await this.write(session, this.inputStream(session), data);
+  }
+
+  /**
+   * Write to the stdin of a session, resolving once the data is handed to the process
+   */
+  private write(session: TerminalSession, stdin: Writable, data: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      stdin.write(data, (error) => {
+        if (error) {
+          reject(new Error(`Session stdin is closed, PID ${session.pid} does not read input anymore (${error.message})`));
+        } else {
+          resolve();
+        }
       });
     });
   }
 
-  getNewOutput(pid: number): string | null {
-    // First check active sessions
+  private inputStream(session: TerminalSession) {
+    if (!session.process) {
+      throw new Error(`Session ${session.pid} was re-attached after a server restart, its input is not connected anymore`);
+    }
+    const stdin = session.process.stdin;
+    if (!stdin || stdin.destroyed || stdin.writableEnded) {
+      throw new Error(`Session stdin is closed, PID ${session.pid} does not read input anymore`);
+    }
+    return stdin;
+  }
+
+  /**
+   * Discard any unread output of a running session
+   */
+  clearOutput(pid: number): void {
     const session = this.sessions.get(pid);
     if (session) {
-      const output = session.lastOutput;
-      session.lastOutput = '';
-      return output;
+      session.readCursor = session.output.end;
+    }
+  }
+
+  /**
+   * Write input to the stdin of a running session and collect the output it produces.
+   * Waits until the session has been quiet for settleMs (or maxWaitMs elapses, or the
+   * process exits) and returns everything written since the last read.
+   */
+  async sendInput(pid: number, input: string, options: SendInputOptions = {}): Promise<SendInputResult | null> {
+    const session = this.sessions.get(pid);
+    if (!session) {
+      return null;
     }
 
-    // Then check completed sessions
-    const completedSession = this.completedSessions.get(pid);
-    if (completedSession) {
-      // Format completion message with exit code and runtime
-      const runtime = (completedSession.endTime.getTime() - completedSession.startTime.getTime()) / 1000;
-      return `Process completed with exit code ${completedSession.exitCode}\nRuntime: ${runtime}s\nFinal output:\n${completedSession.output}`;
+    const stdin = this.inputStream(session);
+    const { newline = true, eof = false, ctrlC = false, settleMs = 300, maxWaitMs = 5000 } = options;
+
+    // With a PTY the terminal line discipline turns ^C and ^D into SIGINT and EOF
+    if (ctrlC) {
+      if (session.pty) {
+        await this.write(session, stdin, '\x03');
+      } else if (os.platform() !== 'win32') {
+        // The session leads its own process group, interrupt the command running in it as well
+        process.kill(-pid, 'SIGINT');
+      } else {
+        session.process!.kill('SIGINT');
+      }
     }
 
-    return null;
+    const text = input + (newline && input.length > 0 ? '\n' : '');
+    if (text) {
+      await this.write(session, stdin, text);
+    }
+    if (eof) {
+      if (session.pty) {
+        await this.write(session, stdin, '\x04');
+      } else {
+        stdin.end();
+      }
+    }
+
+    await new Promise<void>((resolve) => {
+      const startedAt = Date.now();
+      let lastLength = session.output.end;
+      let lastChangeAt = startedAt;
+
+      const interval = setInterval(() => {
+        const now = Date.now();
+        if (session.output.end !== lastLength) {
+          lastLength = session.output.end;
+          lastChangeAt = now;
+        }
+
+        const exited = !this.sessions.has(pid);
+        if (exited || now - lastChangeAt >= settleMs || now - startedAt >= maxWaitMs) {
+          clearInterval(interval);
+          resolve();
+        }
+      }, 50);
+    });
+
+    // The session may have completed meanwhile, so drain through readOutput
+    const read = this.readOutput(pid);
+    return {
+      pid,
+      output: read ? read.text : '',
+      isRunning: this.sessions.has(pid)
+    };
   }
 
-  forceTerminate(pid: number): boolean {
+  /**
+   * Terminate a running session and the process group it leads.
+   * Without an explicit signal, sends SIGINT and escalates to SIGKILL after a second
+   * for every process that is still alive. With tree, descendants that left the group
+   * (e.g. the shell started by a PTY) are signaled too.
+   * Returns null if the session is not running.
+   */
+  async forceTerminate(pid: number, options: TerminateOptions = {}): Promise<SignalResult | null> {
     const session = this.sessions.get(pid);
     if (!session) {
-      return false;
+      return null;
     }
 
-    try {
-      session.process.kill('SIGINT');
+    session.killReason = session.killReason || 'terminated';
+    const group = os.platform() !== 'win32';
+    const result = await signalProcesses(pid, options.signal || 'SIGINT', { tree: options.tree, group });
+    if (result.signaled.length === 0) {
+      capture('server_request_error', {error: result.failed[0]?.error, message:`Failed to terminate process ${pid}:`});
+    }
+
+    if (!options.signal) {
       setTimeout(() => {
-        if (this.sessions.has(pid)) {
-          session.process.kill('SIGKILL');
-        }
+        result.signaled.filter(isProcessAlive).forEach(target => {
+          try {
+            process.kill(target, 'SIGKILL');
+          } catch {
+            // Exited in the meantime
+          }
+        });
       }, 1000);
-      return true;
-    } catch (error) {
-      capture('server_request_error', {error: error, message:`Failed to terminate process ${pid}:`});
-      return false;
     }
+
+    return result;
   }
 
   listActiveSessions(): ActiveSession[] {
@@ -151,10 +836,26 @@ export class TerminalManager {
     return Array.from(this.sessions.values()).map(session => ({
       pid: session.pid,
       isBlocked: session.isBlocked,
-      runtime: now.getTime() - session.startTime.getTime()
+      runtime: now.getTime() - session.startTime.getTime(),
+      cwd: session.cwd,
+      envKeys: session.envKeys,
+      envMode: session.envMode,
+      reattached: session.process === null
     }));
   }
 
+  /**
+   * Command, working directory and terminal mode of a running session
+   */
+  getSessionCommand(pid: number): { command: string; cwd: string; pty: boolean } | undefined {
+    const session = this.sessions.get(pid);
+    return session ? { command: session.command, cwd: session.cwd, pty: session.pty } : undefined;
+  }
+
+  getCompletedSession(pid: number): CompletedSession | undefined {
+    return this.completedSessions.get(pid);
+  }
+
   listCompletedSessions(): CompletedSession[] {
     return Array.from(this.completedSessions.values());
   }
@@ -0,0 +1,423 @@
+// Matches CSI, OSC, charset designation and other two-character escape sequences
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -\/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[()*+][0-9A-Za-z]|\x1b[@-Z\\-_78=>]/g;
+
+/**
+ * Remove ANSI escape sequences and resolve carriage-return overwrites,
+ * producing plain text similar to what a user would read in a terminal log.
+ */
+export function stripAnsi(text: string): string {
+    const withoutEscapes = text
+        .replace(ANSI_PATTERN, '')
+        .replace(/\r\n/g, '\n');
+
+    return withoutEscapes
+        .split('\n')
+        .map(line => {
+            // Progress bars redraw the line with a bare \r; keep what ends up visible
+            if (!line.includes('\r')) {
+                return stripControlChars(line);
+            }
+            let visible = '';
+            for (const segment of line.split('\r')) {
+                visible = segment + visible.slice(segment.length);
+            }
+            return stripControlChars(visible);
+        })
+        .join('\n');
+}
+
+function stripControlChars(line: string): string {
+    return line.replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '');
+}
+
+type ParserState = 'normal' | 'escape' | 'csi' | 'osc' | 'charset';
+
+/**
+ * Minimal VT100/xterm screen model used to render the current contents
+ * of a PTY-backed session. Supports cursor movement, erasing, scrolling
+ * regions and the alternate screen; colors and attributes are ignored.
+ */
+export class TerminalScreen {
+    private cols: number;
+    private rows: number;
+    private lines: string[][];
+    private cursorRow = 0;
+    private cursorCol = 0;
+    private savedCursor = { row: 0, col: 0 };
+    private scrollTop = 0;
+    private scrollBottom: number;
+    private mainScreen: string[][] | null = null;
+
+    private state: ParserState = 'normal';
+    private sequence = '';
+
+    constructor(cols: number = 80, rows: number = 24) {
+        this.cols = Math.max(1, cols);
+        this.rows = Math.max(1, rows);
+        this.scrollBottom = this.rows - 1;
+        this.lines = this.blankLines(this.rows);
+    }
+
+    /**
+     * Feed raw terminal output into the screen model.
+     * Escape sequences split across chunks are handled.
+     */
+    write(data: string): void {
+        for (const char of data) {
+            switch (this.state) {
+                case 'normal':
+                    this.handleChar(char);
+                    break;
+                case 'escape':
+                    this.handleEscape(char);
+                    break;
+                case 'csi':
+                    this.sequence += char;
+                    if (char >= '@' && char <= '~') {
+                        this.handleCsi(this.sequence);
+                        this.state = 'normal';
+                        this.sequence = '';
+                    }
+                    break;
+                case 'osc':
+                    // OSC is terminated by BEL or ST (ESC \)
+                    if (char === '\x07' || (char === '\\' && this.sequence.endsWith('\x1b'))) {
+                        this.state = 'normal';
+                        this.sequence = '';
+                    } else {
+                        this.sequence += char;
+                    }
+                    break;
+                case 'charset':
+                    this.state = 'normal';
+                    break;
+            }
+        }
+    }
+
+    /**
+     * Render the visible screen as text, trimming trailing whitespace and empty lines
+     */
+    snapshot(): string {
+        const rendered = this.lines.map(line => line.join('').replace(/\s+$/, ''));
+        while (rendered.length > 0 && rendered[rendered.length - 1] === '') {
+            rendered.pop();
+        }
+        return rendered.join('\n');
+    }
+
+    getSize(): { cols: number; rows: number } {
+        return { cols: this.cols, rows: this.rows };
+    }
+
+    private handleChar(char: string): void {
+        switch (char) {
+            case '\x1b':
+                this.state = 'escape';
+                return;
+            case '\r':
+                this.cursorCol = 0;
+                return;
+            case '\n':
+            case '\x0b':
+            case '\x0c':
+                this.lineFeed();
+                return;
+            case '\b':
+                this.cursorCol = Math.max(0, this.cursorCol - 1);
+                return;
+            case '\t':
+                this.cursorCol = Math.min(this.cols - 1, (Math.floor(this.cursorCol / 8) + 1) * 8);
+                return;
+        }
+
+        if (char < ' ' || char === '\x7f') {
+            return;
+        }
+
+        if (this.cursorCol >= this.cols) {
+            this.cursorCol = 0;
+            this.lineFeed();
+        }
+        this.lines[this.cursorRow][this.cursorCol] = char;
+        this.cursorCol++;
+    }
+
+    private handleEscape(char: string): void {
+        this.state = 'normal';
+        switch (char) {
+            case '[':
+                this.state = 'csi';
+                this.sequence = '';
+                break;
+            case ']':
+                this.state = 'osc';
+                this.sequence = '';
+                break;
+            case '(':
+            case ')':
+            case '*':
+            case '+':
+                this.state = 'charset';
+                break;
+            case '7':
+                this.saveCursor();
+                break;
+            case '8':
+                this.restoreCursor();
+                break;
+            case 'D':
+                this.lineFeed();
+                break;
+            case 'E':
+                this.cursorCol = 0;
+                this.lineFeed();
+                break;
+            case 'M':
+                this.reverseIndex();
+                break;
+            case 'c':
+                this.reset();
+                break;
+        }
+    }
+
+    private handleCsi(sequence: string): void {
+        const final = sequence[sequence.length - 1];
+        const body = sequence.slice(0, -1);
+        const isPrivate = body.startsWith('?');
+        const params = (isPrivate ? body.slice(1) : body)
+            .split(';')
+            .map(value => parseInt(value, 10));
+        const param = (index: number, fallback: number) =>
+            Number.isNaN(params[index]) || params[index] === undefined || (params[index] === 0 && fallback > 0)
+                ? fallback
+                : params[index];
+
+        if (isPrivate) {
+            if (final === 'h' || final === 'l') {
+                this.setPrivateMode(params, final === 'h');
+            }
+            return;
+        }
+
+        switch (final) {
+            case 'A':
+                this.cursorRow = Math.max(0, this.cursorRow - param(0, 1));
+                break;
+            case 'B':
+                this.cursorRow = Math.min(this.rows - 1, this.cursorRow + param(0, 1));
+                break;
+            case 'C':
+                this.cursorCol = Math.min(this.cols - 1, this.cursorCol + param(0, 1));
+                break;
+            case 'D':
+                this.cursorCol = Math.max(0, Math.min(this.cols - 1, this.cursorCol) - param(0, 1));
+                break;
+            case 'E':
+                this.cursorRow = Math.min(this.rows - 1, this.cursorRow + param(0, 1));
+                this.cursorCol = 0;
+                break;
+            case 'F':
+                this.cursorRow = Math.max(0, this.cursorRow - param(0, 1));
+                this.cursorCol = 0;
+                break;
+            case 'G':
+            case '`':
+                this.cursorCol = this.clampCol(param(0, 1) - 1);
+                break;
+            case 'd':
+                this.cursorRow = this.clampRow(param(0, 1) - 1);
+                break;
+            case 'H':
+            case 'f':
+                this.cursorRow = this.clampRow(param(0, 1) - 1);
+                this.cursorCol = this.clampCol(param(1, 1) - 1);
+                break;
+            case 'J':
+                this.eraseDisplay(param(0, 0));
+                break;
+            case 'K':
+                this.eraseLine(param(0, 0));
+                break;
+            case 'L':
+                this.insertLines(param(0, 1));
+                break;
+            case 'M':
+                this.deleteLines(param(0, 1));
+                break;
+            case 'P':
+                this.deleteChars(param(0, 1));
+                break;
+            case '@':
+                this.insertChars(param(0, 1));
+                break;
+            case 'X':
+                this.eraseChars(param(0, 1));
+                break;
+            case 'S':
+                this.scrollUp(param(0, 1));
+                break;
+            case 'T':
+                this.scrollDown(param(0, 1));
+                break;
+            case 'r':
+                this.scrollTop = this.clampRow(param(0, 1) - 1);
+                this.scrollBottom = this.clampRow(param(1, this.rows) - 1);
+                if (this.scrollTop >= this.scrollBottom) {
+                    this.scrollTop = 0;
+                    this.scrollBottom = this.rows - 1;
+                }
+                this.cursorRow = 0;
+                this.cursorCol = 0;
+                break;
+            case 's':
+                this.saveCursor();
+                break;
+            case 'u':
+                this.restoreCursor();
+                break;
+            // 'm' (colors/attributes) and everything else do not affect the text grid
+        }
+    }
+
+    private setPrivateMode(modes: number[], enable: boolean): void {
+        for (const mode of modes) {
+            if (mode === 1049 || mode === 1047 || mode === 47) {
+                if (enable && !this.mainScreen) {
+                    if (mode === 1049) this.saveCursor();
+                    this.mainScreen = this.lines;
+                    this.lines = this.blankLines(this.rows);
+                } else if (!enable && this.mainScreen) {
+                    this.lines = this.mainScreen;
+                    this.mainScreen = null;
+                    if (mode === 1049) this.restoreCursor();
+                }
+            }
+        }
+    }
+
+    private lineFeed(): void {
+        if (this.cursorRow === this.scrollBottom) {
+            this.scrollUp(1);
+        } else if (this.cursorRow < this.rows - 1) {
+            this.cursorRow++;
+        }
+    }
+
+    private reverseIndex(): void {
+        if (this.cursorRow === this.scrollTop) {
+            this.scrollDown(1);
+        } else if (this.cursorRow > 0) {
+            this.cursorRow--;
+        }
+    }
+
+    private scrollUp(count: number): void {
+        for (let i = 0; i < count; i++) {
+            this.lines.splice(this.scrollTop, 1);
+            this.lines.splice(this.scrollBottom, 0, this.blankLine());
+        }
+    }
+
+    private scrollDown(count: number): void {
+        for (let i = 0; i < count; i++) {
+            this.lines.splice(this.scrollBottom, 1);
+            this.lines.splice(this.scrollTop, 0, this.blankLine());
+        }
+    }
+
+    private insertLines(count: number): void {
+        if (this.cursorRow < this.scrollTop || this.cursorRow > this.scrollBottom) return;
+        for (let i = 0; i < count; i++) {
+            this.lines.splice(this.scrollBottom, 1);
+            this.lines.splice(this.cursorRow, 0, this.blankLine());
+        }
+    }
+
+    private deleteLines(count: number): void {
+        if (this.cursorRow < this.scrollTop || this.cursorRow > this.scrollBottom) return;
+        for (let i = 0; i < count; i++) {
+            this.lines.splice(this.cursorRow, 1);
+            this.lines.splice(this.scrollBottom, 0, this.blankLine());
+        }
+    }
+
+    private eraseDisplay(mode: number): void {
+        if (mode === 0) {
+            this.eraseLine(0);
+            for (let row = this.cursorRow + 1; row < this.rows; row++) {
+                this.lines[row] = this.blankLine();
+            }
+        } else if (mode === 1) {
+            this.eraseLine(1);
+            for (let row = 0; row < this.cursorRow; row++) {
+                this.lines[row] = this.blankLine();
+            }
+        } else {
+            this.lines = this.blankLines(this.rows);
+        }
+    }
+
+    private eraseLine(mode: number): void {
+        const line = this.lines[this.cursorRow];
+        const col = Math.min(this.cursorCol, this.cols);
+        if (mode === 0) {
+            line.fill(' ', col);
+        } else if (mode === 1) {
+            line.fill(' ', 0, Math.min(col + 1, this.cols));
+        } else {
+            line.fill(' ');
+        }
+    }
+
+    private deleteChars(count: number): void {
+        const line = this.lines[this.cursorRow];
+        line.splice(this.cursorCol, count);
+        while (line.length < this.cols) line.push(' ');
+    }
+
+    private insertChars(count: number): void {
+        const line = this.lines[this.cursorRow];
+        line.splice(this.cursorCol, 0, ...new Array(count).fill(' '));
+        line.length = this.cols;
+    }
+
+    private eraseChars(count: number): void {
+        this.lines[this.cursorRow].fill(' ', this.cursorCol, Math.min(this.cols, this.cursorCol + count));
+    }
+
+    private saveCursor(): void {
+        this.savedCursor = { row: this.cursorRow, col: this.cursorCol };
+    }
+
+    private restoreCursor(): void {
+        this.cursorRow = this.clampRow(this.savedCursor.row);
+        this.cursorCol = this.clampCol(this.savedCursor.col);
+    }
+
+    private reset(): void {
+        this.lines = this.blankLines(this.rows);
+        this.mainScreen = null;
+        this.cursorRow = 0;
+        this.cursorCol = 0;
+        this.scrollTop = 0;
+        this.scrollBottom = this.rows - 1;
+    }
+
+    private clampRow(row: number): number {
+        return Math.max(0, Math.min(this.rows - 1, row));
+    }
+
+    private clampCol(col: number): number {
+        return Math.max(0, Math.min(this.cols - 1, col));
+    }
+
+    private blankLine(): string[] {
+        return new Array(this.cols).fill(' ');
+    }
+
+    private blankLines(count: number): string[][] {
+        return Array.from({ length: count }, () => this.blankLine());
+    }
+}
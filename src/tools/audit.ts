@@ -0,0 +1,73 @@
+import { auditLog, AuditEntry } from '../audit-log.js';
+import { QueryAuditLogArgsSchema } from './schemas.js';
+import { capture } from "../utils.js";
+import { ServerResult } from '../types.js';
+
+function parseTime(value: string | undefined, name: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = new Date(value);
+  if (isNaN(time.getTime())) {
+    throw new Error(`${name} is not a valid date: ${value}`);
+  }
+  return time;
+}
+
+function formatEntry(entry: AuditEntry): string {
+  let text = `${entry.timestamp} ${entry.tool} ${entry.status}`;
+  if (entry.exitCode !== null) text += ` (exit code ${entry.exitCode})`;
+  text += `, ${entry.durationMs}ms, ${entry.resultBytes} bytes`;
+  if (entry.command !== null) text += `\n  Command: ${entry.command}`;
+  if (entry.paths.length > 0) text += `\n  Paths: ${entry.paths.join(', ')}`;
+  if (entry.error) text += `\n  Error: ${entry.error}`;
+  return text;
+}
+
+export async function queryAuditLog(args: unknown): Promise<ServerResult> {
+  const parsed = QueryAuditLogArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for query_audit_log: ${parsed.error}` }],
+      isError: true,
+    };
+  }
+
+  capture('server_query_audit_log');
+
+  let entries: AuditEntry[];
+  try {
+    let command: RegExp | undefined;
+    if (parsed.data.command !== undefined) {
+      try {
+        command = new RegExp(parsed.data.command);
+      } catch (error) {
+        throw new Error(`command is not a valid regular expression: ${parsed.data.command}`);
+      }
+    }
+    entries = await auditLog.query({
+      since: parseTime(parsed.data.since, 'since'),
+      until: parseTime(parsed.data.until, 'until'),
+      tool: parsed.data.tool,
+      path: parsed.data.path,
+      command,
+      errorsOnly: parsed.data.errors_only,
+      limit: parsed.data.limit
+    });
+  } catch (error) {
+    return {
+      content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+
+  return {
+    content: [{
+      type: "text",
+      text: entries.length === 0
+        ? 'No matching tool calls in the audit log'
+        : `${entries.length} matching tool call${entries.length === 1 ? '' : 's'}, newest first:\n\n${entries.map(formatEntry).join('\n')}`
+    }],
+    structuredContent: { entries },
+  };
+}
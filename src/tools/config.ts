@@ -1,5 +1,7 @@
 import { configManager, ServerConfig } from '../config-manager.js';
 import { SetConfigValueArgsSchema } from './schemas.js';
+import { getAllowedDirs } from './filesystem.js';
+import { rootsManager } from '../client-roots.js';
 
 /**
  * Get the entire config
@@ -9,10 +11,14 @@ export async function getConfig() {
   try {
     const config = await configManager.getConfig();
     console.error(`getConfig result: ${JSON.stringify(config, null, 2)}`);
+    const roots = rootsManager.getRoots();
+    const source = rootsManager.usesRoots(config.allowedDirectoriesSource) ? config.allowedDirectoriesSource : 'config';
     return {
       content: [{
         type: "text",
-        text: `Current configuration:\n${JSON.stringify(config, null, 2)}`
+        text: `Current configuration:\n${JSON.stringify(config, null, 2)}\n\n` +
+          `Effective allowed directories (${source}): ${JSON.stringify(await getAllowedDirs())}\n` +
+          `Client roots: ${roots === null ? 'not listed by the client' : JSON.stringify(roots)}`
       }],
     };
   } catch (error) {
@@ -62,7 +68,10 @@ export async function setConfigValue(args: unknown) {
       }
 
       // Special handling for known array configuration keys
-      if ((parsed.data.key === 'allowedDirectories' || parsed.data.key === 'blockedCommands') && 
+      if ((parsed.data.key === 'allowedDirectories' || parsed.data.key === 'blockedCommands' || parsed.data.key === 'commandRules' ||
+          parsed.data.key === 'sshBlockedCommands' || parsed.data.key === 'sshCommandRules' ||
+          parsed.data.key === 'approvalRules' || parsed.data.key === 'redactionPatterns' ||
+          parsed.data.key === 'readonlyCommandRules' || parsed.data.key === 'deniedPaths') && 
           !Array.isArray(valueToStore)) {
         if (typeof valueToStore === 'string') {
           try {
@@ -0,0 +1,406 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { validatePath, isServerStatePath } from './filesystem.js';
+import { parseEditBlock } from './edit.js';
+import { resolveCommandContext } from './execute.js';
+import { collectProcesses } from './process.js';
+import { sshSessionManager } from './ssh-session-manager.js';
+import { sshRunInSessionSchema, sshUploadInSessionSchema, sshDownloadInSessionSchema } from './schemas/ssh-persistent.js';
+import {
+  WriteFileArgsSchema,
+  EditBlockArgsSchema,
+  MoveFileArgsSchema,
+  CreateDirectoryArgsSchema,
+  KillProcessArgsSchema,
+  SetConfigValueArgsSchema,
+  ExecuteCommandArgsSchema,
+  OpenShellArgsSchema,
+  RunInShellArgsSchema,
+  ScheduleCommandArgsSchema,
+  EnqueueCommandArgsSchema,
+  WatchAndRunArgsSchema,
+  SendInputArgsSchema,
+  ForceTerminateArgsSchema,
+  CloseShellArgsSchema,
+  SshExecuteCommandArgsSchema,
+  SshUploadFileArgsSchema,
+  SshDownloadFileArgsSchema,
+} from './schemas.js';
+import { commandManager, CommandCheckResult, SSHTarget } from '../command-manager.js';
+import { configManager } from '../config-manager.js';
+import { terminalManager } from '../terminal-manager.js';
+import { shellManager } from '../shell-manager.js';
+import { resolveShell } from '../shell-parser.js';
+import { normalizeSignal, readProcessTable, collectDescendants, isProcessAlive } from '../process-tree.js';
+import { unifiedDiff } from '../diff.js';
+import { ServerResult } from '../types.js';
+
+interface Description {
+  // What the call would do, in one sentence
+  summary: string;
+  details?: string[];
+  // Set if the call would fail
+  failure?: string;
+}
+
+function result(tool: string, description: Description): ServerResult {
+  const lines = [`Dry run, nothing was changed. ${tool} ${description.failure ? 'would fail' : 'would'}: ${description.summary}`];
+  if (description.failure) lines.push(`Reason: ${description.failure}`);
+  if (description.details?.length) lines.push('', ...description.details);
+  return {
+    content: [{ type: "text", text: lines.join('\n') }],
+    structuredContent: { dryRun: true, tool, wouldFail: Boolean(description.failure), summary: description.summary },
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function readText(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function describeWriteFile(args: unknown): Promise<Description> {
+  const { path: filePath, content } = WriteFileArgsSchema.parse(args);
+  const validPath = await validatePath(filePath, 'write');
+  const stats = await fs.stat(validPath).catch(() => null);
+  if (stats?.isDirectory()) {
+    return { summary: `write ${validPath}`, failure: `${validPath} is a directory` };
+  }
+  const existing = stats ? await readText(validPath) : null;
+  if (existing === null) {
+    return {
+      summary: `create ${validPath} (${Buffer.byteLength(content)} bytes)`,
+      details: [unifiedDiff('', content, '/dev/null', validPath)]
+    };
+  }
+  if (existing === content) {
+    return { summary: `leave ${validPath} unchanged, it already has this content` };
+  }
+  return {
+    summary: `overwrite ${validPath} (${Buffer.byteLength(existing)} -> ${Buffer.byteLength(content)} bytes)`,
+    details: [unifiedDiff(existing, content, validPath, validPath)]
+  };
+}
+
+async function describeEditBlock(args: unknown): Promise<Description> {
+  const { blockContent } = EditBlockArgsSchema.parse(args);
+  const { filePath, searchReplace, error } = await parseEditBlock(blockContent);
+  if (error) {
+    return { summary: 'apply an edit block', failure: error };
+  }
+  const validPath = await validatePath(filePath, 'write');
+  const existing = await readText(validPath);
+  if (existing === null) {
+    return { summary: `edit ${validPath}`, failure: `${validPath} does not exist` };
+  }
+  const index = existing.indexOf(searchReplace.search);
+  if (index === -1) {
+    return { summary: `leave ${validPath} unchanged, the search content was not found` };
+  }
+  const edited = existing.slice(0, index) + searchReplace.replace + existing.slice(index + searchReplace.search.length);
+  const occurrences = existing.split(searchReplace.search).length - 1;
+  return {
+    summary: `edit ${validPath}` + (occurrences > 1 ? `, replacing the first of ${occurrences} occurrences of the search content` : ''),
+    details: [unifiedDiff(existing, edited, validPath, validPath) || '(the replacement is identical to the search content)']
+  };
+}
+
+async function describeMoveFile(args: unknown): Promise<Description> {
+  const { source, destination } = MoveFileArgsSchema.parse(args);
+  const validSource = await validatePath(source, 'write');
+  const validDestination = await validatePath(destination, 'write');
+  const summary = `move ${validSource} to ${validDestination}`;
+  const sourceStats = await fs.stat(validSource).catch(() => null);
+  if (!sourceStats) {
+    return { summary, failure: `${validSource} does not exist` };
+  }
+  const destinationStats = await fs.stat(validDestination).catch(() => null);
+  if (destinationStats?.isDirectory()) {
+    const entries = await fs.readdir(validDestination).catch(() => []);
+    if (entries.length > 0 || !sourceStats.isDirectory()) {
+      return { summary, failure: `${validDestination} is an existing directory` };
+    }
+  }
+  return {
+    summary: `${summary} (a ${sourceStats.isDirectory() ? 'directory' : `file of ${sourceStats.size} bytes`})`,
+    details: destinationStats ? [`The existing ${destinationStats.isDirectory() ? 'empty directory' : 'file'} at ${validDestination} would be replaced.`] : []
+  };
+}
+
+async function describeCreateDirectory(args: unknown): Promise<Description> {
+  const { path: dirPath } = CreateDirectoryArgsSchema.parse(args);
+  const validPath = await validatePath(dirPath, 'write');
+  const missing: string[] = [];
+  let current = validPath;
+  let stats = await fs.stat(current).catch(() => null);
+  while (!stats && path.dirname(current) !== current) {
+    missing.unshift(current);
+    current = path.dirname(current);
+    stats = await fs.stat(current).catch(() => null);
+  }
+  if (stats && !stats.isDirectory()) {
+    return { summary: `create ${validPath}`, failure: `${current} is a file` };
+  }
+  if (missing.length === 0) {
+    return { summary: `leave ${validPath} as it is, the directory already exists` };
+  }
+  return { summary: `create ${missing.length === 1 ? 'the directory' : `${missing.length} directories`}: ${missing.join(', ')}` };
+}
+
+async function describeKillProcess(args: unknown): Promise<Description> {
+  const { pid, signal: signalName, tree } = KillProcessArgsSchema.parse(args);
+  const signal = normalizeSignal(signalName || 'SIGTERM');
+  if (!signal) {
+    return { summary: `signal process ${pid}`, failure: `Unknown signal: ${signalName}` };
+  }
+  if (!isProcessAlive(pid)) {
+    return { summary: `send ${signal} to process ${pid}`, failure: `No process with PID ${pid}` };
+  }
+  const processes = await collectProcesses().catch(() => []);
+  const describe = (target: number) => {
+    const info = processes.find(p => p.pid === target);
+    return info ? `${target} (${info.command || info.name})` : String(target);
+  };
+  const details: string[] = [];
+  if (tree) {
+    const descendants = collectDescendants(await readProcessTable(), pid);
+    details.push(descendants.length > 0
+      ? `Its descendants would be signaled too:\n${descendants.map(child => `  ${describe(child)}`).join('\n')}`
+      : 'It has no descendants.');
+  }
+  return { summary: `send ${signal} to process ${describe(pid)}`, details };
+}
+
+async function describeSetConfigValue(args: unknown): Promise<Description> {
+  const { key, value } = SetConfigValueArgsSchema.parse(args);
+  const current = await configManager.getValue(key);
+  return {
+    summary: `set ${key}`,
+    details: [`Current value: ${JSON.stringify(current) ?? '(not set)'}`, `New value: ${JSON.stringify(value)}`]
+  };
+}
+
+function describePolicy(command: string, check: CommandCheckResult): string[] {
+  const resolution = resolveShell(command);
+  const lines = [
+    `Commands it runs: ${[...new Set(resolution.commands.map(resolved => resolved.name))].join(', ') || '(none)'}`
+  ];
+  if (resolution.writes.length > 0) {
+    lines.push(`Files its redirections write: ${resolution.writes.join(', ')}`);
+  }
+  lines.push(`Command policy: ${check.allowed ? check.reason : `denied, ${check.reason}`}`);
+  return lines;
+}
+
+async function describeLocalCommand(
+  command: string,
+  data: { cwd?: string; env?: Record<string, string>; env_file?: string; env_mode?: string; shell?: string },
+  summary: string,
+  extra: string[] = []
+): Promise<Description> {
+  const context = await resolveCommandContext(data);
+  const cwd = context.cwd || process.cwd();
+  const check = await commandManager.checkCommand(command, cwd);
+  const details = [`Command: ${command}`, `Working directory: ${cwd}`, `Shell: ${data.shell || 'default'}`];
+  if (context.env) {
+    details.push(`Environment (${data.env_mode || 'merge'}): ${Object.keys(context.env).join(', ')}`);
+  }
+  details.push(...extra, ...describePolicy(command, check));
+  return check.allowed ? { summary, details } : { summary, details, failure: commandManager.formatDenial(command, check) };
+}
+
+function limits(data: { timeout_ms?: number; max_runtime_ms?: number; max_output_bytes?: number }): string[] {
+  const lines: string[] = [];
+  if (data.timeout_ms !== undefined) lines.push(`Waits ${data.timeout_ms}ms for output before returning`);
+  if (data.max_runtime_ms !== undefined) lines.push(`Killed after ${data.max_runtime_ms}ms`);
+  if (data.max_output_bytes !== undefined) lines.push(`Killed after ${data.max_output_bytes} bytes of output`);
+  return lines;
+}
+
+async function describeExecuteCommand(args: unknown): Promise<Description> {
+  const data = ExecuteCommandArgsSchema.parse(args);
+  return describeLocalCommand(data.command, data, `run "${data.command}"${data.pty ? ' in a pseudo-terminal' : ''}`, limits(data));
+}
+
+async function describeOpenShell(args: unknown): Promise<Description> {
+  const data = OpenShellArgsSchema.parse(args);
+  const context = await resolveCommandContext(data);
+  const shellPath = await shellManager.resolveShellPath(data.shell, context.env);
+  const summary = `open shell session ${data.name} running ${shellPath}`;
+  const details = [`Shell: ${shellPath}`, `Working directory: ${context.cwd || process.cwd()}`];
+  if (context.env) {
+    details.push(`Environment (${data.env_mode || 'merge'}): ${Object.keys(context.env).join(', ')}`);
+  }
+  if (shellManager.listShells().some(info => info.name === data.name)) {
+    return { summary, details, failure: `Shell session already exists: ${data.name}` };
+  }
+  return { summary, details };
+}
+
+async function describeRunInShell(args: unknown): Promise<Description> {
+  const { name, command, timeout_ms } = RunInShellArgsSchema.parse(args);
+  const shell = shellManager.listShells().find(info => info.name === name);
+  if (!shell) {
+    return { summary: `run "${command}" in shell ${name}`, failure: `No shell named ${name}` };
+  }
+  const check = await commandManager.checkCommand(command, shell.cwd);
+  const details = [`Command: ${command}`, `Working directory: ${shell.cwd}`, `Shell: ${shell.shell} (PID ${shell.pid})`, ...limits({ timeout_ms }), ...describePolicy(command, check)];
+  const summary = `run "${command}" in shell ${name}`;
+  return check.allowed ? { summary, details } : { summary, details, failure: commandManager.formatDenial(command, check) };
+}
+
+async function describeScheduleCommand(args: unknown): Promise<Description> {
+  const data = ScheduleCommandArgsSchema.parse(args);
+  const when = data.cron ? `on the cron schedule "${data.cron}"` : data.run_at ? `at ${data.run_at}` : `in ${data.delay_ms ?? 0}ms`;
+  return describeLocalCommand(data.command, data, `schedule "${data.command}" to run ${when}`, limits(data));
+}
+
+async function describeEnqueueCommand(args: unknown): Promise<Description> {
+  const data = EnqueueCommandArgsSchema.parse(args);
+  const extra = [`Queue: ${data.queue || 'default'}${data.max_concurrency ? `, at most ${data.max_concurrency} at a time` : ''}`];
+  if (data.depends_on?.length) {
+    extra.push(`Runs after: ${data.depends_on.join(', ')} (${data.depends_on_condition || 'success'})`);
+  }
+  return describeLocalCommand(data.command, data, `queue "${data.command}"`, [...extra, ...limits(data)]);
+}
+
+async function describeWatchAndRun(args: unknown): Promise<Description> {
+  const data = WatchAndRunArgsSchema.parse(args);
+  const extra = [`Globs: ${data.paths.join(', ')}`, `Runs on start: ${data.run_on_start ? 'yes' : 'no'}`];
+  return describeLocalCommand(data.command, { ...data, cwd: data.cwd || process.cwd() }, `run "${data.command}" whenever matching files change`, [...extra, ...limits(data)]);
+}
+
+function findSession(pid: number): string | null {
+  return terminalManager.listActiveSessions().some(session => session.pid === pid) ? null : `No active session found for PID ${pid}`;
+}
+
+async function describeSendInput(args: unknown): Promise<Description> {
+  const data = SendInputArgsSchema.parse(args);
+  const parts = [data.input ? JSON.stringify(data.input + (data.newline ? '\n' : '')) : null, data.eof ? 'EOF' : null, data.ctrl_c ? 'Ctrl-C' : null]
+    .filter((part): part is string => part !== null);
+  const summary = `send ${parts.join(', ') || 'nothing'} to session ${data.pid}`;
+  const failure = findSession(data.pid);
+  return failure ? { summary, failure } : { summary };
+}
+
+async function describeForceTerminate(args: unknown): Promise<Description> {
+  const { pid, signal: signalName, tree } = ForceTerminateArgsSchema.parse(args);
+  const signal = signalName ? normalizeSignal(signalName) : 'SIGTERM';
+  const summary = `send ${signal ?? signalName} to session ${pid}${tree ? ' and all its descendants' : ' and its process group'}`;
+  const failure = signal ? findSession(pid) : `Unknown signal: ${signalName}`;
+  return failure ? { summary, failure } : { summary, details: signalName ? [] : ['Processes still running after 1s would receive SIGKILL.'] };
+}
+
+async function describeCloseShell(args: unknown): Promise<Description> {
+  const { name } = CloseShellArgsSchema.parse(args);
+  const shell = shellManager.listShells().find(info => info.name === name);
+  return shell
+    ? { summary: `close shell ${name} and terminate its process ${shell.pid}${shell.busy ? ', which is still running a command' : ''}` }
+    : { summary: `close shell ${name}`, failure: `No shell named ${name}` };
+}
+
+async function describeRemoteCommand(command: string, target: SSHTarget, summary: string, cwd?: string): Promise<Description> {
+  const check = await commandManager.checkSSHCommand(command, target);
+  const details = [`Command: ${command}`, `Host: ${target.username ? `${target.username}@` : ''}${target.host}`];
+  if (cwd) details.push(`Remote working directory: ${cwd}`);
+  details.push(...describePolicy(command, check));
+  return check.allowed ? { summary, details } : { summary, details, failure: commandManager.formatDenial(command, check) };
+}
+
+async function describeSshExecuteCommand(args: unknown): Promise<Description> {
+  const { host, username, command, cwd } = SshExecuteCommandArgsSchema.parse(args);
+  return describeRemoteCommand(command, { host, username }, `run "${command}" on ${host}`, cwd);
+}
+
+async function describeSshRunInSession(args: unknown): Promise<Description> {
+  const { sessionId, command, cwd } = sshRunInSessionSchema.parse(args);
+  const target = sshSessionManager.getTarget(sessionId);
+  if (!target) {
+    return { summary: `run "${command}" in SSH session ${sessionId}`, failure: `No SSH session ${sessionId}` };
+  }
+  return describeRemoteCommand(command, target, `run "${command}" on ${target.host} in SSH session ${sessionId}`, cwd);
+}
+
+async function describeTransfer(direction: 'upload' | 'download', localPath: string, remotePath: string, remote: string): Promise<Description> {
+  const local = path.resolve(localPath);
+  const stats = await fs.stat(local).catch(() => null);
+  if (direction === 'upload') {
+    const summary = `upload ${local} to ${remote}:${remotePath}`;
+    return stats ? { summary: `${summary} (${stats.size} bytes), replacing the remote file if it exists` } : { summary, failure: `${local} does not exist` };
+  }
+  const summary = `download ${remote}:${remotePath} to ${local}`;
+  if (await isServerStatePath(local)) {
+    return { summary, failure: `Cannot download to ${local}, the server's config, pending approvals and audit log cannot be written` };
+  }
+  return {
+    summary,
+    details: stats ? [`The existing local file ${local} would be replaced.`] : []
+  };
+}
+
+async function describeSshTransfer(tool: string, args: unknown): Promise<Description> {
+  if (tool === 'ssh_upload_file' || tool === 'ssh_download_file') {
+    const data = (tool === 'ssh_upload_file' ? SshUploadFileArgsSchema : SshDownloadFileArgsSchema).parse(args);
+    return describeTransfer(tool === 'ssh_upload_file' ? 'upload' : 'download', data.localPath, data.remotePath, `${data.username}@${data.host}`);
+  }
+  const data = (tool === 'ssh_upload_in_session' ? sshUploadInSessionSchema : sshDownloadInSessionSchema).parse(args);
+  const target = sshSessionManager.getTarget(data.sessionId);
+  if (!target) {
+    return { summary: `transfer ${data.remotePath} in SSH session ${data.sessionId}`, failure: `No SSH session ${data.sessionId}` };
+  }
+  return describeTransfer(tool === 'ssh_upload_in_session' ? 'upload' : 'download', data.localPath, data.remotePath, `${target.username}@${target.host}`);
+}
+
+const DESCRIBERS: Record<string, (args: unknown) => Promise<Description>> = {
+  write_file: describeWriteFile,
+  edit_block: describeEditBlock,
+  move_file: describeMoveFile,
+  create_directory: describeCreateDirectory,
+  kill_process: describeKillProcess,
+  set_config_value: describeSetConfigValue,
+  execute_command: describeExecuteCommand,
+  open_shell: describeOpenShell,
+  run_in_shell: describeRunInShell,
+  schedule_command: describeScheduleCommand,
+  enqueue_command: describeEnqueueCommand,
+  watch_and_run: describeWatchAndRun,
+  send_input: describeSendInput,
+  force_terminate: describeForceTerminate,
+  close_shell: describeCloseShell,
+  ssh_execute_command: describeSshExecuteCommand,
+  ssh_run_in_session: describeSshRunInSession,
+  ssh_upload_file: args => describeSshTransfer('ssh_upload_file', args),
+  ssh_download_file: args => describeSshTransfer('ssh_download_file', args),
+  ssh_upload_in_session: args => describeSshTransfer('ssh_upload_in_session', args),
+  ssh_download_in_session: args => describeSshTransfer('ssh_download_in_session', args),
+};
+
+/**
+ * Describe what a tool call would do in dryrun mode, without doing it
+ *
+ * @param tool - Name of a tool that changes something
+ * @param args - Tool arguments as sent by the client
+ * @returns The description, or an error if the arguments are invalid
+ */
+export async function dryRun(tool: string, args: unknown): Promise<ServerResult> {
+  const describe = DESCRIBERS[tool];
+  if (!describe) {
+    return {
+      content: [{ type: "text", text: `Error: ${tool} cannot be described in dryrun mode` }],
+      isError: true,
+    };
+  }
+  try {
+    return result(tool, await describe(args));
+  } catch (error) {
+    // Invalid arguments or a path outside allowedDirectories, the real call would fail the same way
+    return result(tool, { summary: `run with ${JSON.stringify(args ?? {})}`, failure: errorMessage(error) });
+  }
+}
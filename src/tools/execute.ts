@@ -1,8 +1,157 @@
+import fs from 'fs/promises';
 import { terminalManager } from '../terminal-manager.js';
 import { commandManager } from '../command-manager.js';
-import { ExecuteCommandArgsSchema, ReadOutputArgsSchema, ForceTerminateArgsSchema, ListSessionsArgsSchema } from './schemas.js';
+import { modeManager } from '../server-mode.js';
+import { shellManager } from '../shell-manager.js';
+import { validatePath } from './filesystem.js';
+import { formatSignalResult } from './process.js';
+import { normalizeSignal } from '../process-tree.js';
+import { ExecuteCommandArgsSchema, ReadOutputArgsSchema, SendInputArgsSchema, ForceTerminateArgsSchema, ListSessionsArgsSchema } from './schemas.js';
 import { capture } from "../utils.js";
-import { ServerResult } from '../types.js';
+import { MAX_READ_OUTPUT_BYTES } from '../config.js';
+import { OutputBuffer } from '../output-buffer.js';
+import { CompletedSession, KillReason, OutputReadResult, ServerResult } from '../types.js';
+
+const KILL_REASONS: Record<KillReason, string> = {
+  max_runtime: 'exceeded max_runtime_ms',
+  max_output: 'exceeded max_output_bytes',
+  cpu_limit: 'exceeded max_cpu_seconds',
+  terminated: 'terminated on request'
+};
+
+/**
+ * Get the end of a captured stream, at most one read page long
+ */
+function streamTail(buffer: OutputBuffer): { text: string; truncated: boolean } {
+  const slice = buffer.read(Math.max(0, buffer.end - MAX_READ_OUTPUT_BYTES));
+  return { text: slice.text, truncated: slice.offset > 0 };
+}
+
+/**
+ * Format the human readable result of a finished command
+ */
+function formatCompletedText(session: CompletedSession): string {
+  const stdout = streamTail(session.stdout);
+  const stderr = streamTail(session.stderr);
+  const truncatedNote = ' (truncated, showing the end; use read_output with offset to page through the output)';
+
+  let text = `Exit code: ${session.exitCode}${session.signal ? ` (signal ${session.signal})` : ''}\n`;
+  if (session.killReason) {
+    text += `Killed: ${KILL_REASONS[session.killReason]}\n`;
+  }
+  text += `Duration: ${(session.durationMs / 1000).toFixed(2)}s\n`;
+  text += `\n===== STDOUT =====${stdout.truncated ? truncatedNote : ''}\n${stdout.text.replace(/\n$/, '') || '(no output)'}\n`;
+  if (stderr.text) {
+    text += `\n===== STDERR =====${stderr.truncated ? truncatedNote : ''}\n${stderr.text.replace(/\n$/, '')}\n`;
+  }
+  return text;
+}
+
+/**
+ * Build the structuredContent payload for a finished command
+ */
+function completedStructuredContent(session: CompletedSession): Record<string, unknown> {
+  const stdout = streamTail(session.stdout);
+  const stderr = streamTail(session.stderr);
+  return {
+    pid: session.pid,
+    status: 'completed',
+    command: session.command,
+    cwd: session.cwd,
+    exitCode: session.exitCode,
+    signal: session.signal,
+    success: session.exitCode === 0,
+    durationMs: session.durationMs,
+    killReason: session.killReason,
+    stdout: stdout.text,
+    stderr: stderr.text,
+    stdoutTruncated: stdout.truncated,
+    stderrTruncated: stderr.truncated
+  };
+}
+
+/**
+ * Describe the position of a paged read so the client knows how to continue
+ */
+function formatReadPosition(result: OutputReadResult, paged: boolean): string {
+  if (paged) {
+    return `\n[Output bytes ${result.offset}-${result.cursor} of ${result.totalBytes}${
+      result.hasMore ? `, continue with since_cursor: ${result.cursor}` : ''
+    }]`;
+  }
+  return result.hasMore ? '\n[More output available, call read_output again to continue]' : '';
+}
+
+/**
+ * Parse the contents of a dotenv file into key/value pairs.
+ * Supports comments, `export` prefixes and single/double quoted values.
+ */
+function parseEnvFile(content: string): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const match = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/);
+    if (!match) {
+      continue;
+    }
+
+    const [, key, rawValue] = match;
+    let value = rawValue;
+    if (value.startsWith('"') && value.lastIndexOf('"') > 0) {
+      value = value.slice(1, value.lastIndexOf('"'))
+        .replace(/\\n/g, '\n')
+        .replace(/\\r/g, '\r')
+        .replace(/\\t/g, '\t')
+        .replace(/\\"/g, '"');
+    } else if (value.startsWith("'") && value.lastIndexOf("'") > 0) {
+      value = value.slice(1, value.lastIndexOf("'"));
+    } else {
+      // Strip inline comments from unquoted values
+      value = value.replace(/\s+#.*$/, '').trim();
+    }
+    result[key] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Resolve the working directory and environment requested for a command.
+ * Paths are checked against allowedDirectories like any filesystem operation.
+ */
+export async function resolveCommandContext(data: { cwd?: string; env?: Record<string, string>; env_file?: string }): Promise<{ cwd?: string; env?: Record<string, string> }> {
+  // Variables such as PAGER, LESSOPEN or GIT_EXTERNAL_DIFF make read-only commands run other programs
+  if ((data.env || data.env_file) && await modeManager.getMode() === 'readonly') {
+    throw new Error('env and env_file are not available in readonly mode, environment variables can make read-only commands run other programs');
+  }
+
+  let cwd: string | undefined;
+  if (data.cwd) {
+    cwd = await validatePath(data.cwd);
+    const stats = await fs.stat(cwd).catch(() => null);
+    if (!stats || !stats.isDirectory()) {
+      throw new Error(`Working directory does not exist or is not a directory: ${data.cwd}`);
+    }
+  }
+
+  let env: Record<string, string> | undefined;
+  if (data.env_file) {
+    const envFilePath = await validatePath(data.env_file);
+    const content = await fs.readFile(envFilePath, 'utf-8');
+    env = parseEnvFile(content);
+  }
+  if (data.env) {
+    // Explicit values take precedence over the env file
+    env = { ...(env || {}), ...data.env };
+  }
+
+  return { cwd, env };
+}
 
 export async function executeCommand(args: unknown): Promise<ServerResult> {
   const parsed = ExecuteCommandArgsSchema.safeParse(args);
@@ -28,11 +177,21 @@ export async function executeCommand(args: unknown): Promise<ServerResult> {
     });
   }
 
-  // Command validation is now async
-  const isAllowed = await commandManager.validateCommand(parsed.data.command);
-  if (!isAllowed) {
+  let context: { cwd?: string; env?: Record<string, string> };
+  try {
+    context = await resolveCommandContext(parsed.data);
+  } catch (error) {
+    return {
+      content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+
+  // Checked in the working directory, which may have its own command policy
+  const check = await commandManager.checkCommand(parsed.data.command, context.cwd);
+  if (!check.allowed) {
     return {
-      content: [{ type: "text", text: `Error: Command not allowed: ${parsed.data.command}` }],
+      content: [{ type: "text", text: `Error: ${commandManager.formatDenial(parsed.data.command, check)}` }],
       isError: true,
     };
   }
@@ -40,7 +199,22 @@ export async function executeCommand(args: unknown): Promise<ServerResult> {
   const result = await terminalManager.executeCommand(
     parsed.data.command,
     parsed.data.timeout_ms,
-    parsed.data.shell
+    parsed.data.shell,
+    {
+      pty: parsed.data.pty,
+      cols: parsed.data.cols,
+      rows: parsed.data.rows,
+      cwd: context.cwd,
+      env: context.env,
+      envMode: parsed.data.env_mode,
+      maxRuntimeMs: parsed.data.max_runtime_ms,
+      maxOutputBytes: parsed.data.max_output_bytes,
+      limits: {
+        memoryBytes: parsed.data.max_memory_mb !== undefined ? parsed.data.max_memory_mb * 1024 * 1024 : undefined,
+        cpuSeconds: parsed.data.max_cpu_seconds,
+        openFiles: parsed.data.max_open_files
+      }
+    }
   );
 
   // Check for error condition (pid = -1)
@@ -51,13 +225,37 @@ export async function executeCommand(args: unknown): Promise<ServerResult> {
     };
   }
 
+  if (result.isBlocked) {
+    return {
+      content: [{
+        type: "text",
+        text: `Command started with PID ${result.pid}\nInitial output:\n${result.output}\nCommand is still running. Use read_output to get more output.`
+      }],
+      structuredContent: {
+        pid: result.pid,
+        status: 'running',
+        command: parsed.data.command,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        stdoutTruncated: result.stdoutTruncated,
+        stderrTruncated: result.stderrTruncated
+      },
+    };
+  }
+
+  const completed = terminalManager.getCompletedSession(result.pid);
+  if (!completed) {
+    return {
+      content: [{ type: "text", text: `Command completed with PID ${result.pid}\nOutput:\n${result.output}` }],
+    };
+  }
+
   return {
     content: [{
       type: "text",
-      text: `Command started with PID ${result.pid}\nInitial output:\n${result.output}${
-        result.isBlocked ? '\nCommand is still running. Use read_output to get more output.' : ''
-      }`
+      text: `Command completed with PID ${result.pid}\n${formatCompletedText(completed)}`
     }],
+    structuredContent: completedStructuredContent(completed),
   };
 }
 
@@ -70,17 +268,133 @@ export async function readOutput(args: unknown): Promise<ServerResult> {
     };
   }
 
-  const output = terminalManager.getNewOutput(parsed.data.pid);
+  const { pid, format, offset, length, tail_lines, since_cursor } = parsed.data;
+  let result: OutputReadResult | null;
+  try {
+    result = terminalManager.readOutput(pid, {
+      format,
+      offset,
+      length,
+      tailLines: tail_lines,
+      sinceCursor: since_cursor
+    });
+  } catch (error) {
+    return {
+      content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+  if (result === null) {
+    return {
+      content: [{ type: "text", text: `No session found for PID ${pid}` }],
+    };
+  }
+
+  const paged = offset !== undefined || tail_lines !== undefined || since_cursor !== undefined;
+  let output = result.text;
+  if (result.droppedBytes > 0) {
+    output = `[${result.droppedBytes} bytes of earlier output are no longer available]\n${output}`;
+  }
+  if (format !== 'screen') {
+    output += formatReadPosition(result, paged);
+  }
+
+  const position = {
+    offset: result.offset,
+    cursor: result.cursor,
+    totalBytes: result.totalBytes,
+    hasMore: result.hasMore
+  };
+
+  const completed = result.isRunning ? undefined : terminalManager.getCompletedSession(pid);
+  if (completed) {
+    const runtime = completed.durationMs / 1000;
+    const signalInfo = completed.signal ? ` (signal ${completed.signal})` : '';
+    const killInfo = completed.killReason ? `\nKilled: ${KILL_REASONS[completed.killReason]}` : '';
+    return {
+      content: [{
+        type: "text",
+        text: `Process completed with exit code ${completed.exitCode}${signalInfo}${killInfo}\nRuntime: ${runtime}s\n${paged ? 'Output' : 'Final output'}:\n${output}`
+      }],
+      structuredContent: { ...completedStructuredContent(completed), output: result.text, ...position },
+    };
+  }
+
   return {
     content: [{
       type: "text",
-      text: output === null
-        ? `No session found for PID ${parsed.data.pid}`
-        : output || 'No new output available'
+      text: output || 'No new output available'
     }],
+    structuredContent: { pid, status: 'running', output: result.text, ...position },
   };
 }
 
+export async function sendInput(args: unknown): Promise<ServerResult> {
+  const parsed = SendInputArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for send_input: ${parsed.error}` }],
+      isError: true,
+    };
+  }
+
+  // Input to a shell or pager could run anything, readonly mode only sends it to read-only commands
+  const session = terminalManager.getSessionCommand(parsed.data.pid);
+  if (session) {
+    const check = await commandManager.checkSessionInput(session);
+    if (!check.allowed) {
+      return {
+        content: [{ type: "text", text: `Error: Input not sent to PID ${parsed.data.pid} (${check.reason})` }],
+        isError: true,
+      };
+    }
+  }
+
+  // A shell session runs its input as commands, which are checked like run_in_shell commands
+  const shell = shellManager.listShells().find(info => info.pid === parsed.data.pid);
+  if (shell && parsed.data.input) {
+    const text = parsed.data.input + (parsed.data.newline === false ? '' : '\n');
+    const check = await commandManager.checkShellInput(text, shell.cwd);
+    if (!check.allowed) {
+      return {
+        content: [{ type: "text", text: `Error: ${commandManager.formatDenial(parsed.data.input, check)}` }],
+        isError: true,
+      };
+    }
+  }
+
+  try {
+    const result = await terminalManager.sendInput(parsed.data.pid, parsed.data.input, {
+      newline: parsed.data.newline,
+      eof: parsed.data.eof,
+      ctrlC: parsed.data.ctrl_c,
+      settleMs: parsed.data.settle_ms,
+      maxWaitMs: parsed.data.timeout_ms
+    });
+
+    if (result === null) {
+      return {
+        content: [{ type: "text", text: `No active session found for PID ${parsed.data.pid}` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: `${result.output || 'No new output available'}${
+          result.isRunning ? '' : '\nProcess has exited. Use read_output to get the final status.'
+        }`
+      }],
+    };
+  } catch (error) {
+    return {
+      content: [{ type: "text", text: `Error: Failed to send input: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+}
+
 export async function forceTerminate(args: unknown): Promise<ServerResult> {
   const parsed = ForceTerminateArgsSchema.safeParse(args);
   if (!parsed.success) {
@@ -90,14 +404,32 @@ export async function forceTerminate(args: unknown): Promise<ServerResult> {
     };
   }
 
-  const success = terminalManager.forceTerminate(parsed.data.pid);
+  let signal: NodeJS.Signals | undefined;
+  if (parsed.data.signal) {
+    signal = normalizeSignal(parsed.data.signal) ?? undefined;
+    if (!signal) {
+      return {
+        content: [{ type: "text", text: `Error: Unknown signal: ${parsed.data.signal}` }],
+        isError: true,
+      };
+    }
+  }
+
+  const result = await terminalManager.forceTerminate(parsed.data.pid, { signal, tree: parsed.data.tree });
+  if (!result) {
+    return {
+      content: [{ type: "text", text: `No active session found for PID ${parsed.data.pid}` }],
+    };
+  }
+
   return {
     content: [{
       type: "text",
-      text: success
-        ? `Successfully initiated termination of session ${parsed.data.pid}`
-        : `No active session found for PID ${parsed.data.pid}`
+      text: `Successfully initiated termination of session ${parsed.data.pid}\n${formatSignalResult(result)}${
+        signal ? '' : '\nProcesses still running after 1s will receive SIGKILL.'
+      }`
     }],
+    structuredContent: { pid: parsed.data.pid, ...result },
   };
 }
 
@@ -109,7 +441,9 @@ export async function listSessions() {
       text: sessions.length === 0
         ? 'No active sessions'
         : sessions.map(s =>
-            `PID: ${s.pid}, Blocked: ${s.isBlocked}, Runtime: ${Math.round(s.runtime / 1000)}s`
+            `PID: ${s.pid}, Blocked: ${s.isBlocked}, Runtime: ${Math.round(s.runtime / 1000)}s, Cwd: ${s.cwd}, Env: ${
+              s.envKeys.length > 0 ? s.envKeys.join(', ') : '(inherited)'
+            } (${s.envMode})${s.reattached ? ', re-attached after restart (no input)' : ''}`
           ).join('\n')
     }],
   };
@@ -2,11 +2,19 @@ import fs from "fs/promises";
 import path from "path";
 import os from 'os';
 import fetch from 'cross-fetch';
+import {minimatch} from 'minimatch';
 import {capture, withTimeout} from '../utils.js';
 import {configManager} from '../config-manager.js';
+import {rootsManager} from '../client-roots.js';
+import {CONFIG_DIR} from '../config.js';
+
+export type PathOperation = 'read' | 'write';
+
+// Access a pathPermissions rule leaves inside the allowed directories, write includes read
+export type PathPermission = 'read' | 'write' | 'none';
 
 // Initialize allowed directories from configuration
-async function getAllowedDirs(): Promise<string[]> {
+async function getConfiguredDirs(): Promise<string[]> {
     try {
         let allowedDirectories;
         const config = await configManager.getConfig();
@@ -28,9 +36,95 @@ async function getAllowedDirs(): Promise<string[]> {
     return [];
 }
 
-// Normalize all paths consistently
+/**
+ * The directories file operations are limited to: the allowedDirectories setting, the
+ * workspace roots of the client or both, depending on allowedDirectoriesSource
+ *
+ * @returns Promise<string[]> The allowed directories
+ */
+export async function getAllowedDirs(): Promise<string[]> {
+    const configured = await getConfiguredDirs();
+    const config = await configManager.getConfig();
+    return rootsManager.allowedDirectories(configured, config.allowedDirectoriesSource);
+}
+
+// Normalize all paths consistently, keeping their case
 function normalizePath(p: string): string {
-    return path.normalize(expandHome(p)).toLowerCase();
+    let normalized = path.normalize(expandHome(p));
+    if (normalized.length > 1 && normalized.endsWith(path.sep) && path.dirname(normalized) !== normalized) {
+        normalized = normalized.slice(0, -1);
+    }
+    return normalized;
+}
+
+// Windows and macOS file systems ignore case unless formatted otherwise
+const CASE_INSENSITIVE_BY_DEFAULT = process.platform === 'win32' || process.platform === 'darwin';
+
+const caseSensitivity = new Map<string, boolean>();
+
+function swapCase(name: string): string {
+    return [...name].map(char => char === char.toLowerCase() ? char.toUpperCase() : char.toLowerCase()).join('');
+}
+
+/**
+ * Whether the file system holding a directory tells names apart by case. Found out by
+ * looking the directory up under its name with the case swapped, cached per directory.
+ *
+ * @param directory Real path of an existing directory
+ * @returns boolean True if names differing only in case are different files
+ */
+async function isCaseSensitive(directory: string): Promise<boolean> {
+    const cached = caseSensitivity.get(directory);
+    if (cached !== undefined) {
+        return cached;
+    }
+    const name = path.basename(directory);
+    const swapped = swapCase(name);
+    if (swapped === name) {
+        // Nothing to swap, e.g. the root directory
+        return !CASE_INSENSITIVE_BY_DEFAULT;
+    }
+    let original;
+    try {
+        original = await fs.stat(directory);
+    } catch {
+        return !CASE_INSENSITIVE_BY_DEFAULT;
+    }
+    let sensitive = true;
+    try {
+        const variant = await fs.stat(path.join(path.dirname(directory), swapped));
+        sensitive = variant.dev !== original.dev || variant.ino !== original.ino;
+    } catch {
+        // The swapped name does not exist, so case matters
+    }
+    caseSensitivity.set(directory, sensitive);
+    return sensitive;
+}
+
+/**
+ * Resolve symlinks in a path that may not exist yet, one name at a time like the
+ * operating system does, so ".." after a symlink leads to the parent of its target.
+ * Once a name does not exist the rest of the path is appended as written.
+ *
+ * @param absolutePath Absolute path, ".." not yet resolved
+ * @returns Promise<string> The real path
+ */
+async function resolveRealPath(absolutePath: string): Promise<string> {
+    const { root } = path.parse(absolutePath);
+    const names = absolutePath.slice(root.length).split(/[\\/]+/).filter(name => name !== '' && name !== '.');
+    let current = await fs.realpath(root).catch(() => root);
+    for (let index = 0; index < names.length; index++) {
+        if (names[index] === '..') {
+            current = path.dirname(current);
+            continue;
+        }
+        try {
+            current = await fs.realpath(path.join(current, names[index]));
+        } catch {
+            return path.join(current, ...names.slice(index));
+        }
+    }
+    return current;
 }
 
 function expandHome(filepath: string): string {
@@ -41,90 +135,157 @@ function expandHome(filepath: string): string {
 }
 
 /**
- * Recursively validates parent directories until it finds a valid one
- * This function handles the case where we need to create nested directories
- * and we need to check if any of the parent directories exist
- * 
- * @param directoryPath The path to validate
- * @returns Promise<boolean> True if a valid parent directory was found
+ * Whether a path is in the server's own directory, which holds the config, the pending
+ * approvals and the audit log. Tools never write there, whatever the path settings say,
+ * so that a tool call cannot approve itself or change the policy.
+ *
+ * @param filePath Path to check, symlinks in it are resolved
+ * @returns boolean True if the path or its real path is in the server's directory
  */
-async function validateParentDirectories(directoryPath: string): Promise<boolean> {
-    const parentDir = path.dirname(directoryPath);
-    
-    // Base case: we've reached the root or the same directory (shouldn't happen normally)
-    if (parentDir === directoryPath || parentDir === path.dirname(parentDir)) {
-        return false;
+export async function isServerStatePath(filePath: string): Promise<boolean> {
+    const absolute = path.resolve(expandHome(filePath));
+    const candidates = [absolute, await resolveRealPath(absolute)];
+    const directories = [path.resolve(CONFIG_DIR), await resolveRealPath(path.resolve(CONFIG_DIR))];
+    return candidates.some(candidate => directories.some(directory => {
+        const relative = path.relative(directory, candidate);
+        const inside = relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+        return inside || (CASE_INSENSITIVE_BY_DEFAULT && candidate.toLowerCase().startsWith(directory.toLowerCase() + path.sep));
+    }));
+}
+
+/**
+ * Turn a deniedPaths or pathPermissions pattern into an absolute glob.
+ * Relative patterns match at any depth, e.g. ".env" matches every .env file.
+ */
+function absolutePattern(pattern: string): string {
+    const expanded = expandHome(pattern.trim());
+    if (path.isAbsolute(expanded)) {
+        return path.resolve(expanded);
     }
+    return `**/${expanded.replace(/^\.[\\/]/, '').replace(/[\\/]+$/, '')}`;
+}
 
+// A pattern matches a path and everything below it
+function matchesPattern(absolutePath: string, glob: string, nocase: boolean): boolean {
+    for (let current = absolutePath; ; current = path.dirname(current)) {
+        if (minimatch(current, glob, { dot: true, nocase })) {
+            return true;
+        }
+        if (path.dirname(current) === current) {
+            return false;
+        }
+    }
+}
+
+/**
+ * Check an operation against deniedPaths, which always wins, and the most specific
+ * matching pathPermissions rule. The rules only take access away, paths still have to
+ * be inside the allowed directories.
+ *
+ * @param absolutePath Path to check
+ * @param operation Whether the path is read or written
+ * @returns Why the operation is not permitted, or null if no rule forbids it
+ */
+async function checkPathRules(absolutePath: string, operation: PathOperation): Promise<string | null> {
+    const config = await configManager.getConfig();
+
+    const deniedPaths: string[] = Array.isArray(config.deniedPaths) ? config.deniedPaths : [];
+    // Denied paths ignore case, a denial is never weakened by spelling a name differently
+    const denied = deniedPaths.find(pattern => typeof pattern === 'string' && matchesPattern(absolutePath, absolutePattern(pattern), true));
+    if (denied !== undefined) {
+        return `matches deniedPaths pattern "${denied}"`;
+    }
+
+    const permissions: Record<string, PathPermission> = config.pathPermissions || {};
+    const rule = Object.keys(permissions)
+        .map(pattern => ({ pattern, glob: absolutePattern(pattern) }))
+        .filter(({ glob }) => matchesPattern(absolutePath, glob, CASE_INSENSITIVE_BY_DEFAULT))
+        .sort((a, b) => b.glob.length - a.glob.length)[0];
+    if (!rule) {
+        return null;
+    }
+    const permission = permissions[rule.pattern];
+    if (permission === 'write' || (permission === 'read' && operation === 'read')) {
+        return null;
+    }
+    return permission === 'read'
+        ? `read-only by pathPermissions "${rule.pattern}"`
+        : `not accessible by pathPermissions "${rule.pattern}": "${permission}"`;
+}
+
+/**
+ * Whether an operation on a path is permitted, without throwing
+ *
+ * @param filePath Path to check
+ * @param operation Whether the path is read or written
+ */
+export async function canAccessPath(filePath: string, operation: PathOperation): Promise<boolean> {
     try {
-        // Check if the parent directory exists
-        await fs.realpath(parentDir);
+        await validatePath(filePath, operation);
         return true;
     } catch {
-        // Parent doesn't exist, recursively check its parent
-        return validateParentDirectories(parentDir);
+        return false;
     }
 }
 
 /**
- * Checks if a path is within any of the allowed directories
+ * Checks if a path is within any of the allowed directories. Allowed directories are
+ * resolved to their real paths and compared case-sensitively on file systems that are.
  * 
- * @param pathToCheck Path to check
+ * @param pathToCheck Real path to check
  * @returns boolean True if path is allowed
  */
 async function isPathAllowed(pathToCheck: string): Promise<boolean> {
     // If root directory is allowed, all paths are allowed
     const allowedDirectories = await getAllowedDirs();
-    if (allowedDirectories.includes('/') || allowedDirectories.length === 0) {
+    if (allowedDirectories.includes('/')) {
         return true;
     }
-
-    let normalizedPathToCheck = normalizePath(pathToCheck);
-    if(normalizedPathToCheck.slice(-1) === path.sep) {
-        normalizedPathToCheck = normalizedPathToCheck.slice(0, -1);
+    // An empty allowedDirectories setting allows everything, an empty list of client roots nothing
+    if (allowedDirectories.length === 0) {
+        const config = await configManager.getConfig();
+        return !rootsManager.usesRoots(config.allowedDirectoriesSource);
     }
 
+    const normalizedPathToCheck = normalizePath(pathToCheck);
+
     // Check if the path is within any allowed directory
-    const isAllowed = allowedDirectories.some(allowedDir => {
-        let normalizedAllowedDir = normalizePath(allowedDir);
-        if(normalizedAllowedDir.slice(-1) === path.sep) {
-            normalizedAllowedDir = normalizedAllowedDir.slice(0, -1);
-        }
+    for (const allowedDir of allowedDirectories) {
+        const normalizedAllowedDir = normalizePath(await resolveRealPath(path.resolve(expandHome(allowedDir))));
+        const caseSensitive = await isCaseSensitive(normalizedAllowedDir);
+        const comparedPath = caseSensitive ? normalizedPathToCheck : normalizedPathToCheck.toLowerCase();
+        const comparedDir = caseSensitive ? normalizedAllowedDir : normalizedAllowedDir.toLowerCase();
 
         // Check if path is exactly the allowed directory
-        if (normalizedPathToCheck === normalizedAllowedDir) {
+        if (comparedPath === comparedDir) {
             return true;
         }
-        
+
         // Check if path is a subdirectory of the allowed directory
         // Make sure to add a separator to prevent partial directory name matches
         // e.g. /home/user vs /home/username
-        const subdirCheck = normalizedPathToCheck.startsWith(normalizedAllowedDir + path.sep);
-        if (subdirCheck) {
+        const prefix = comparedDir.endsWith(path.sep) ? comparedDir : comparedDir + path.sep;
+        if (comparedPath.startsWith(prefix)) {
             return true;
         }
-        
-        // If allowed directory is the root (C:\ on Windows), allow access to the entire drive
-        if (normalizedAllowedDir === 'c:' && process.platform === 'win32') {
-            return normalizedPathToCheck.startsWith('c:');
-        }
-
-        return false;
-    });
+    }
 
-    return isAllowed;
+    return false;
 }
 
 /**
  * Validates a path to ensure it can be accessed or created.
- * For existing paths, returns the real path (resolving symlinks).
- * For non-existent paths, validates parent directories to ensure they exist.
+ * Symlinks are resolved before any check, for paths that do not exist yet those of the
+ * nearest existing parent, so a link cannot lead out of the allowed directories.
+ * Writes to the server's own directory are always refused. deniedPaths and pathPermissions
+ * are checked for the operation first, then allowedDirectories, which pathPermissions cannot widen.
  * 
  * @param requestedPath The path to validate
- * @returns Promise<string> The validated path
- * @throws Error if the path or its parent directories don't exist or if the path is not allowed
+ * @param operation Whether the path will be read or written
+ * @returns Promise<string> The real path
+ * @throws Error if the path is not allowed
  */
-export async function validatePath(requestedPath: string): Promise<string> {
+export async function validatePath(requestedPath: string, operation: PathOperation = 'read'): Promise<string> {
     const PATH_VALIDATION_TIMEOUT = 10000; // 10 seconds timeout
     
     const validationOperation = async (): Promise<string> => {
@@ -136,26 +297,32 @@ export async function validatePath(requestedPath: string): Promise<string> {
             ? path.resolve(expandedPath)
             : path.resolve(process.cwd(), expandedPath);
             
-        // Check if path is allowed
-        if (!(await isPathAllowed(absolute))) {
-            throw(`Path not allowed: ${requestedPath}. Must be within one of these directories: ${(await getAllowedDirs()).join(', ')}`);
+        const realPath = await resolveRealPath(path.isAbsolute(expandedPath)
+            ? expandedPath
+            : `${process.cwd()}${path.sep}${expandedPath}`);
+        const target = realPath === absolute ? '' : ` resolves to ${realPath}`;
+
+        if (operation === 'write' && await isServerStatePath(absolute)) {
+            throw new Error(`Path not allowed: ${requestedPath}${target} (the server's config, pending approvals and audit log cannot be written)`);
         }
-        
-        // Check if path exists
-        try {
-            const stats = await fs.stat(absolute);
-            // If path exists, resolve any symlinks
-            return await fs.realpath(absolute);
-        } catch (error) {
-            // Path doesn't exist - validate parent directories
-            if (await validateParentDirectories(absolute)) {
-                // Return the path if a valid parent exists
-                // This will be used for folder creation and many other file operations
-                return absolute;
-            }
-            // If no valid parent found, return the absolute path anyway
-            return absolute;
+
+        // Path rules take precedence over allowedDirectories, for the path as well as what it links to
+        const requestedDenial = realPath === absolute ? null : await checkPathRules(absolute, operation);
+        if (requestedDenial) {
+            throw new Error(`Path not allowed: ${requestedPath} (${requestedDenial})`);
+        }
+        const ruleDenial = await checkPathRules(realPath, operation);
+        if (ruleDenial) {
+            throw new Error(`Path not allowed: ${requestedPath}${target} (${ruleDenial})`);
         }
+        if (!(await isPathAllowed(realPath))) {
+            const allowedDirectories = await getAllowedDirs();
+            throw new Error(allowedDirectories.length === 0
+                ? `Path not allowed: ${requestedPath}${target}. The client has not listed any workspace roots`
+                : `Path not allowed: ${requestedPath}${target}. Must be within one of these directories: ${allowedDirectories.join(', ')}`);
+        }
+
+        return realPath;
     };
     
     // Execute with timeout
@@ -327,7 +494,7 @@ export async function readFile(filePath: string, isUrl?: boolean): Promise<FileR
 }
 
 export async function writeFile(filePath: string, content: string): Promise<void> {
-    const validPath = await validatePath(filePath);
+    const validPath = await validatePath(filePath, 'write');
     await fs.writeFile(validPath, content, "utf-8");
 }
 
@@ -364,19 +531,26 @@ export async function readMultipleFiles(paths: string[]): Promise<MultiFileResul
 }
 
 export async function createDirectory(dirPath: string): Promise<void> {
-    const validPath = await validatePath(dirPath);
+    const validPath = await validatePath(dirPath, 'write');
     await fs.mkdir(validPath, { recursive: true });
 }
 
 export async function listDirectory(dirPath: string): Promise<string[]> {
     const validPath = await validatePath(dirPath);
     const entries = await fs.readdir(validPath, { withFileTypes: true });
-    return entries.map((entry) => `${entry.isDirectory() ? "[DIR]" : "[FILE]"} ${entry.name}`);
+    const visible = [];
+    for (const entry of entries) {
+        // Entries hidden by deniedPaths or pathPermissions are left out
+        if (await canAccessPath(path.join(validPath, entry.name), 'read')) {
+            visible.push(entry);
+        }
+    }
+    return visible.map((entry) => `${entry.isDirectory() ? "[DIR]" : "[FILE]"} ${entry.name}`);
 }
 
 export async function moveFile(sourcePath: string, destinationPath: string): Promise<void> {
-    const validSourcePath = await validatePath(sourcePath);
-    const validDestPath = await validatePath(destinationPath);
+    const validSourcePath = await validatePath(sourcePath, 'write');
+    const validDestPath = await validatePath(destinationPath, 'write');
     await fs.rename(validSourcePath, validDestPath);
 }
 
@@ -0,0 +1,332 @@
+import fs from 'fs/promises';
+import os from 'os';
+import { ProcessInfo, ServerResult } from '../types.js';
+import { GetProcessInfoArgsSchema, FindProcessByPortArgsSchema } from './schemas.js';
+import { collectProcesses } from './process.js';
+
+interface SocketEntry {
+  protocol: 'tcp' | 'tcp6' | 'udp' | 'udp6';
+  address: string;
+  port: number;
+  inode: number;
+  listening: boolean;
+}
+
+interface PortListener {
+  protocol: SocketEntry['protocol'];
+  address: string;
+  port: number;
+  pid: number | null;
+  name: string | null;
+  command: string | null;
+}
+
+interface FileDescriptor {
+  fd: number;
+  target: string;
+}
+
+// Environment variables whose values are never shown
+const SECRET_ENV_KEY = /pass|secret|token|key|auth|credential|cookie|session|private|signature/i;
+
+function unsupportedPlatform(tool: string): ServerResult {
+  return {
+    content: [{ type: "text", text: `Error: ${tool} reads /proc and is only supported on Linux` }],
+    isError: true,
+  };
+}
+
+/**
+ * Decode a hex address from /proc/net/{tcp,udp}[6], e.g. 0100007F:0BB8 -> 127.0.0.1:3000
+ */
+function parseSocketAddress(hex: string, ipv6: boolean): { address: string; port: number } {
+  const [ip, portHex] = hex.split(':');
+  const port = parseInt(portHex, 16);
+
+  if (!ipv6) {
+    const bytes = (ip.match(/../g) || []).reverse().map(byte => parseInt(byte, 16));
+    return { address: bytes.join('.'), port };
+  }
+
+  // Four 32-bit words, each in host (little endian) byte order
+  const words = (ip.match(/.{8}/g) || []).map(word => (word.match(/../g) || []).reverse().join(''));
+  const groups = words.join('').match(/.{4}/g) || [];
+  const address = groups.map(group => parseInt(group, 16).toString(16)).join(':')
+    .replace(/(^|:)0(:0)+(:|$)/, '::');
+  return { address: `[${address}]`, port };
+}
+
+/**
+ * Read the TCP and UDP socket tables of a network namespace
+ */
+async function readSockets(netDir: string): Promise<SocketEntry[]> {
+  const sockets: SocketEntry[] = [];
+  for (const protocol of ['tcp', 'tcp6', 'udp', 'udp6'] as const) {
+    let table: string;
+    try {
+      table = await fs.readFile(`${netDir}/${protocol}`, 'utf8');
+    } catch {
+      // IPv6 may be disabled
+      continue;
+    }
+
+    for (const line of table.split('\n').slice(1)) {
+      const fields = line.trim().split(/\s+/);
+      if (fields.length < 10) continue;
+
+      const { address, port } = parseSocketAddress(fields[1], protocol.endsWith('6'));
+      const unconnected = /^0+:0+$/.test(fields[2]);
+      sockets.push({
+        protocol,
+        address,
+        port,
+        inode: parseInt(fields[9], 10),
+        // 0A is TCP_LISTEN; UDP sockets listen when they are bound but not connected
+        listening: protocol.startsWith('tcp') ? fields[3] === '0A' : unconnected
+      });
+    }
+  }
+  return sockets;
+}
+
+/**
+ * List the open file descriptors of a process
+ */
+async function readFileDescriptors(pid: number): Promise<FileDescriptor[]> {
+  const entries = await fs.readdir(`/proc/${pid}/fd`);
+  const fds = await Promise.all(entries.map(async entry => {
+    try {
+      return { fd: parseInt(entry, 10), target: await fs.readlink(`/proc/${pid}/fd/${entry}`) };
+    } catch {
+      // Closed while reading
+      return null;
+    }
+  }));
+  return fds.filter((fd): fd is FileDescriptor => fd !== null).sort((a, b) => a.fd - b.fd);
+}
+
+function socketInode(target: string): number | null {
+  const match = target.match(/^socket:\[(\d+)\]$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Find which processes hold the given socket inodes open
+ */
+async function findSocketOwners(inodes: Set<number>): Promise<Map<number, number[]>> {
+  const owners = new Map<number, number[]>();
+  const entries = await fs.readdir('/proc');
+  await Promise.all(entries.filter(entry => /^\d+$/.test(entry)).map(async entry => {
+    const pid = parseInt(entry, 10);
+    let fds: FileDescriptor[];
+    try {
+      fds = await readFileDescriptors(pid);
+    } catch {
+      // Exited or owned by another user
+      return;
+    }
+    for (const { target } of fds) {
+      const inode = socketInode(target);
+      if (inode !== null && inodes.has(inode)) {
+        const pids = owners.get(inode) || [];
+        if (!pids.includes(pid)) pids.push(pid);
+        owners.set(inode, pids);
+      }
+    }
+  }));
+  return owners;
+}
+
+async function readLink(path: string): Promise<string> {
+  try {
+    return await fs.readlink(path);
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EACCES' ? '(permission denied)' : '(unavailable)';
+  }
+}
+
+/**
+ * Read the environment of a process with secret-looking values masked
+ */
+async function readEnvironment(pid: number): Promise<Record<string, string>> {
+  const environ = await fs.readFile(`/proc/${pid}/environ`, 'utf8');
+  const env: Record<string, string> = {};
+  for (const entry of environ.split('\0').filter(Boolean)) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) continue;
+    const key = entry.slice(0, separator);
+    env[key] = SECRET_ENV_KEY.test(key) ? '***' : entry.slice(separator + 1);
+  }
+  return env;
+}
+
+function describe(p: ProcessInfo): string {
+  return `${p.pid} (${p.name}): ${p.command.replace(/\s*\n\s*/g, ' ')}`;
+}
+
+export async function getProcessInfo(args: unknown): Promise<ServerResult> {
+  const parsed = GetProcessInfoArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for get_process_info: ${parsed.error}` }],
+      isError: true,
+    };
+  }
+  if (os.platform() !== 'linux') {
+    return unsupportedPlatform('get_process_info');
+  }
+
+  const { pid, include_env, max_fds } = parsed.data;
+  try {
+    const processes = await collectProcesses();
+    const byPid = new Map(processes.map(p => [p.pid, p]));
+    const target = byPid.get(pid);
+    if (!target) {
+      return {
+        content: [{ type: "text", text: `Error: No process found with PID ${pid}` }],
+        isError: true,
+      };
+    }
+
+    const ancestors: ProcessInfo[] = [];
+    for (let parent = byPid.get(target.ppid); parent && !ancestors.includes(parent); parent = byPid.get(parent.ppid)) {
+      ancestors.push(parent);
+    }
+
+    const childLines: string[] = [];
+    const children: Array<{ pid: number; ppid: number; name: string; command: string }> = [];
+    const addChildren = (parentPid: number, depth: number) => {
+      for (const child of processes.filter(p => p.ppid === parentPid && p.pid !== parentPid)) {
+        childLines.push(`${'  '.repeat(depth)}${describe(child)}`);
+        children.push({ pid: child.pid, ppid: child.ppid, name: child.name, command: child.command });
+        addChildren(child.pid, depth + 1);
+      }
+    };
+    addChildren(pid, 1);
+
+    const [cwd, exe] = await Promise.all([readLink(`/proc/${pid}/cwd`), readLink(`/proc/${pid}/exe`)]);
+
+    let fds: FileDescriptor[] = [];
+    let fdError: string | null = null;
+    try {
+      fds = await readFileDescriptors(pid);
+    } catch (error) {
+      fdError = (error as NodeJS.ErrnoException).code === 'EACCES' ? 'permission denied' : 'unavailable';
+    }
+
+    // The process's own view of the network namespace
+    const inodes = new Set(fds.map(fd => socketInode(fd.target)).filter((inode): inode is number => inode !== null));
+    const listening = (await readSockets(`/proc/${pid}/net`)).filter(socket => socket.listening && inodes.has(socket.inode));
+
+    let env: Record<string, string> | null = null;
+    let envError: string | null = null;
+    if (include_env) {
+      try {
+        env = await readEnvironment(pid);
+      } catch (error) {
+        envError = (error as NodeJS.ErrnoException).code === 'EACCES' ? 'permission denied' : 'unavailable';
+      }
+    }
+
+    const lines = [
+      `PID: ${target.pid} (${target.name})`,
+      `Command: ${target.command}`,
+      `Executable: ${exe}`,
+      `Cwd: ${cwd}`,
+      `User: ${target.user}, CPU: ${target.cpu}%, Memory: ${target.memory}%, Started: ${target.startTime ? target.startTime.toISOString() : 'unknown'}`,
+      `Parents: ${ancestors.length > 0 ? ancestors.map(p => `${p.pid} (${p.name})`).join(' <- ') : '(none)'}`,
+      `Children:${childLines.length > 0 ? '\n' + childLines.join('\n') : ' (none)'}`,
+      `Listening sockets:${listening.length > 0
+        ? '\n' + listening.map(socket => `  ${socket.protocol} ${socket.address}:${socket.port}`).join('\n')
+        : fdError ? ` (${fdError})` : ' (none)'}`,
+      `Open file descriptors${fdError ? `: (${fdError})` : ` (${Math.min(fds.length, max_fds)} of ${fds.length}):`}`,
+      ...fds.slice(0, max_fds).map(fd => `  ${fd.fd} -> ${fd.target}`)
+    ];
+    if (include_env) {
+      lines.push(env
+        ? `Environment (secret values masked):\n${Object.entries(env).map(([key, value]) => `  ${key}=${value}`).join('\n')}`
+        : `Environment: (${envError})`);
+    }
+
+    return {
+      content: [{ type: "text", text: lines.join('\n') }],
+      structuredContent: {
+        ...target,
+        startTime: target.startTime?.toISOString() ?? null,
+        executable: exe,
+        cwd,
+        parents: ancestors.map(p => ({ pid: p.pid, name: p.name })),
+        children,
+        listeningSockets: listening.map(({ protocol, address, port }) => ({ protocol, address, port })),
+        fileDescriptors: fds.slice(0, max_fds),
+        fileDescriptorCount: fds.length,
+        env
+      },
+    };
+  } catch (error) {
+    return {
+      content: [{ type: "text", text: `Error: Failed to get process info: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function findProcessByPort(args: unknown): Promise<ServerResult> {
+  const parsed = FindProcessByPortArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for find_process_by_port: ${parsed.error}` }],
+      isError: true,
+    };
+  }
+  if (os.platform() !== 'linux') {
+    return unsupportedPlatform('find_process_by_port');
+  }
+
+  const { port, protocol } = parsed.data;
+  try {
+    const sockets = (await readSockets('/proc/net'))
+      .filter(socket => socket.listening && socket.port === port && (!protocol || socket.protocol.startsWith(protocol)));
+    if (sockets.length === 0) {
+      return {
+        content: [{ type: "text", text: `No process is listening on port ${port}${protocol ? ` (${protocol})` : ''}` }],
+        structuredContent: { port, listeners: [] },
+      };
+    }
+
+    const owners = await findSocketOwners(new Set(sockets.map(socket => socket.inode)));
+    const byPid = new Map((await collectProcesses()).map(p => [p.pid, p]));
+
+    const listeners = sockets.flatMap((socket): PortListener[] => {
+      const pids = owners.get(socket.inode) || [];
+      if (pids.length === 0) {
+        return [{ protocol: socket.protocol, address: socket.address, port, pid: null, name: null, command: null }];
+      }
+      return pids.map(pid => ({
+        protocol: socket.protocol,
+        address: socket.address,
+        port,
+        pid,
+        name: byPid.get(pid)?.name ?? null,
+        command: byPid.get(pid)?.command ?? null
+      }));
+    });
+
+    return {
+      content: [{
+        type: "text",
+        text: listeners.map(listener => `${listener.protocol} ${listener.address}:${listener.port} -> ${
+          listener.pid === null
+            ? 'owner not visible (process of another user or namespace)'
+            : `PID ${listener.pid} (${listener.name}): ${listener.command}`
+        }`).join('\n')
+      }],
+      structuredContent: { port, listeners },
+    };
+  } catch (error) {
+    return {
+      content: [{ type: "text", text: `Error: Failed to find process by port: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+}
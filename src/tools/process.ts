@@ -1,35 +1,260 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import fs from 'fs/promises';
 import os from 'os';
+import path from 'path';
 import { ProcessInfo, ServerResult } from '../types.js';
-import { KillProcessArgsSchema } from './schemas.js';
+import { ListProcessesArgsSchema, KillProcessArgsSchema } from './schemas.js';
+import { normalizeSignal, signalProcesses, SignalResult } from '../process-tree.js';
 
 const execAsync = promisify(exec);
 
-export async function listProcesses(): Promise<ServerResult> {
-  const command = os.platform() === 'win32' ? 'tasklist' : 'ps aux';
+type ProcessSortKey = 'pid' | 'cpu' | 'memory' | 'start_time' | 'name';
+
+/**
+ * Read a single value from getconf, falling back to a default
+ */
+async function getconf(name: string, fallback: number): Promise<number> {
+  try {
+    const { stdout } = await execAsync(`getconf ${name}`);
+    const value = parseInt(stdout.trim(), 10);
+    return isNaN(value) ? fallback : value;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Map numeric user ids to names using /etc/passwd
+ */
+async function readUserNames(): Promise<Map<number, string>> {
+  const users = new Map<number, string>();
   try {
-    const { stdout } = await execAsync(command);
-    const processes = stdout.split('\n')
-      .slice(1)
-      .filter(Boolean)
-      .map(line => {
-        const parts = line.split(/\s+/);
-        return {
-          pid: parseInt(parts[1]),
-          command: parts[parts.length - 1],
-          cpu: parts[2],
-          memory: parts[3],
-        } as ProcessInfo;
+    const passwd = await fs.readFile('/etc/passwd', 'utf8');
+    for (const line of passwd.split('\n')) {
+      const [userName, , uid] = line.split(':');
+      if (userName && uid !== undefined) {
+        users.set(parseInt(uid, 10), userName);
+      }
+    }
+  } catch {
+    // Fall back to numeric ids
+  }
+  return users;
+}
+
+/**
+ * Collect processes from /proc (Linux)
+ */
+async function collectFromProc(): Promise<ProcessInfo[]> {
+  const [clockTicks, users, procStat, uptimeText, meminfo, entries] = await Promise.all([
+    getconf('CLK_TCK', 100),
+    readUserNames(),
+    fs.readFile('/proc/stat', 'utf8'),
+    fs.readFile('/proc/uptime', 'utf8'),
+    fs.readFile('/proc/meminfo', 'utf8'),
+    fs.readdir('/proc')
+  ]);
+
+  const bootTime = parseInt(procStat.match(/^btime\s+(\d+)/m)?.[1] || '0', 10);
+  const uptime = parseFloat(uptimeText.split(' ')[0]);
+  const memTotalKb = parseInt(meminfo.match(/^MemTotal:\s+(\d+)/m)?.[1] || '0', 10);
+
+  const processes: ProcessInfo[] = [];
+  await Promise.all(entries.filter(entry => /^\d+$/.test(entry)).map(async entry => {
+    try {
+      const [stat, status, cmdline] = await Promise.all([
+        fs.readFile(`/proc/${entry}/stat`, 'utf8'),
+        fs.readFile(`/proc/${entry}/status`, 'utf8'),
+        fs.readFile(`/proc/${entry}/cmdline`, 'utf8')
+      ]);
+
+      // The name may contain spaces and parentheses, the remaining fields follow the last ')'
+      const name = stat.slice(stat.indexOf('(') + 1, stat.lastIndexOf(')'));
+      const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+      const ppid = parseInt(fields[1], 10);
+      const cpuSeconds = (parseInt(fields[11], 10) + parseInt(fields[12], 10)) / clockTicks;
+      const startedAfterBoot = parseInt(fields[19], 10) / clockTicks;
+      const elapsed = uptime - startedAfterBoot;
+
+      const uid = parseInt(status.match(/^Uid:\s+(\d+)/m)?.[1] || '-1', 10);
+      const rssKb = parseInt(status.match(/^VmRSS:\s+(\d+)/m)?.[1] || '0', 10);
+      const args = cmdline.split('\0').filter(Boolean);
+
+      processes.push({
+        pid: parseInt(entry, 10),
+        ppid,
+        user: users.get(uid) ?? String(uid),
+        name,
+        // Kernel threads have no command line
+        command: args.length > 0 ? args.join(' ') : `[${name}]`,
+        cpu: elapsed > 0 ? Math.round((cpuSeconds / elapsed) * 1000) / 10 : 0,
+        memory: memTotalKb > 0 ? Math.round((rssKb / memTotalKb) * 1000) / 10 : 0,
+        rssKb,
+        startTime: bootTime > 0 ? new Date((bootTime + startedAfterBoot) * 1000) : null
       });
+    } catch {
+      // Process exited while reading
+    }
+  }));
+  return processes;
+}
+
+/**
+ * Collect processes with ps (macOS and other Unix systems)
+ */
+async function collectFromPs(): Promise<ProcessInfo[]> {
+  // lstart is always five tokens and args comes last, so the command line keeps its spaces
+  const { stdout } = await execAsync('ps -axww -o pid=,ppid=,user=,%cpu=,%mem=,rss=,lstart=,args=', { maxBuffer: 32 * 1024 * 1024 });
+  return stdout.split('\n')
+    .map(line => line.trim().split(/\s+/))
+    .filter(parts => parts.length >= 12)
+    .map(parts => {
+      const command = parts.slice(11).join(' ');
+      const startTime = new Date(parts.slice(6, 11).join(' '));
+      return {
+        pid: parseInt(parts[0], 10),
+        ppid: parseInt(parts[1], 10),
+        user: parts[2],
+        name: path.basename(parts[11]),
+        command,
+        cpu: parseFloat(parts[3]),
+        memory: parseFloat(parts[4]),
+        rssKb: parseInt(parts[5], 10),
+        startTime: isNaN(startTime.getTime()) ? null : startTime
+      };
+    });
+}
+
+/**
+ * Collect processes with tasklist (Windows)
+ */
+async function collectFromTasklist(): Promise<ProcessInfo[]> {
+  const { stdout } = await execAsync('tasklist /FO CSV /NH', { maxBuffer: 32 * 1024 * 1024 });
+  return stdout.split(/\r?\n/)
+    .map(line => (line.match(/"([^"]*)"/g) || []).map(field => field.slice(1, -1)))
+    .filter(fields => fields.length >= 5)
+    .map(fields => ({
+      pid: parseInt(fields[1], 10),
+      ppid: 0,
+      user: '',
+      name: fields[0],
+      command: fields[0],
+      cpu: 0,
+      memory: 0,
+      rssKb: parseInt(fields[4].replace(/[^\d]/g, ''), 10) || 0,
+      startTime: null
+    }));
+}
+
+/**
+ * Collect all running processes using the best source for the platform
+ */
+export async function collectProcesses(): Promise<ProcessInfo[]> {
+  if (os.platform() === 'win32') {
+    return collectFromTasklist();
+  }
+  if (os.platform() === 'linux') {
+    try {
+      return await collectFromProc();
+    } catch {
+      // /proc not mounted, fall back to ps
+    }
+  }
+  return collectFromPs();
+}
+
+function compareProcesses(a: ProcessInfo, b: ProcessInfo, key: ProcessSortKey): number {
+  switch (key) {
+    case 'cpu':
+      return a.cpu - b.cpu;
+    case 'memory':
+      return a.rssKb - b.rssKb;
+    case 'start_time':
+      return (a.startTime?.getTime() ?? 0) - (b.startTime?.getTime() ?? 0);
+    case 'name':
+      return a.name.localeCompare(b.name);
+    default:
+      return a.pid - b.pid;
+  }
+}
+
+function formatProcess(p: ProcessInfo): string {
+  const rss = p.rssKb >= 1024 ? `${(p.rssKb / 1024).toFixed(1)} MB` : `${p.rssKb} KB`;
+  return `PID: ${p.pid}, PPID: ${p.ppid}, User: ${p.user}, CPU: ${p.cpu}%, Memory: ${p.memory}% (RSS ${rss}), ` +
+    `Started: ${p.startTime ? p.startTime.toISOString() : 'unknown'}, Command: ${p.command.replace(/\s*\n\s*/g, ' ')}`;
+}
+
+/**
+ * Describe which processes received a signal
+ */
+export function formatSignalResult(result: SignalResult): string {
+  let text = result.signaled.length > 0
+    ? `Sent ${result.signal} to PIDs: ${result.signaled.join(', ')}`
+    : `No process received ${result.signal}`;
+  if (result.failed.length > 0) {
+    text += `\nFailed: ${result.failed.map(failure => `${failure.pid} (${failure.error})`).join(', ')}`;
+  }
+  return text;
+}
+
+export async function listProcesses(args: unknown): Promise<ServerResult> {
+  const parsed = ListProcessesArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for list_processes: ${parsed.error}` }],
+      isError: true,
+    };
+  }
 
+  const { name, user, pattern, sort_by, order, limit } = parsed.data;
+  let regex: RegExp | null = null;
+  if (pattern) {
+    try {
+      regex = new RegExp(pattern);
+    } catch (error) {
+      return {
+        content: [{ type: "text", text: `Error: Invalid pattern: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  }
+
+  try {
+    let processes = await collectProcesses();
+    const total = processes.length;
+
+    if (name) {
+      const needle = name.toLowerCase();
+      processes = processes.filter(p => p.name.toLowerCase().includes(needle));
+    }
+    if (user) {
+      processes = processes.filter(p => p.user === user);
+    }
+    if (regex) {
+      processes = processes.filter(p => regex!.test(p.command));
+    }
+
+    // Usage and start time read most naturally highest/newest first
+    const direction = (order || (sort_by === 'pid' || sort_by === 'name' ? 'asc' : 'desc')) === 'asc' ? 1 : -1;
+    processes.sort((a, b) => direction * compareProcesses(a, b, sort_by));
+
+    const matched = processes.length;
+    if (limit !== undefined) {
+      processes = processes.slice(0, limit);
+    }
+
+    const header = `Showing ${processes.length} of ${matched} matching processes (${total} total)`;
     return {
       content: [{
         type: "text",
-        text: processes.map(p =>
-          `PID: ${p.pid}, Command: ${p.command}, CPU: ${p.cpu}, Memory: ${p.memory}`
-        ).join('\n')
+        text: [header, ...processes.map(formatProcess)].join('\n')
       }],
+      structuredContent: {
+        total,
+        matched,
+        processes: processes.map(p => ({ ...p, startTime: p.startTime?.toISOString() ?? null }))
+      },
     };
   } catch (error) {
     return {
@@ -48,10 +273,25 @@ export async function killProcess(args: unknown): Promise<ServerResult> {
     };
   }
 
+  const signal = normalizeSignal(parsed.data.signal || 'SIGTERM');
+  if (!signal) {
+    return {
+      content: [{ type: "text", text: `Error: Unknown signal: ${parsed.data.signal}` }],
+      isError: true,
+    };
+  }
+
   try {
-    process.kill(parsed.data.pid);
+    const result = await signalProcesses(parsed.data.pid, signal, { tree: parsed.data.tree });
+    if (!result.signaled.includes(parsed.data.pid)) {
+      return {
+        content: [{ type: "text", text: `Error: Failed to kill process: ${formatSignalResult(result)}` }],
+        isError: true,
+      };
+    }
     return {
-      content: [{ type: "text", text: `Successfully terminated process ${parsed.data.pid}` }],
+      content: [{ type: "text", text: `Successfully terminated process ${parsed.data.pid}\n${formatSignalResult(result)}` }],
+      structuredContent: { pid: parsed.data.pid, ...result },
     };
   } catch (error) {
     return {
@@ -0,0 +1,127 @@
+import { jobQueue, Job } from '../job-queue.js';
+import { commandManager } from '../command-manager.js';
+import { resolveCommandContext } from './execute.js';
+import { EnqueueCommandArgsSchema, GetJobArgsSchema } from './schemas.js';
+import { capture } from "../utils.js";
+import { ServerResult } from '../types.js';
+
+function formatJob(job: Job): string {
+  const lines = [`${job.id}: ${job.command}`];
+  let status = `  Status: ${job.status}`;
+  if (job.status === 'queued') {
+    status += ` (position ${jobQueue.position(job)})`;
+  } else if (job.status === 'done') {
+    status += `, ${job.outcome}${job.exitCode !== null ? ` with exit code ${job.exitCode}` : ''}${job.error ? `: ${job.error}` : ''}`;
+  }
+  lines.push(status, `  Queue: ${job.queue}`);
+  if (job.dependsOn.length > 0) {
+    lines.push(`  Depends on (${job.condition}): ${job.dependsOn.join(', ')}`);
+  }
+  if (job.pid !== null) {
+    lines.push(`  PID: ${job.pid} (use read_output for its output)`);
+  }
+  return lines.join('\n');
+}
+
+function jobStructuredContent(job: Job): Record<string, unknown> {
+  return {
+    id: job.id,
+    command: job.command,
+    queue: job.queue,
+    status: job.status,
+    position: jobQueue.position(job),
+    outcome: job.outcome,
+    dependsOn: job.dependsOn,
+    dependsOnCondition: job.condition,
+    pid: job.pid,
+    exitCode: job.exitCode,
+    error: job.error,
+    enqueuedAt: job.enqueuedAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    finishedAt: job.finishedAt?.toISOString() ?? null
+  };
+}
+
+export async function enqueueCommand(args: unknown): Promise<ServerResult> {
+  const parsed = EnqueueCommandArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for enqueue_command: ${parsed.error}` }],
+      isError: true,
+    };
+  }
+
+  capture('server_enqueue_command', {
+    command: commandManager.getBaseCommand(parsed.data.command)
+  });
+
+  try {
+    const context = await resolveCommandContext(parsed.data);
+    // Validated now to fail early, and again when the job starts
+    const check = await commandManager.checkCommand(parsed.data.command, context.cwd);
+    if (!check.allowed) {
+      return {
+        content: [{ type: "text", text: `Error: ${commandManager.formatDenial(parsed.data.command, check)}` }],
+        isError: true,
+      };
+    }
+    const job = await jobQueue.enqueue({
+      command: parsed.data.command,
+      queue: parsed.data.queue,
+      maxConcurrency: parsed.data.max_concurrency,
+      dependsOn: parsed.data.depends_on,
+      condition: parsed.data.depends_on_condition,
+      shell: parsed.data.shell,
+      options: {
+        cwd: context.cwd,
+        env: context.env,
+        envMode: parsed.data.env_mode,
+        maxRuntimeMs: parsed.data.max_runtime_ms,
+        maxOutputBytes: parsed.data.max_output_bytes
+      }
+    });
+
+    return {
+      content: [{
+        type: "text",
+        text: `${formatJob(job)}\n\nUse get_job with this ID to follow its status.`
+      }],
+      structuredContent: jobStructuredContent(job),
+    };
+  } catch (error) {
+    return {
+      content: [{ type: "text", text: `Error: Failed to enqueue command: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function getJob(args: unknown): Promise<ServerResult> {
+  const parsed = GetJobArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for get_job: ${parsed.error}` }],
+      isError: true,
+    };
+  }
+
+  if (parsed.data.id === undefined) {
+    const jobs = jobQueue.list();
+    return {
+      content: [{ type: "text", text: jobs.length === 0 ? 'No jobs' : jobs.map(formatJob).join('\n\n') }],
+      structuredContent: { jobs: jobs.map(jobStructuredContent) },
+    };
+  }
+
+  const job = jobQueue.get(parsed.data.id);
+  if (!job) {
+    return {
+      content: [{ type: "text", text: `Error: No job found with ID ${parsed.data.id}` }],
+      isError: true,
+    };
+  }
+  return {
+    content: [{ type: "text", text: formatJob(job) }],
+    structuredContent: jobStructuredContent(job),
+  };
+}
@@ -0,0 +1,135 @@
+import { commandScheduler, ScheduledCommand, ScheduledRun } from '../scheduler.js';
+import { terminalManager } from '../terminal-manager.js';
+import { commandManager } from '../command-manager.js';
+import { resolveCommandContext } from './execute.js';
+import { ScheduleCommandArgsSchema, CancelScheduledArgsSchema } from './schemas.js';
+import { capture } from "../utils.js";
+import { ServerResult } from '../types.js';
+
+function runStatus(run: ScheduledRun): string {
+  if (run.skipped) {
+    return `skipped: ${run.skipped}`;
+  }
+  const completed = terminalManager.getCompletedSession(run.pid!);
+  if (completed) {
+    return `PID ${run.pid}, exit code ${completed.exitCode}`;
+  }
+  const running = terminalManager.listActiveSessions().some(session => session.pid === run.pid);
+  return `PID ${run.pid}, ${running ? 'running' : 'finished'}`;
+}
+
+function formatScheduled(job: ScheduledCommand): string {
+  const lines = [
+    `${job.id}: ${job.command}`,
+    `  Schedule: ${job.cron ? `cron "${job.cron}"` : 'once'}`,
+    `  Status: ${job.status}${job.nextRun ? `, next run ${job.nextRun.toISOString()}` : ''}`
+  ];
+  if (job.runs.length > 0) {
+    lines.push('  Runs:', ...job.runs.map(run => `    ${run.time.toISOString()} ${runStatus(run)}`));
+  }
+  return lines.join('\n');
+}
+
+function scheduledStructuredContent(job: ScheduledCommand): Record<string, unknown> {
+  return {
+    id: job.id,
+    command: job.command,
+    cron: job.cron ?? null,
+    status: job.status,
+    createdAt: job.createdAt.toISOString(),
+    nextRun: job.nextRun?.toISOString() ?? null,
+    runs: job.runs.map(run => ({ time: run.time.toISOString(), pid: run.pid, skipped: run.skipped ?? null }))
+  };
+}
+
+export async function scheduleCommand(args: unknown): Promise<ServerResult> {
+  const parsed = ScheduleCommandArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for schedule_command: ${parsed.error}` }],
+      isError: true,
+    };
+  }
+
+  capture('server_schedule_command', {
+    command: commandManager.getBaseCommand(parsed.data.command)
+  });
+
+  try {
+    const context = await resolveCommandContext(parsed.data);
+    // Validated now to fail early, and again before every run
+    const check = await commandManager.checkCommand(parsed.data.command, context.cwd);
+    if (!check.allowed) {
+      return {
+        content: [{ type: "text", text: `Error: ${commandManager.formatDenial(parsed.data.command, check)}` }],
+        isError: true,
+      };
+    }
+    const job = commandScheduler.schedule({
+      command: parsed.data.command,
+      shell: parsed.data.shell,
+      delayMs: parsed.data.delay_ms,
+      runAt: parsed.data.run_at !== undefined ? new Date(parsed.data.run_at) : undefined,
+      cron: parsed.data.cron,
+      options: {
+        cwd: context.cwd,
+        env: context.env,
+        envMode: parsed.data.env_mode,
+        maxRuntimeMs: parsed.data.max_runtime_ms,
+        maxOutputBytes: parsed.data.max_output_bytes
+      }
+    });
+
+    return {
+      content: [{
+        type: "text",
+        text: `Scheduled ${job.id}, next run at ${job.nextRun!.toISOString()}\n` +
+          `Each run starts a terminal session; use list_scheduled to see their PIDs and read_output to read their output.`
+      }],
+      structuredContent: scheduledStructuredContent(job),
+    };
+  } catch (error) {
+    return {
+      content: [{ type: "text", text: `Error: Failed to schedule command: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function listScheduled(): Promise<ServerResult> {
+  const jobs = commandScheduler.list();
+  return {
+    content: [{
+      type: "text",
+      text: jobs.length === 0 ? 'No scheduled commands' : jobs.map(formatScheduled).join('\n\n')
+    }],
+    structuredContent: { scheduled: jobs.map(scheduledStructuredContent) },
+  };
+}
+
+export async function cancelScheduled(args: unknown): Promise<ServerResult> {
+  const parsed = CancelScheduledArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for cancel_scheduled: ${parsed.error}` }],
+      isError: true,
+    };
+  }
+
+  if (!commandScheduler.cancel(parsed.data.id)) {
+    const job = commandScheduler.get(parsed.data.id);
+    return {
+      content: [{
+        type: "text",
+        text: job
+          ? `Error: Scheduled command ${parsed.data.id} is already ${job.status}`
+          : `Error: No scheduled command found with ID ${parsed.data.id}`
+      }],
+      isError: true,
+    };
+  }
+
+  return {
+    content: [{ type: "text", text: `Cancelled scheduled command ${parsed.data.id}. Runs that already started keep running.` }],
+  };
+}
@@ -10,28 +10,169 @@ export const SetConfigValueArgsSchema = z.object({
   value: z.any(),
 });
 
-// Empty schemas
-export const ListProcessesArgsSchema = z.object({});
-
 // Terminal tools schemas
 export const ExecuteCommandArgsSchema = z.object({
   command: z.string(),
   timeout_ms: z.number().optional(),
   shell: z.string().optional(),
+  pty: z.boolean().optional(),
+  cols: z.number().int().positive().optional(),
+  rows: z.number().int().positive().optional(),
+  cwd: z.string().optional(),
+  env: z.record(z.string()).optional(),
+  env_mode: z.enum(['merge', 'replace']).optional(),
+  env_file: z.string().optional(),
+  max_runtime_ms: z.number().int().positive().optional(),
+  max_output_bytes: z.number().int().positive().optional(),
+  max_memory_mb: z.number().positive().optional(),
+  max_cpu_seconds: z.number().int().positive().optional(),
+  max_open_files: z.number().int().positive().optional(),
 });
 
 export const ReadOutputArgsSchema = z.object({
   pid: z.number(),
+  format: z.enum(['raw', 'text', 'screen']).optional(),
+  offset: z.number().int().min(0).optional(),
+  length: z.number().int().positive().optional(),
+  tail_lines: z.number().int().positive().optional(),
+  since_cursor: z.number().int().min(0).optional(),
+});
+
+export const SendInputArgsSchema = z.object({
+  pid: z.number(),
+  input: z.string().optional().default(''),
+  newline: z.boolean().optional().default(true),
+  eof: z.boolean().optional(),
+  ctrl_c: z.boolean().optional(),
+  settle_ms: z.number().optional(),
+  timeout_ms: z.number().optional(),
+});
+
+export const WaitForOutputArgsSchema = z.object({
+  pid: z.number().optional(),
+  id: z.string().optional(),
+  pattern: z.string().optional(),
+  ignore_case: z.boolean().optional(),
+  timeout_ms: z.number().optional().default(30000),
 });
 
 export const ForceTerminateArgsSchema = z.object({
   pid: z.number(),
+  signal: z.string().optional(),
+  tree: z.boolean().optional(),
 });
 
 export const ListSessionsArgsSchema = z.object({});
 
+export const OpenShellArgsSchema = z.object({
+  name: z.string(),
+  shell: z.string().optional(),
+  cwd: z.string().optional(),
+  env: z.record(z.string()).optional(),
+  env_mode: z.enum(['merge', 'replace']).optional(),
+  env_file: z.string().optional(),
+});
+
+export const RunInShellArgsSchema = z.object({
+  name: z.string(),
+  command: z.string(),
+  timeout_ms: z.number().optional(),
+});
+
+export const CloseShellArgsSchema = z.object({
+  name: z.string(),
+});
+
+// Scheduler tools schemas
+export const ScheduleCommandArgsSchema = z.object({
+  command: z.string(),
+  delay_ms: z.number().int().min(0).optional(),
+  run_at: z.string().optional(),
+  cron: z.string().optional(),
+  shell: z.string().optional(),
+  cwd: z.string().optional(),
+  env: z.record(z.string()).optional(),
+  env_mode: z.enum(['merge', 'replace']).optional(),
+  env_file: z.string().optional(),
+  max_runtime_ms: z.number().int().positive().optional(),
+  max_output_bytes: z.number().int().positive().optional(),
+});
+
+export const ListScheduledArgsSchema = z.object({});
+
+export const CancelScheduledArgsSchema = z.object({
+  id: z.string(),
+});
+
+// Job queue tools schemas
+export const EnqueueCommandArgsSchema = z.object({
+  command: z.string(),
+  queue: z.string().optional(),
+  max_concurrency: z.number().int().positive().optional(),
+  depends_on: z.array(z.string()).optional(),
+  depends_on_condition: z.enum(['success', 'always']).optional(),
+  shell: z.string().optional(),
+  cwd: z.string().optional(),
+  env: z.record(z.string()).optional(),
+  env_mode: z.enum(['merge', 'replace']).optional(),
+  env_file: z.string().optional(),
+  max_runtime_ms: z.number().int().positive().optional(),
+  max_output_bytes: z.number().int().positive().optional(),
+});
+
+export const GetJobArgsSchema = z.object({
+  id: z.string().optional(),
+});
+
+// Watch tools schemas
+export const WatchAndRunArgsSchema = z.object({
+  command: z.string(),
+  paths: z.array(z.string()).min(1),
+  cwd: z.string().optional(),
+  debounce_ms: z.number().int().min(0).optional(),
+  run_on_start: z.boolean().optional(),
+  shell: z.string().optional(),
+  env: z.record(z.string()).optional(),
+  env_mode: z.enum(['merge', 'replace']).optional(),
+  env_file: z.string().optional(),
+  max_runtime_ms: z.number().int().positive().optional(),
+  max_output_bytes: z.number().int().positive().optional(),
+});
+
+export const GetWatchArgsSchema = z.object({
+  id: z.string().optional(),
+  tail_lines: z.number().int().min(0).optional().default(20),
+});
+
+export const StopWatchArgsSchema = z.object({
+  id: z.string(),
+});
+
+// Process tools schemas
+export const ListProcessesArgsSchema = z.object({
+  name: z.string().optional(),
+  user: z.string().optional(),
+  pattern: z.string().optional(),
+  sort_by: z.enum(['pid', 'cpu', 'memory', 'start_time', 'name']).optional().default('pid'),
+  order: z.enum(['asc', 'desc']).optional(),
+  limit: z.number().int().positive().optional(),
+});
+
+export const GetProcessInfoArgsSchema = z.object({
+  pid: z.number(),
+  include_env: z.boolean().optional().default(true),
+  max_fds: z.number().int().positive().optional().default(100),
+});
+
+export const FindProcessByPortArgsSchema = z.object({
+  port: z.number().int().min(0).max(65535),
+  protocol: z.enum(['tcp', 'udp']).optional(),
+});
+
 export const KillProcessArgsSchema = z.object({
   pid: z.number(),
+  signal: z.string().optional(),
+  tree: z.boolean().optional(),
 });
 
 // Filesystem tools schemas
@@ -134,4 +275,14 @@ export const SshDownloadFileArgsSchema = z.object({
   remotePath: z.string(),
   localPath: z.string(),
   timeout: z.number().optional(),
-});
\ No newline at end of file
+});
+// Audit log tools schemas
+export const QueryAuditLogArgsSchema = z.object({
+  since: z.string().optional(),
+  until: z.string().optional(),
+  tool: z.string().optional(),
+  path: z.string().optional(),
+  command: z.string().optional(),
+  errors_only: z.boolean().optional().default(false),
+  limit: z.number().int().positive().max(1000).optional().default(50),
+});
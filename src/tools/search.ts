@@ -1,7 +1,7 @@
 import { spawn, ChildProcess } from 'child_process';
 import path from 'path';
 import fs from 'fs/promises';
-import { validatePath } from './filesystem.js';
+import { validatePath, canAccessPath } from './filesystem.js';
 import { rgPath } from '@vscode/ripgrep';
 import {capture} from "../utils.js";
 
@@ -12,6 +12,15 @@ export interface SearchResult {
   match: string;
 }
 
+// Leave out matches in files that deniedPaths or pathPermissions hide
+async function withoutDeniedFiles(results: SearchResult[]): Promise<SearchResult[]> {
+  const readable = new Map<string, boolean>();
+  for (const file of new Set(results.map(result => result.file))) {
+    readable.set(file, await canAccessPath(file, 'read'));
+  }
+  return results.filter(result => readable.get(result.file));
+}
+
 // Function to search file contents using ripgrep
 export async function searchCode(options: {
   rootPath: string,        // Directory to search in
@@ -120,7 +129,7 @@ export async function searchCode(options: {
             console.error();
           }
         }
-        resolve(results);
+        withoutDeniedFiles(results).then(resolve, reject);
       } else {
         reject(new Error(`ripgrep process exited with code ${code}`));
       }
@@ -0,0 +1,119 @@
+import { shellManager } from '../shell-manager.js';
+import { commandManager } from '../command-manager.js';
+import { resolveCommandContext } from './execute.js';
+import { OpenShellArgsSchema, RunInShellArgsSchema, CloseShellArgsSchema } from './schemas.js';
+import { capture } from "../utils.js";
+import { ServerResult } from '../types.js';
+
+export async function openShell(args: unknown): Promise<ServerResult> {
+  const parsed = OpenShellArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for open_shell: ${parsed.error}` }],
+      isError: true,
+    };
+  }
+
+  capture('server_open_shell');
+
+  try {
+    const context = await resolveCommandContext(parsed.data);
+    const shell = await shellManager.openShell(parsed.data.name, {
+      shell: parsed.data.shell,
+      cwd: context.cwd,
+      env: context.env,
+      envMode: parsed.data.env_mode
+    });
+
+    return {
+      content: [{
+        type: "text",
+        text: `Shell session "${shell.name}" opened (PID ${shell.pid}, shell: ${shell.shell})\nCwd: ${shell.cwd}\n\nUse run_in_shell with this name to run commands. Directory changes and exported variables persist between commands.`
+      }],
+    };
+  } catch (error) {
+    return {
+      content: [{ type: "text", text: `Error: Failed to open shell: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function runInShell(args: unknown): Promise<ServerResult> {
+  const parsed = RunInShellArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for run_in_shell: ${parsed.error}` }],
+      isError: true,
+    };
+  }
+
+  capture('server_run_in_shell', {
+    command: commandManager.getBaseCommand(parsed.data.command)
+  });
+
+  // The shell's current directory selects the command policy
+  const shell = shellManager.listShells().find(info => info.name === parsed.data.name);
+  const check = await commandManager.checkCommand(parsed.data.command, shell?.cwd);
+  if (!check.allowed) {
+    return {
+      content: [{ type: "text", text: `Error: ${commandManager.formatDenial(parsed.data.command, check)}` }],
+      isError: true,
+    };
+  }
+
+  try {
+    const result = await shellManager.runInShell(parsed.data.name, parsed.data.command, parsed.data.timeout_ms);
+
+    let responseText = `Shell: ${parsed.data.name}\n`;
+    if (result.timedOut) {
+      responseText += `Status: still running after ${parsed.data.timeout_ms ?? 30000}ms (the shell stays busy until it finishes; use close_shell to abort)\n`;
+    } else if (result.shellExited) {
+      responseText += `Status: shell exited with code ${result.exitCode}; the session is closed\n`;
+    } else {
+      responseText += `Exit Code: ${result.exitCode}\n`;
+    }
+    responseText += `Cwd: ${result.cwd}\n\n`;
+
+    if (result.stdout) {
+      responseText += `===== STDOUT =====\n${result.stdout}\n`;
+    }
+    if (result.stderr) {
+      responseText += `\n===== STDERR =====\n${result.stderr}\n`;
+    }
+    if (!result.stdout && !result.stderr) {
+      responseText += '(no output)';
+    }
+
+    return {
+      content: [{ type: "text", text: responseText }],
+    };
+  } catch (error) {
+    return {
+      content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function closeShell(args: unknown): Promise<ServerResult> {
+  const parsed = CloseShellArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for close_shell: ${parsed.error}` }],
+      isError: true,
+    };
+  }
+
+  try {
+    await shellManager.closeShell(parsed.data.name);
+    return {
+      content: [{ type: "text", text: `Shell session "${parsed.data.name}" closed` }],
+    };
+  } catch (error) {
+    return {
+      content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+}
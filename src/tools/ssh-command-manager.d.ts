@@ -1,4 +1,12 @@
 import { NodeSSH } from 'node-ssh';
+import { OutputListener, ExitListener } from '../types.js';
+import { SSHTarget } from '../command-manager.js';
+
+export interface SSHCommandStatus {
+  id: string;
+  isRunning: boolean;
+  exitCode: number | null;
+}
 
 export interface SSHCommandExecutionResult {
   id: string;
@@ -9,13 +17,15 @@ export interface SSHCommandExecutionResult {
 
 export class SSHCommandManager {
   /**
-   * Execute a command over SSH with streaming support for long-running commands
+   * Execute a command over SSH with streaming support for long-running commands.
+   * Throws a CommandNotAllowedError if the SSH command policy denies the command.
    */
   executeCommand(
     ssh: NodeSSH,
     command: string,
-    cwd?: string,
-    timeout?: number
+    cwd: string | undefined,
+    timeout: number | undefined,
+    target: SSHTarget
   ): Promise<SSHCommandExecutionResult>;
 
   /**
@@ -23,6 +33,26 @@ export class SSHCommandManager {
    */
   getNewOutput(sessionId: string): string | null;
 
+  /**
+   * Return the output of a session that has not been read yet and mark it as read
+   */
+  takeNewOutput(sessionId: string): string;
+
+  /**
+   * Get whether a command session is still running and its exit code
+   */
+  getStatus(sessionId: string): SSHCommandStatus | null;
+
+  /**
+   * Subscribe to output of a running command session as it arrives
+   */
+  onOutput(sessionId: string, listener: OutputListener): (() => void) | null;
+
+  /**
+   * Subscribe to the completion of a running command session
+   */
+  onExit(sessionId: string, listener: ExitListener): (() => void) | null;
+
   /**
    * Force terminate a running SSH command
    */
@@ -36,6 +66,11 @@ export class SSHCommandManager {
     isBlocked: boolean;
     runtime: number;
   }>;
+
+  /**
+   * Load the command records persisted by a previous server process
+   */
+  restoreCommands(): Promise<void>;
 }
 
 export const sshCommandManager: SSHCommandManager;
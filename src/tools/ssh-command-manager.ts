@@ -1,8 +1,16 @@
 import { NodeSSH } from 'node-ssh';
+import { OutputListener, OutputStream, ExitListener } from '../types.js';
+import { configManager } from '../config-manager.js';
+import { sessionStore } from '../session-store.js';
+import { DEFAULT_OUTPUT_BUFFER_BYTES } from '../config.js';
+import { commandManager, SSHTarget } from '../command-manager.js';
 
 interface SSHCommandSession {
   id: string;
   ssh: NodeSSH;
+  command: string;
+  // Record the command in the session state directory
+  persist: boolean;
   stdout: string;
   stderr: string;
   lastOutput: string;
@@ -10,6 +18,14 @@ interface SSHCommandSession {
   exitCode: number | null;
   isBlocked: boolean;
   startTime: Date;
+  outputListeners: Set<OutputListener>;
+  exitListeners: Set<ExitListener>;
+}
+
+export interface SSHCommandStatus {
+  id: string;
+  isRunning: boolean;
+  exitCode: number | null;
 }
 
 export interface SSHCommandExecutionResult {
@@ -43,16 +59,28 @@ export class SSHCommandManager {
    * @param command - Command to execute
    * @param cwd - Optional working directory
    * @param timeout - Short internal timeout to determine if command finishes quickly
+   * @param target - Host and user of the connection, selects the SSH command policy
    * @returns Promise resolving to command execution result
+   * @throws CommandNotAllowedError if the SSH command policy denies the command
    */
   async executeCommand(
     ssh: NodeSSH,
     command: string,
-    cwd?: string,
-    timeout: number = 2000
+    cwd: string | undefined,
+    timeout: number = 2000,
+    target: SSHTarget
   ): Promise<SSHCommandExecutionResult> {
+    await commandManager.assertSSHCommandAllowed(command, target);
+
     // Create a unique ID for this command session
     const sessionId = this.generateSessionId();
+
+    let persist = false;
+    try {
+      persist = (await configManager.getConfig()).persistSessions === true;
+    } catch (error) {
+      // Fall back to not persisting
+    }
     
     // Initialize output collectors
     let stdout = '';
@@ -62,17 +90,22 @@ export class SSHCommandManager {
     const session: SSHCommandSession = {
       id: sessionId,
       ssh,
+      command,
+      persist,
       stdout: '',
       stderr: '',
       lastOutput: '',
       isCompleted: false,
       exitCode: null,
       isBlocked: false,
-      startTime: new Date()
+      startTime: new Date(),
+      outputListeners: new Set(),
+      exitListeners: new Set()
     };
     
     // Store the session
     this.sessions.set(sessionId, session);
+    this.persistSession(session);
     
     return new Promise((resolve) => {
       // Create an SSH command execution with event handlers
@@ -83,12 +116,14 @@ export class SSHCommandManager {
           stdout += text;
           session.stdout += text;
           session.lastOutput += text;
+          this.notifyOutput(session, text, 'stdout');
         },
         onStderr: (chunk: Buffer) => {
           const text = chunk.toString();
           stderr += text;
           session.stderr += text;
           session.lastOutput += text;
+          this.notifyOutput(session, text, 'stderr');
         }
       };
       
@@ -123,13 +158,17 @@ export class SSHCommandManager {
           stdout += result.stdout;
           session.stdout += result.stdout;
           session.lastOutput += result.stdout;
+          this.notifyOutput(session, result.stdout, 'stdout');
         }
         
         if (result.stderr && !stderr.includes(result.stderr)) {
           stderr += result.stderr;
           session.stderr += result.stderr;
           session.lastOutput += result.stderr;
+          this.notifyOutput(session, result.stderr, 'stderr');
         }
+        this.notifyExit(session);
+        this.persistSession(session);
         
         // If the command completed before the timeout, resolve immediately
         if (!session.isBlocked) {
@@ -155,6 +194,9 @@ export class SSHCommandManager {
         stderr += errorMessage;
         session.stderr += errorMessage;
         session.lastOutput += errorMessage;
+        this.notifyOutput(session, errorMessage, 'stderr');
+        this.notifyExit(session);
+        this.persistSession(session);
         
         // If the command errored before the timeout, resolve immediately
         if (!session.isBlocked) {
@@ -192,9 +234,7 @@ export class SSHCommandManager {
       }
       
       // Return any new output and clear the buffer
-      const output = session.lastOutput;
-      session.lastOutput = '';
-      return output || 'No new output available';
+      return this.takeNewOutput(sessionId) || 'No new output available';
     }
     
     // Check completed sessions
@@ -208,6 +248,72 @@ export class SSHCommandManager {
     return null;
   }
 
+  /**
+   * Return the output of a session that has not been read yet and mark it as read
+   *
+   * @param sessionId - The session ID
+   * @returns Unread output, empty if there is none or the session is not active
+   */
+  takeNewOutput(sessionId: string): string {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return '';
+    }
+    const output = session.lastOutput;
+    session.lastOutput = '';
+    return output;
+  }
+
+  /**
+   * Get whether a command session is still running and its exit code
+   *
+   * @param sessionId - The session ID
+   * @returns Session status or null if the session is unknown
+   */
+  getStatus(sessionId: string): SSHCommandStatus | null {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      return { id: sessionId, isRunning: !session.isCompleted, exitCode: session.exitCode };
+    }
+    const completedSession = this.completedSessions.get(sessionId);
+    if (completedSession) {
+      return { id: sessionId, isRunning: false, exitCode: completedSession.exitCode };
+    }
+    return null;
+  }
+
+  /**
+   * Subscribe to output of a running command session as it arrives
+   *
+   * @param sessionId - The session ID
+   * @param listener - Called with each chunk of output
+   * @returns Unsubscribe function, or null if the command is not running
+   */
+  onOutput(sessionId: string, listener: OutputListener): (() => void) | null {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.isCompleted) {
+      return null;
+    }
+    session.outputListeners.add(listener);
+    return () => session.outputListeners.delete(listener);
+  }
+
+  /**
+   * Subscribe to the completion of a running command session
+   *
+   * @param sessionId - The session ID
+   * @param listener - Called with the exit code once the command finishes
+   * @returns Unsubscribe function, or null if the command is not running
+   */
+  onExit(sessionId: string, listener: ExitListener): (() => void) | null {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.isCompleted) {
+      return null;
+    }
+    session.exitListeners.add(listener);
+    return () => session.exitListeners.delete(listener);
+  }
+
   /**
    * Force terminate a running SSH command
    * 
@@ -226,6 +332,8 @@ export class SSHCommandManager {
       session.isCompleted = true;
       session.exitCode = 130; // Standard exit code for SIGINT
       session.lastOutput += '\nCommand terminated by user.';
+      this.notifyExit(session);
+      this.persistSession(session);
       
       // Store as completed and remove from active sessions
       this.storeCompletedSession(sessionId);
@@ -257,6 +365,41 @@ export class SSHCommandManager {
       }));
   }
 
+  /**
+   * Load the command records persisted by a previous server process.
+   * The SSH connections did not survive the restart, so commands that were
+   * still running are listed as interrupted.
+   */
+  async restoreCommands(): Promise<void> {
+    try {
+      if (!(await configManager.getConfig()).persistSessions) {
+        return;
+      }
+    } catch (error) {
+      return;
+    }
+
+    for (const record of sessionStore.listSSHCommands()) {
+      if (this.sessions.has(record.id) || this.completedSessions.has(record.id)) {
+        continue;
+      }
+      if (!record.isCompleted) {
+        record.isCompleted = true;
+        record.stderr += '\nCommand interrupted: the server restarted while it was running.';
+        record.endTime = new Date().toISOString();
+        sessionStore.saveSSHCommand(record);
+      }
+      this.addCompletedSession({
+        id: record.id,
+        stdout: record.stdout,
+        stderr: record.stderr,
+        exitCode: record.exitCode,
+        startTime: new Date(record.startTime),
+        endTime: new Date(record.endTime || record.startTime)
+      });
+    }
+  }
+
   /**
    * Generate a unique session ID
    * 
@@ -269,6 +412,47 @@ export class SSHCommandManager {
     return `ssh-cmd-${timestamp}-${this.sessionCounter}`;
   }
 
+  /**
+   * Pass a chunk of output to the session's output listeners
+   *
+   * @private
+   */
+  private notifyOutput(session: SSHCommandSession, text: string, stream: OutputStream): void {
+    session.outputListeners.forEach(listener => listener(text, stream));
+  }
+
+  /**
+   * Notify exit listeners once when a session finishes
+   *
+   * @private
+   */
+  private notifyExit(session: SSHCommandSession): void {
+    const listeners = Array.from(session.exitListeners);
+    session.exitListeners.clear();
+    session.outputListeners.clear();
+    listeners.forEach(listener => listener(session.exitCode, null));
+  }
+
+  /**
+   * Write the command and its output so far to the session state directory
+   *
+   * @private
+   */
+  private persistSession(session: SSHCommandSession): void {
+    if (!session.persist) return;
+    sessionStore.saveSSHCommand({
+      id: session.id,
+      command: session.command,
+      // Keep the records bounded like the output buffers of local sessions
+      stdout: session.stdout.slice(-DEFAULT_OUTPUT_BUFFER_BYTES),
+      stderr: session.stderr.slice(-DEFAULT_OUTPUT_BUFFER_BYTES),
+      exitCode: session.exitCode,
+      isCompleted: session.isCompleted,
+      startTime: session.startTime.toISOString(),
+      endTime: session.isCompleted ? new Date().toISOString() : undefined
+    });
+  }
+
   /**
    * Store a session as completed and remove from active sessions
    * 
@@ -280,7 +464,7 @@ export class SSHCommandManager {
     if (!session) return;
     
     // Store in completed sessions
-    this.completedSessions.set(sessionId, {
+    this.addCompletedSession({
       id: sessionId,
       stdout: session.stdout,
       stderr: session.stderr,
@@ -291,11 +475,21 @@ export class SSHCommandManager {
     
     // Remove from active sessions
     this.sessions.delete(sessionId);
-    
+  }
+
+  /**
+   * Add a completed session, keeping only the last 100
+   *
+   * @private
+   */
+  private addCompletedSession(completed: CompletedSSHCommand): void {
+    this.completedSessions.set(completed.id, completed);
+
     // Limit stored completed sessions
     if (this.completedSessions.size > 100) {
       const oldestKey = Array.from(this.completedSessions.keys())[0];
       this.completedSessions.delete(oldestKey);
+      sessionStore.removeSSHCommand(oldestKey);
     }
   }
 }
@@ -1,4 +1,6 @@
 import { sshSessionManager, SSHConnectionConfig } from './ssh-session-manager.js';
+import { CommandNotAllowedError } from '../command-manager.js';
+import { isServerStatePath } from './filesystem.js';
 
 /**
  * Establishes a persistent SSH connection to a remote server
@@ -75,6 +77,9 @@ export async function sshRunInSession(args: {
     
     return result;
   } catch (error) {
+    if (error instanceof CommandNotAllowedError) {
+      throw error;
+    }
     const errorMessage = error instanceof Error ? error.message : String(error);
     throw new Error(`SSH command execution error: ${errorMessage}`);
   }
@@ -128,6 +133,10 @@ export async function sshDownloadInSession(args: {
       throw new Error(`Invalid or expired SSH session: ${sessionId}`);
     }
     
+    if (await isServerStatePath(localPath)) {
+      throw new Error(`Cannot download to ${localPath}, the server's config, pending approvals and audit log cannot be written`);
+    }
+
     // Download the file
     await sshSessionManager.downloadFile(sessionId, localPath, remotePath);
     
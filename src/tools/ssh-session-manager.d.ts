@@ -1,4 +1,5 @@
 import { NodeSSH } from 'node-ssh';
+import { SSHTarget } from '../command-manager.js';
 
 /**
  * Interface for SSH connection configuration
@@ -22,7 +23,8 @@ export class SSHSessionManager {
   createSession(config: SSHConnectionConfig, idleTimeout?: number): Promise<string>;
   
   /**
-   * Executes a command in an existing SSH session
+   * Executes a command in an existing SSH session.
+   * Throws a CommandNotAllowedError if the SSH command policy denies the command.
    */
   executeCommand(sessionId: string, command: string, cwd?: string, options?: any): Promise<{
     stdout: string;
@@ -50,6 +52,11 @@ export class SSHSessionManager {
    */
   hasSession(sessionId: string): boolean;
   
+  /**
+   * Returns the host and user a session is connected to
+   */
+  getTarget(sessionId: string): SSHTarget | undefined;
+  
   /**
    * Returns a list of active session IDs
    */
@@ -1,4 +1,5 @@
 import { NodeSSH } from 'node-ssh';
+import { commandManager, CommandNotAllowedError, SSHTarget } from '../command-manager.js';
 
 /**
  * Interface for SSH connection configuration
@@ -17,6 +18,8 @@ export interface SSHConnectionConfig {
  */
 class SSHSessionManager {
   private sessions: Map<string, NodeSSH> = new Map();
+  // Host and user of each session, for the SSH command policy
+  private targets: Map<string, SSHTarget> = new Map();
   private sessionTimeouts: Map<string, NodeJS.Timeout> = new Map();
   
   // Default timeout for auto-disconnecting idle sessions (30 minutes)
@@ -60,6 +63,7 @@ class SSHSessionManager {
       
       // Store the session
       this.sessions.set(sessionId, ssh);
+      this.targets.set(sessionId, { host: config.host, username: config.username });
       
       // Set up auto-disconnect timeout
       this.setupIdleTimeout(sessionId, idleTimeout || this.DEFAULT_IDLE_TIMEOUT);
@@ -79,12 +83,20 @@ class SSHSessionManager {
    * @param cwd - Optional working directory
    * @param options - Optional execution options
    * @returns A promise that resolves to the command execution result
+   * @throws CommandNotAllowedError if the SSH command policy denies the command
    */
   async executeCommand(sessionId: string, command: string, cwd?: string, options?: any): Promise<{
     stdout: string;
     stderr: string;
     code: number | null;
   }> {
+    // Without its host the policy cannot be checked, so the command is denied
+    const target = this.targets.get(sessionId);
+    if (!target) {
+      throw new CommandNotAllowedError(command, { allowed: false, reason: `the host of SSH session ${sessionId} is unknown, the SSH command policy cannot be checked` });
+    }
+    await commandManager.assertSSHCommandAllowed(command, target);
+
     try {
       // Get the session
       const ssh = this.getSession(sessionId);
@@ -178,6 +190,7 @@ class SSHSessionManager {
       
       // Remove the session from the map
       this.sessions.delete(sessionId);
+      this.targets.delete(sessionId);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new Error(`Failed to close SSH session: ${errorMessage}`);
@@ -194,6 +207,16 @@ class SSHSessionManager {
     return this.sessions.has(sessionId);
   }
 
+  /**
+   * Returns the host and user a session is connected to
+   * 
+   * @param sessionId - The session ID
+   * @returns The target, or undefined if the session does not exist
+   */
+  getTarget(sessionId: string): SSHTarget | undefined {
+    return this.targets.get(sessionId);
+  }
+
   /**
    * Returns a list of active session IDs
    * 
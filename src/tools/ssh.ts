@@ -3,6 +3,8 @@ import fs from 'fs';
 import path from 'path';
 import { sshCommandManager } from './ssh-command-manager.js';
 import { DEFAULT_COMMAND_TIMEOUT } from '../config.js';
+import { commandManager, CommandNotAllowedError } from '../command-manager.js';
+import { isServerStatePath } from './filesystem.js';
 
 /**
  * Executes a command on a remote server over SSH.
@@ -12,6 +14,7 @@ import { DEFAULT_COMMAND_TIMEOUT } from '../config.js';
  * 
  * @param args - The SSH connection and command execution parameters
  * @returns A promise resolving to the output of the command execution or a streaming session
+ * @throws CommandNotAllowedError if the SSH command policy denies the command
  */
 export async function sshExecuteCommand(args: {
   host: string;
@@ -35,6 +38,9 @@ export async function sshExecuteCommand(args: {
     timeout, 
     internalTimeout = 5000 // Default internal timeout of 5 seconds
   } = args;
+
+  // Checked before connecting so a denied command never reaches the host
+  await commandManager.assertSSHCommandAllowed(command, { host, username });
   
   const ssh = new NodeSSH();
 
@@ -69,7 +75,8 @@ export async function sshExecuteCommand(args: {
       ssh, 
       command, 
       cwd, 
-      internalTimeout
+      internalTimeout,
+      { host, username }
     );
 
     // If command completed quickly, return complete result and dispose connection
@@ -98,6 +105,10 @@ export async function sshExecuteCommand(args: {
   } catch (error) {
     // Clean up the SSH connection
     ssh.dispose();
+
+    if (error instanceof CommandNotAllowedError) {
+      throw error;
+    }
     
     // Throw a more descriptive error message
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -245,6 +256,10 @@ export async function sshDownloadFile(args: {
   const ssh = new NodeSSH();
 
   try {
+    if (await isServerStatePath(localPath)) {
+      throw new Error(`Cannot download to ${localPath}, the server's config, pending approvals and audit log cannot be written`);
+    }
+
     // Verify that the local directory exists and is writable
     const localDir = path.dirname(localPath);
     try {
@@ -0,0 +1,224 @@
+import { terminalManager } from '../terminal-manager.js';
+import { sshCommandManager } from './ssh-command-manager.js';
+import { stripAnsi } from '../terminal-screen.js';
+import { MAX_READ_OUTPUT_BYTES } from '../config.js';
+import { WaitForOutputArgsSchema } from './schemas.js';
+import { ExitListener, OutputListener, ServerResult } from '../types.js';
+
+type WaitReason = 'matched' | 'exited' | 'timeout';
+
+/**
+ * Common view of a local terminal session and an SSH command session
+ */
+interface WaitSource {
+  isRunning(): boolean;
+  exitStatus(): { exitCode: number | null; signal: NodeJS.Signals | null };
+  // Return output that has not been read yet and mark it as read
+  takeUnread(): string;
+  onOutput(listener: OutputListener): (() => void) | null;
+  onExit(listener: ExitListener): (() => void) | null;
+}
+
+interface WaitResult {
+  reason: WaitReason;
+  matchedLine?: string;
+  output: string;
+  outputTruncated: boolean;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  elapsedMs: number;
+}
+
+function localSource(pid: number): WaitSource | null {
+  const running = terminalManager.listActiveSessions().some(session => session.pid === pid);
+  if (!running && !terminalManager.getCompletedSession(pid)) {
+    return null;
+  }
+
+  return {
+    isRunning: () => terminalManager.listActiveSessions().some(session => session.pid === pid),
+    exitStatus: () => {
+      const completed = terminalManager.getCompletedSession(pid);
+      return { exitCode: completed?.exitCode ?? null, signal: completed?.signal ?? null };
+    },
+    takeUnread: () => {
+      let text = '';
+      let read = terminalManager.readOutput(pid);
+      while (read) {
+        text += read.text;
+        if (!read.hasMore) break;
+        read = terminalManager.readOutput(pid);
+      }
+      return text;
+    },
+    onOutput: (listener) => terminalManager.onOutput(pid, listener),
+    onExit: (listener) => terminalManager.onExit(pid, listener)
+  };
+}
+
+function sshSource(id: string): WaitSource | null {
+  if (!sshCommandManager.getStatus(id)) {
+    return null;
+  }
+
+  return {
+    isRunning: () => sshCommandManager.getStatus(id)?.isRunning === true,
+    exitStatus: () => ({ exitCode: sshCommandManager.getStatus(id)?.exitCode ?? null, signal: null }),
+    takeUnread: () => sshCommandManager.takeNewOutput(id),
+    onOutput: (listener) => sshCommandManager.onOutput(id, listener),
+    onExit: (listener) => sshCommandManager.onExit(id, listener)
+  };
+}
+
+/**
+ * Wait until a line of output matches the pattern, the process exits or the timeout elapses.
+ * Unread output is checked first, so a match printed before the call is not missed.
+ */
+function waitFor(source: WaitSource, pattern: RegExp | null, timeoutMs: number): Promise<WaitResult> {
+  return new Promise((resolve) => {
+    const startedAt = Date.now();
+    let output = '';
+    let outputTruncated = false;
+    let pendingLine = '';
+    let settled = false;
+    let timeoutId: NodeJS.Timeout | undefined;
+    let unsubscribeOutput: (() => void) | null = null;
+    let unsubscribeExit: (() => void) | null = null;
+
+    const finish = (reason: WaitReason, matchedLine?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutId);
+      unsubscribeOutput?.();
+      unsubscribeExit?.();
+
+      // Everything seen here is returned to the client, so it no longer counts as new output
+      source.takeUnread();
+      const { exitCode, signal } = source.exitStatus();
+      resolve({
+        reason,
+        matchedLine,
+        output,
+        outputTruncated,
+        exitCode,
+        signal,
+        elapsedMs: Date.now() - startedAt
+      });
+    };
+
+    const consume = (text: string) => {
+      if (settled || !text) return;
+
+      output += text;
+      if (output.length > MAX_READ_OUTPUT_BYTES) {
+        output = output.slice(output.length - MAX_READ_OUTPUT_BYTES);
+        outputTruncated = true;
+      }
+      if (!pattern) return;
+
+      const lines = (pendingLine + text).split('\n');
+      pendingLine = lines.pop() || '';
+      for (const line of lines) {
+        const clean = stripAnsi(line);
+        if (pattern.test(clean)) {
+          finish('matched', clean);
+          return;
+        }
+      }
+      // Prompts are usually not terminated by a newline
+      const partial = stripAnsi(pendingLine);
+      if (partial && pattern.test(partial)) {
+        finish('matched', partial);
+      }
+    };
+
+    if (source.isRunning()) {
+      unsubscribeOutput = source.onOutput((text) => consume(text));
+      unsubscribeExit = source.onExit(() => finish('exited'));
+    }
+
+    consume(source.takeUnread());
+    if (settled) return;
+
+    if (!source.isRunning()) {
+      finish('exited');
+      return;
+    }
+
+    timeoutId = setTimeout(() => finish('timeout'), timeoutMs);
+  });
+}
+
+export async function waitForOutput(args: unknown): Promise<ServerResult> {
+  const parsed = WaitForOutputArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for wait_for_output: ${parsed.error}` }],
+      isError: true,
+    };
+  }
+
+  const { pid, id, pattern, ignore_case, timeout_ms } = parsed.data;
+  if ((pid === undefined) === (id === undefined)) {
+    return {
+      content: [{ type: "text", text: `Error: Provide either pid (local command) or id (SSH command)` }],
+      isError: true,
+    };
+  }
+
+  let regex: RegExp | null = null;
+  if (pattern) {
+    try {
+      regex = new RegExp(pattern, ignore_case ? 'i' : '');
+    } catch (error) {
+      return {
+        content: [{ type: "text", text: `Error: Invalid pattern: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  }
+
+  const source = pid !== undefined ? localSource(pid) : sshSource(id!);
+  if (!source) {
+    return {
+      content: [{
+        type: "text",
+        text: pid !== undefined ? `No session found for PID ${pid}` : `No SSH command session found for ID ${id}`
+      }],
+      isError: true,
+    };
+  }
+
+  const result = await waitFor(source, regex, timeout_ms);
+
+  let summary: string;
+  if (result.reason === 'matched') {
+    summary = `Pattern matched: ${result.matchedLine}`;
+  } else if (result.reason === 'exited') {
+    summary = `Process exited with code ${result.exitCode}${result.signal ? ` (signal ${result.signal})` : ''}${
+      regex ? ' before the pattern matched' : ''
+    }`;
+  } else {
+    summary = `Timed out after ${timeout_ms}ms${regex ? ' waiting for the pattern' : ''}, the process is still running`;
+  }
+
+  return {
+    content: [{
+      type: "text",
+      text: `${summary}\nElapsed: ${(result.elapsedMs / 1000).toFixed(2)}s\nOutput${
+        result.outputTruncated ? ' (truncated, showing the end)' : ''
+      }:\n${result.output || '(no output)'}`
+    }],
+    structuredContent: {
+      ...(pid !== undefined ? { pid } : { id }),
+      reason: result.reason,
+      matchedLine: result.matchedLine ?? null,
+      isRunning: source.isRunning(),
+      exitCode: result.exitCode,
+      signal: result.signal,
+      elapsedMs: result.elapsedMs,
+      output: result.output,
+      outputTruncated: result.outputTruncated
+    },
+  };
+}
@@ -0,0 +1,164 @@
+import { watchManager, WatchInfo, WatchRun } from '../watch-manager.js';
+import { terminalManager } from '../terminal-manager.js';
+import { commandManager } from '../command-manager.js';
+import { resolveCommandContext } from './execute.js';
+import { WatchAndRunArgsSchema, GetWatchArgsSchema, StopWatchArgsSchema } from './schemas.js';
+import { capture } from "../utils.js";
+import { ServerResult } from '../types.js';
+
+function formatRun(run: WatchRun): string {
+  let text = `  #${run.number} ${run.startedAt.toISOString()} ${run.status}`;
+  if (run.exitCode !== null) text += ` (exit code ${run.exitCode})`;
+  if (run.error) text += `: ${run.error}`;
+  if (run.pid !== null) text += `, PID ${run.pid}`;
+  if (run.changedFiles.length > 0) text += `, changed: ${run.changedFiles.join(', ')}`;
+  return text;
+}
+
+function formatWatch(watch: WatchInfo): string {
+  return [
+    `${watch.id}: ${watch.command}`,
+    `  Root: ${watch.root}`,
+    `  Globs: ${watch.patterns.join(', ')}`,
+    `  Status: ${watch.active ? `watching ${watch.watchedDirectories} director${watch.watchedDirectories === 1 ? 'y' : 'ies'}, debounce ${watch.debounceMs}ms` : 'stopped'}`,
+    watch.runs.length > 0 ? `  Runs:\n${watch.runs.map(formatRun).join('\n')}` : '  Runs: (none yet)'
+  ].join('\n');
+}
+
+function watchStructuredContent(watch: WatchInfo): Record<string, unknown> {
+  return {
+    id: watch.id,
+    command: watch.command,
+    root: watch.root,
+    patterns: watch.patterns,
+    debounceMs: watch.debounceMs,
+    active: watch.active,
+    watchedDirectories: watch.watchedDirectories,
+    runs: watch.runs.map(run => ({
+      ...run,
+      startedAt: run.startedAt.toISOString(),
+      finishedAt: run.finishedAt?.toISOString() ?? null
+    }))
+  };
+}
+
+export async function watchAndRun(args: unknown): Promise<ServerResult> {
+  const parsed = WatchAndRunArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for watch_and_run: ${parsed.error}` }],
+      isError: true,
+    };
+  }
+
+  capture('server_watch_and_run', {
+    command: commandManager.getBaseCommand(parsed.data.command)
+  });
+
+  try {
+    // The watched directory must be inside allowedDirectories like any working directory
+    const context = await resolveCommandContext({ ...parsed.data, cwd: parsed.data.cwd || process.cwd() });
+    // Validated now to fail early, and again before every run
+    const check = await commandManager.checkCommand(parsed.data.command, context.cwd);
+    if (!check.allowed) {
+      return {
+        content: [{ type: "text", text: `Error: ${commandManager.formatDenial(parsed.data.command, check)}` }],
+        isError: true,
+      };
+    }
+    const watch = await watchManager.watch({
+      command: parsed.data.command,
+      root: context.cwd!,
+      patterns: parsed.data.paths,
+      debounceMs: parsed.data.debounce_ms,
+      runOnStart: parsed.data.run_on_start,
+      shell: parsed.data.shell,
+      options: {
+        env: context.env,
+        envMode: parsed.data.env_mode,
+        maxRuntimeMs: parsed.data.max_runtime_ms,
+        maxOutputBytes: parsed.data.max_output_bytes
+      }
+    });
+
+    return {
+      content: [{
+        type: "text",
+        text: `${formatWatch(watch)}\n\nUse get_watch with this ID to check the results and stop_watch to stop watching.`
+      }],
+      structuredContent: watchStructuredContent(watch),
+    };
+  } catch (error) {
+    return {
+      content: [{ type: "text", text: `Error: Failed to start watching: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function getWatch(args: unknown): Promise<ServerResult> {
+  const parsed = GetWatchArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for get_watch: ${parsed.error}` }],
+      isError: true,
+    };
+  }
+
+  if (parsed.data.id === undefined) {
+    const watches = watchManager.list();
+    return {
+      content: [{ type: "text", text: watches.length === 0 ? 'No watches' : watches.map(formatWatch).join('\n\n') }],
+      structuredContent: { watches: watches.map(watchStructuredContent) },
+    };
+  }
+
+  const watch = watchManager.get(parsed.data.id);
+  if (!watch) {
+    return {
+      content: [{ type: "text", text: `Error: No watch found with ID ${parsed.data.id}` }],
+      isError: true,
+    };
+  }
+
+  let text = formatWatch(watch);
+  // Show how the most recent run ended, older runs can be read with read_output
+  const latest = [...watch.runs].reverse().find(run => run.pid !== null);
+  if (latest && parsed.data.tail_lines > 0) {
+    const output = terminalManager.readOutput(latest.pid!, { tailLines: parsed.data.tail_lines });
+    if (output) {
+      text += `\n\nOutput of run #${latest.number} (last ${parsed.data.tail_lines} lines):\n${output.text || '(no output)'}`;
+    }
+  }
+
+  return {
+    content: [{ type: "text", text }],
+    structuredContent: watchStructuredContent(watch),
+  };
+}
+
+export async function stopWatch(args: unknown): Promise<ServerResult> {
+  const parsed = StopWatchArgsSchema.safeParse(args);
+  if (!parsed.success) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid arguments for stop_watch: ${parsed.error}` }],
+      isError: true,
+    };
+  }
+
+  if (!watchManager.stop(parsed.data.id)) {
+    return {
+      content: [{
+        type: "text",
+        text: watchManager.get(parsed.data.id)
+          ? `Error: Watch ${parsed.data.id} is already stopped`
+          : `Error: No watch found with ID ${parsed.data.id}`
+      }],
+      isError: true,
+    };
+  }
+
+  return {
+    content: [{ type: "text", text: `Stopped watch ${parsed.data.id}. A run that is still going keeps running; get_watch still shows the run history.` }],
+  };
+}
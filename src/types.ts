@@ -1,38 +1,156 @@
 import { ChildProcess } from 'child_process';
+import { TerminalScreen } from './terminal-screen.js';
+import { OutputBuffer } from './output-buffer.js';
+import { SessionFiles } from './session-store.js';
 
 export interface ProcessInfo {
   pid: number;
+  ppid: number;
+  user: string;
+  // Executable name and full command line with arguments
+  name: string;
   command: string;
-  cpu: string;
-  memory: string;
+  // CPU and memory usage in percent
+  cpu: number;
+  memory: number;
+  rssKb: number;
+  startTime: Date | null;
 }
 
 export interface TerminalSession {
   pid: number;
-  process: ChildProcess;
-  lastOutput: string;
+  command: string;
+  // null for sessions re-attached after a server restart
+  process: ChildProcess | null;
+  output: OutputBuffer;
+  stdout: OutputBuffer;
+  stderr: OutputBuffer;
+  // Offset in output up to which it has been returned to the client
+  readCursor: number;
   isBlocked: boolean;
   startTime: Date;
+  pty: boolean;
+  screen?: TerminalScreen;
+  cwd: string;
+  envKeys: string[];
+  envMode: EnvMode;
+  outputListeners: Set<OutputListener>;
+  exitListeners: Set<ExitListener>;
+  killReason?: KillReason;
+  // Set when output goes to log files in the session state directory
+  files?: SessionFiles;
+}
+
+// Why the server stopped a session
+export type KillReason = 'max_runtime' | 'max_output' | 'cpu_limit' | 'terminated';
+
+export type OutputStream = 'stdout' | 'stderr';
+export type OutputListener = (text: string, stream: OutputStream) => void;
+export type ExitListener = (exitCode: number | null, signal: NodeJS.Signals | null) => void;
+
+export type EnvMode = 'merge' | 'replace';
+
+export interface CommandExecutionOptions {
+  pty?: boolean;
+  cols?: number;
+  rows?: number;
+  cwd?: string;
+  env?: Record<string, string>;
+  envMode?: EnvMode;
+  // Kill the process tree after this long
+  maxRuntimeMs?: number;
+  maxOutputBytes?: number;
+  limits?: ResourceLimits;
+}
+
+// Limits applied with ulimit before the command starts
+export interface ResourceLimits {
+  memoryBytes?: number;
+  cpuSeconds?: number;
+  openFiles?: number;
+}
+
+export type OutputFormat = 'raw' | 'text' | 'screen';
+
+export interface OutputReadOptions {
+  format?: OutputFormat;
+  offset?: number;
+  length?: number;
+  tailLines?: number;
+  sinceCursor?: number;
+}
+
+export interface OutputReadResult {
+  pid: number;
+  text: string;
+  isRunning: boolean;
+  // Byte range of the returned output and the total bytes written so far
+  offset: number;
+  cursor: number;
+  totalBytes: number;
+  droppedBytes: number;
+  hasMore: boolean;
 }
 
 export interface CommandExecutionResult {
   pid: number;
   output: string;
   isBlocked: boolean;
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number | null;
+  signal?: NodeJS.Signals | null;
+  durationMs?: number;
+  killReason?: KillReason | null;
+  stdoutTruncated?: boolean;
+  stderrTruncated?: boolean;
+}
+
+export interface TerminateOptions {
+  signal?: NodeJS.Signals;
+  tree?: boolean;
+}
+
+export interface SendInputOptions {
+  newline?: boolean;
+  eof?: boolean;
+  ctrlC?: boolean;
+  settleMs?: number;
+  maxWaitMs?: number;
+}
+
+export interface SendInputResult {
+  pid: number;
+  output: string;
+  isRunning: boolean;
 }
 
 export interface ActiveSession {
   pid: number;
   isBlocked: boolean;
   runtime: number;
+  cwd: string;
+  envKeys: string[];
+  envMode: EnvMode;
+  reattached: boolean;
 }
 
 export interface CompletedSession {
   pid: number;
-  output: string;
+  command: string;
+  output: OutputBuffer;
+  stdout: OutputBuffer;
+  stderr: OutputBuffer;
+  readCursor: number;
   exitCode: number | null;
+  signal: NodeJS.Signals | null;
   startTime: Date;
   endTime: Date;
+  durationMs: number;
+  screenSnapshot?: string;
+  cwd: string;
+  killReason: KillReason | null;
+  files?: SessionFiles;
 }
 
 // Define the server response types
@@ -45,6 +163,7 @@ export interface ServerResponseContent {
 
 export interface ServerResult {
   content: ServerResponseContent[];
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
   _meta?: Record<string, unknown>;
 }
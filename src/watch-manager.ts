@@ -0,0 +1,315 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { minimatch } from 'minimatch';
+import { terminalManager } from './terminal-manager.js';
+import { commandManager } from './command-manager.js';
+import { GitignoreMatcher } from './gitignore.js';
+import { CommandExecutionOptions } from './types.js';
+import { capture } from './utils.js';
+
+const DEFAULT_DEBOUNCE_MS = 500;
+// Runs remembered per watch
+const MAX_RUN_HISTORY = 20;
+// Changed files remembered per run
+const MAX_TRIGGER_FILES = 20;
+// Stop adding directory watchers beyond this many per watch
+const MAX_WATCHED_DIRECTORIES = 10000;
+
+export type WatchRunStatus = 'running' | 'passed' | 'failed' | 'cancelled' | 'error';
+
+export interface WatchRun {
+  number: number;
+  // Files whose change triggered the run, relative to the watch root
+  changedFiles: string[];
+  pid: number | null;
+  status: WatchRunStatus;
+  exitCode: number | null;
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface WatchInfo {
+  id: string;
+  command: string;
+  root: string;
+  patterns: string[];
+  debounceMs: number;
+  active: boolean;
+  createdAt: Date;
+  watchedDirectories: number;
+  runs: WatchRun[];
+}
+
+export interface WatchOptions {
+  command: string;
+  // Directory the globs are relative to, validated by the caller
+  root: string;
+  patterns: string[];
+  debounceMs?: number;
+  runOnStart?: boolean;
+  shell?: string;
+  options?: CommandExecutionOptions;
+}
+
+interface Watch {
+  info: WatchInfo;
+  shell?: string;
+  options: CommandExecutionOptions;
+  ignore: GitignoreMatcher;
+  watchers: Map<string, fs.FSWatcher>;
+  pending: Set<string>;
+  timer?: NodeJS.Timeout;
+  runCounter: number;
+}
+
+/**
+ * Reruns a command whenever files matching a set of globs change.
+ * Changes are debounced, paths ignored by git are skipped and a run that is still
+ * going when the next one starts is terminated. Every run is an ordinary terminal session.
+ */
+class WatchManager {
+  private watches: Map<string, Watch> = new Map();
+
+  /**
+   * Start watching
+   *
+   * @param options - Command, root directory, globs and execution options
+   * @returns Information about the new watch
+   */
+  async watch(options: WatchOptions): Promise<WatchInfo> {
+    const stats = await fs.promises.stat(options.root).catch(() => null);
+    if (!stats || !stats.isDirectory()) {
+      throw new Error(`Watch root does not exist or is not a directory: ${options.root}`);
+    }
+
+    const patterns = options.patterns.map(pattern => this.normalizePattern(options.root, pattern));
+    const watch: Watch = {
+      info: {
+        id: `watch-${crypto.randomBytes(4).toString('hex')}`,
+        command: options.command,
+        root: options.root,
+        patterns,
+        debounceMs: options.debounceMs ?? DEFAULT_DEBOUNCE_MS,
+        active: true,
+        createdAt: new Date(),
+        watchedDirectories: 0,
+        runs: []
+      },
+      shell: options.shell,
+      options: { ...options.options, cwd: options.options?.cwd || options.root },
+      ignore: new GitignoreMatcher(options.root),
+      watchers: new Map(),
+      pending: new Set(),
+      runCounter: 0
+    };
+
+    this.watchTree(watch, options.root);
+    this.watches.set(watch.info.id, watch);
+
+    if (options.runOnStart) {
+      await this.run(watch);
+    }
+    return watch.info;
+  }
+
+  get(id: string): WatchInfo | undefined {
+    return this.watches.get(id)?.info;
+  }
+
+  list(): WatchInfo[] {
+    return Array.from(this.watches.values()).map(watch => watch.info);
+  }
+
+  /**
+   * Stop watching. A run that is still going is left running and its history is kept.
+   *
+   * @returns False if no active watch has this id
+   */
+  stop(id: string): boolean {
+    const watch = this.watches.get(id);
+    if (!watch || !watch.info.active) {
+      return false;
+    }
+    watch.info.active = false;
+    clearTimeout(watch.timer);
+    watch.watchers.forEach(watcher => watcher.close());
+    watch.watchers.clear();
+    watch.info.watchedDirectories = 0;
+    return true;
+  }
+
+  /**
+   * Make a glob relative to the watch root, rejecting globs outside of it
+   */
+  private normalizePattern(root: string, pattern: string): string {
+    let relative = pattern;
+    if (path.isAbsolute(pattern)) {
+      relative = path.relative(root, pattern);
+    }
+    relative = relative.split(path.sep).join('/').replace(/^\.\//, '');
+    if (relative === '..' || relative.startsWith('../') || path.isAbsolute(relative)) {
+      throw new Error(`Glob must be inside the watched directory ${root}: ${pattern}`);
+    }
+    return relative;
+  }
+
+  /**
+   * Watch a directory and everything below it that git does not ignore.
+   * Linux has no efficient recursive watching, so each directory gets its own watcher
+   * and ignored directories such as node_modules are never entered.
+   */
+  private watchTree(watch: Watch, dir: string): void {
+    if (os.platform() !== 'linux') {
+      if (watch.watchers.size === 0) {
+        this.addWatcher(watch, dir, true);
+      }
+      return;
+    }
+
+    const queue = [dir];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (watch.watchers.has(current)) continue;
+      if (watch.watchers.size >= MAX_WATCHED_DIRECTORIES) {
+        console.error(`Watch ${watch.info.id} reached ${MAX_WATCHED_DIRECTORIES} directories, not watching ${current}`);
+        return;
+      }
+      if (!this.addWatcher(watch, current, false)) continue;
+
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(current, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+      for (const entry of entries) {
+        const child = path.join(current, entry.name);
+        if (entry.isDirectory() && !watch.ignore.isIgnored(path.relative(watch.info.root, child), true)) {
+          queue.push(child);
+        }
+      }
+    }
+  }
+
+  private addWatcher(watch: Watch, dir: string, recursive: boolean): boolean {
+    try {
+      const watcher = fs.watch(dir, { recursive }, (_event, filename) => {
+        if (filename) this.onChange(watch, path.join(dir, filename.toString()));
+      });
+      watcher.on('error', () => {
+        // The directory was removed
+        watcher.close();
+        watch.watchers.delete(dir);
+        watch.info.watchedDirectories = watch.watchers.size;
+      });
+      watch.watchers.set(dir, watcher);
+      watch.info.watchedDirectories = watch.watchers.size;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private onChange(watch: Watch, file: string): void {
+    if (!watch.info.active) return;
+    const relative = path.relative(watch.info.root, file);
+
+    if (path.basename(file) === '.gitignore') {
+      watch.ignore.invalidate();
+    }
+
+    let isDirectory = false;
+    try {
+      isDirectory = fs.statSync(file).isDirectory();
+    } catch {
+      // Deleted, still counts as a change
+    }
+    if (watch.ignore.isIgnored(relative, isDirectory)) {
+      return;
+    }
+    if (isDirectory) {
+      // New directories need watchers of their own
+      if (os.platform() === 'linux') this.watchTree(watch, file);
+      return;
+    }
+
+    const posixPath = relative.split(path.sep).join('/');
+    if (!watch.info.patterns.some(pattern => minimatch(posixPath, pattern, { dot: true }))) {
+      return;
+    }
+
+    watch.pending.add(posixPath);
+    clearTimeout(watch.timer);
+    watch.timer = setTimeout(() => {
+      this.run(watch).catch(error => console.error(`Watch ${watch.info.id} failed to run:`, error));
+    }, watch.info.debounceMs);
+  }
+
+  private async run(watch: Watch): Promise<void> {
+    const changedFiles = Array.from(watch.pending).slice(0, MAX_TRIGGER_FILES);
+    watch.pending.clear();
+
+    // Only the result for the latest changes matters
+    const previous = watch.info.runs[watch.info.runs.length - 1];
+    if (previous?.status === 'running' && previous.pid !== null) {
+      previous.status = 'cancelled';
+      previous.finishedAt = new Date();
+      await terminalManager.forceTerminate(previous.pid, { tree: true });
+    }
+
+    const run: WatchRun = {
+      number: ++watch.runCounter,
+      changedFiles,
+      pid: null,
+      status: 'running',
+      exitCode: null,
+      error: null,
+      startedAt: new Date(),
+      finishedAt: null
+    };
+    watch.info.runs.push(run);
+    if (watch.info.runs.length > MAX_RUN_HISTORY) {
+      watch.info.runs.shift();
+    }
+
+    const finish = (status: WatchRunStatus, exitCode: number | null, error?: string) => {
+      // A cancelled run reports its exit later, keep it cancelled
+      if (run.status !== 'running') return;
+      run.status = status;
+      run.exitCode = exitCode;
+      run.error = error ?? null;
+      run.finishedAt = new Date();
+    };
+
+    // The command policy may have changed since the watch started
+    const check = await commandManager.checkCommand(watch.info.command, watch.options.cwd);
+    if (!check.allowed) {
+      finish('error', null, commandManager.formatDenial(watch.info.command, check));
+      return;
+    }
+
+    capture('server_watch_run', {
+      command: commandManager.getBaseCommand(watch.info.command)
+    });
+
+    // A zero timeout returns as soon as the process has started
+    const result = await terminalManager.executeCommand(watch.info.command, 0, watch.shell, watch.options);
+    if (result.pid === -1) {
+      finish('error', null, result.output.replace(/^Error: /, ''));
+      return;
+    }
+    run.pid = result.pid;
+
+    const onExit = (exitCode: number | null) => finish(exitCode === 0 ? 'passed' : 'failed', exitCode);
+    if (!result.isBlocked) {
+      onExit(result.exitCode ?? null);
+    } else if (!terminalManager.onExit(result.pid, onExit)) {
+      onExit(terminalManager.getCompletedSession(result.pid)?.exitCode ?? null);
+    }
+  }
+}
+
+export const watchManager = new WatchManager();
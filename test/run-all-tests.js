@@ -72,7 +72,22 @@ async function runTestModules() {
     './test-directory-creation.js',
     './test-allowed-directories.js',
     './test-blocked-commands.js',
-    './test-home-directory.js'
+    './test-home-directory.js',
+    './test-command-parser.js',
+    './test-path-validation.js',
+    './test-terminal-input.js',
+    './test-readonly-mode.js',
+    './test-shell-sessions.js',
+    './test-redaction.js',
+    './test-server-state.js',
+    './test-approvals.js',
+    './test-directory-policies.js',
+    './test-cron.js',
+    './test-job-queue.js',
+    './test-output-buffer.js',
+    './test-watch-manager.js',
+    './test-audit-log.js',
+    './test-client-roots.js'
   ];
   
   // Dynamically find additional test files (optional)
@@ -0,0 +1,146 @@
+/**
+ * Test script for approvals through the pending approvals directory
+ *
+ * This script tests the fallback for clients that cannot ask the user:
+ * 1. Testing that a pending approval marked approved without the logged code is refused
+ * 2. Testing that the approval code from the server log approves the call once
+ * 3. Testing that approval rules also match the input send_input sends
+ */
+
+import { configManager } from '../dist/config-manager.js';
+import { approvalManager } from '../dist/approval-manager.js';
+import fs from 'fs';
+import path from 'path';
+import { APPROVALS_DIR } from '../dist/config.js';
+import assert from 'assert';
+
+// A client without elicitation
+const noElicitation = async () => null;
+
+/**
+ * Setup function to prepare the test environment
+ */
+async function setup() {
+  // Save original config to restore later
+  const originalConfig = await configManager.getConfig();
+  await configManager.updateConfig({
+    approvalRules: [{ tool: 'approval_test_tool' }, { command: '\\bshred\\b' }]
+  });
+  return originalConfig;
+}
+
+/**
+ * Teardown function to restore the config and remove the pending approvals of the test
+ */
+async function teardown(originalConfig) {
+  // Keys the original config did not have are removed again
+  const { approvalRules } = originalConfig;
+  await configManager.updateConfig({ ...originalConfig, approvalRules });
+  for (const approval of approvalManager.listPending()) {
+    if (approval.tool === 'approval_test_tool' || approval.tool === 'send_input') {
+      fs.rmSync(path.join(APPROVALS_DIR, `${approval.id}.json`), { force: true });
+    }
+  }
+  console.log('✓ Teardown: config restored');
+}
+
+/**
+ * Run a call through the approval check, returning the decision and what the server logged
+ */
+async function checkCall(tool, args) {
+  const logged = [];
+  const consoleError = console.error;
+  console.error = (...parts) => logged.push(parts.join(' '));
+  try {
+    const decision = await approvalManager.check(tool, args, noElicitation);
+    return { decision, log: logged.join('\n') };
+  } finally {
+    console.error = consoleError;
+  }
+}
+
+/**
+ * Set fields of the pending approval of a tool, the way the user edits the file
+ */
+function editPending(tool, fields) {
+  const approval = approvalManager.listPending().find(pending => pending.tool === tool);
+  assert.ok(approval, `A pending approval should exist for ${tool}`);
+  const file = path.join(APPROVALS_DIR, `${approval.id}.json`);
+  fs.writeFileSync(file, JSON.stringify({ ...approval, ...fields }, null, 2));
+  return approval;
+}
+
+/**
+ * Test that only the logged approval code approves a call
+ */
+async function testApprovalCode() {
+  console.log('\nTest 1: Approving without the approval code');
+
+  const args = { value: 'approval test' };
+  const first = await checkCall('approval_test_tool', args);
+  assert.strictEqual(first.decision.approved, false, 'The call should wait for approval');
+  const code = first.log.match(/Approval code for approval-[0-9a-f]+ .*: ([0-9a-f]+)$/m)?.[1];
+  assert.ok(code, 'The approval code should be logged');
+  assert.ok(!first.decision.message.includes(code), 'The approval code should not be in the tool result');
+  const pending = approvalManager.listPending().find(approval => approval.tool === 'approval_test_tool');
+  assert.ok(!JSON.stringify(pending).includes(code), 'The approval code should not be in the pending approval file');
+
+  editPending('approval_test_tool', { status: 'approved' });
+  const forged = await checkCall('approval_test_tool', args);
+  assert.strictEqual(forged.decision.approved, false, 'An approval without the code should be refused');
+  editPending('approval_test_tool', { status: 'approved', code: '00000000' });
+  const wrongCode = await checkCall('approval_test_tool', args);
+  assert.strictEqual(wrongCode.decision.approved, false, 'An approval with a wrong code should be refused');
+  console.log('✓ Approvals without the logged code are refused');
+
+  console.log('\nTest 2: Approving with the approval code');
+  editPending('approval_test_tool', { status: 'approved', code });
+  const approved = await checkCall('approval_test_tool', args);
+  assert.strictEqual(approved.decision.approved, true, 'The approval with the logged code should let the call run');
+  const again = await checkCall('approval_test_tool', args);
+  assert.strictEqual(again.decision.approved, false, 'An approval should be used once');
+  console.log('✓ The logged code approves the call once');
+}
+
+/**
+ * Test that command rules match send_input's input
+ */
+async function testSendInputRules() {
+  console.log('\nTest 3: Approval rules for send_input');
+
+  const { decision } = await checkCall('send_input', { pid: 1234, input: 'shred notes.txt' });
+  assert.strictEqual(decision.approved, false, 'Input matching a command rule should wait for approval');
+  const harmless = await checkCall('send_input', { pid: 1234, input: 'ls' });
+  assert.strictEqual(harmless.decision.approved, true, 'Input matching no rule should not wait for approval');
+  console.log('✓ Command rules match the input send_input sends');
+}
+
+// Export the main test function
+export default async function runTests() {
+  let originalConfig;
+  try {
+    originalConfig = await setup();
+    console.log('=== Approval Tests ===');
+    await testApprovalCode();
+    await testSendInputRules();
+    console.log('\n✅ All approval tests passed!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    return false;
+  } finally {
+    if (originalConfig) {
+      await teardown(originalConfig);
+    }
+  }
+  return true;
+}
+
+// If this file is run directly (not imported), execute the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTests().then(success => {
+    process.exit(success ? 0 : 1);
+  }).catch(error => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
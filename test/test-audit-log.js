@@ -0,0 +1,173 @@
+/**
+ * Test script for the audit log
+ *
+ * This script tests how tool calls are written to the audit log and found again:
+ * 1. Testing that the log is rotated at auditLogMaxBytes and keeps auditLogMaxFiles older files
+ * 2. Testing that query filters by tool, path, command, errors and time
+ * 3. Testing that secret arguments are not written to the log
+ */
+
+import { configManager } from '../dist/config-manager.js';
+import { auditLog } from '../dist/audit-log.js';
+import { AUDIT_LOG_FILE } from '../dist/config.js';
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+
+const LOG_DIR = path.dirname(AUDIT_LOG_FILE);
+const LOG_FILE_NAME = /^audit(\.\d+)?\.jsonl$/;
+const BACKUP_SUFFIX = '.test-backup';
+const MAX_BYTES = 1500;
+const MAX_FILES = 2;
+
+/**
+ * Names of the audit log and its rotated files
+ */
+function logFiles() {
+  return fs.existsSync(LOG_DIR) ? fs.readdirSync(LOG_DIR).filter(name => LOG_FILE_NAME.test(name)) : [];
+}
+
+/**
+ * Setup function to prepare the test environment
+ */
+async function setup() {
+  // Save original config to restore later
+  const originalConfig = await configManager.getConfig();
+  // The user's audit log is moved aside so the test starts empty and does not rotate it away
+  for (const name of logFiles()) {
+    fs.renameSync(path.join(LOG_DIR, name), path.join(LOG_DIR, name + BACKUP_SUFFIX));
+  }
+  await configManager.updateConfig({ auditLog: true, auditLogMaxBytes: MAX_BYTES, auditLogMaxFiles: MAX_FILES });
+  return originalConfig;
+}
+
+/**
+ * Teardown function to restore the config and the user's audit log
+ */
+async function teardown(originalConfig) {
+  // Keys the original config did not have are removed again
+  const { auditLog: enabled, auditLogMaxBytes, auditLogMaxFiles } = originalConfig;
+  await configManager.updateConfig({ ...originalConfig, auditLog: enabled, auditLogMaxBytes, auditLogMaxFiles });
+  for (const name of logFiles()) {
+    fs.rmSync(path.join(LOG_DIR, name), { force: true });
+  }
+  for (const name of fs.readdirSync(LOG_DIR).filter(name => name.endsWith(BACKUP_SUFFIX))) {
+    fs.renameSync(path.join(LOG_DIR, name), path.join(LOG_DIR, name.slice(0, -BACKUP_SUFFIX.length)));
+  }
+  console.log('✓ Teardown: config and audit log restored');
+}
+
+/**
+ * Record a tool call that started at the given time
+ */
+function record(tool, args, { error = false, startedAt = new Date() } = {}) {
+  const result = { content: [{ type: 'text', text: error ? 'Error: something failed\nDetails' : 'done' }], isError: error };
+  auditLog.record(tool, args, result, startedAt);
+}
+
+/**
+ * Test that the log is rotated and old files are dropped
+ */
+async function testRotation() {
+  console.log('\nTest 1: Rotation');
+
+  for (let i = 0; i < 30; i++) {
+    record('read_file', { path: `/tmp/audit-test/file-${i}.txt` });
+  }
+  const entries = await auditLog.query({ limit: 100 });
+
+  const files = logFiles().sort();
+  assert.deepStrictEqual(files, ['audit.1.jsonl', 'audit.2.jsonl', 'audit.jsonl'], 'The log and auditLogMaxFiles rotated files should be kept');
+  for (const name of files) {
+    assert.ok(fs.statSync(path.join(LOG_DIR, name)).size <= MAX_BYTES, `${name} should not grow past auditLogMaxBytes`);
+  }
+  console.log('✓ The log is rotated at auditLogMaxBytes and keeps auditLogMaxFiles older files');
+
+  assert.ok(entries.length > 0 && entries.length < 30, 'Entries in dropped files should no longer be found');
+  assert.strictEqual(entries[0].paths[0], '/tmp/audit-test/file-29.txt', 'The newest entry should come first');
+  const numbers = entries.map(entry => Number(entry.paths[0].match(/file-(\d+)/)[1]));
+  assert.deepStrictEqual(numbers, numbers.map((_, index) => 29 - index), 'Entries should be found newest first across the rotated files');
+  console.log(`✓ Query reads the rotated files, newest first (${entries.length} entries kept)`);
+}
+
+/**
+ * Test the query filters
+ */
+async function testQueryFilters() {
+  console.log('\nTest 2: Query filters');
+
+  // Start from an empty log so only the entries below are found
+  for (const name of logFiles()) {
+    fs.rmSync(path.join(LOG_DIR, name));
+  }
+  await configManager.updateConfig({ auditLogMaxBytes: 1024 * 1024 });
+
+  const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+  record('execute_command', { command: 'npm test', cwd: '/tmp/project' }, { startedAt: hourAgo });
+  record('execute_command', { command: 'rm -rf dist' }, { error: true });
+  record('write_file', { path: '/tmp/project/src/index.ts', content: 'x' });
+  record('read_file', { path: '/tmp/project-other/notes.md' });
+  record('edit_block', { path: '/tmp/project/README.md' }, { error: true });
+
+  const tools = async query => (await auditLog.query(query)).map(entry => entry.tool);
+  assert.deepStrictEqual(await tools({ tool: 'execute_*' }), ['execute_command', 'execute_command'], 'Tool globs should match tool names');
+  assert.deepStrictEqual(await tools({ path: '/tmp/project' }), ['edit_block', 'write_file', 'execute_command'], 'A path should match itself and paths below it, not siblings sharing its prefix');
+  assert.deepStrictEqual(await tools({ command: /^rm\b/ }), ['execute_command'], 'Commands should match the regular expression');
+  assert.deepStrictEqual(await tools({ errorsOnly: true }), ['edit_block', 'execute_command'], 'Only failed calls should be found with errorsOnly');
+  assert.strictEqual((await tools({ since: new Date(Date.now() - 60 * 1000) })).length, 4, 'Entries before since should be left out');
+  assert.deepStrictEqual(await tools({ until: new Date(Date.now() - 60 * 1000) }), ['execute_command'], 'Entries after until should be left out');
+  assert.deepStrictEqual(await tools({ errorsOnly: true, tool: 'execute_command' }), ['execute_command'], 'Every filter that is set should match');
+  assert.strictEqual((await auditLog.query({ limit: 2 })).length, 2, 'No more entries than the limit should be returned');
+  console.log('✓ Tool, path, command, error, time and limit filters match');
+
+  const [failed] = await auditLog.query({ errorsOnly: true, tool: 'execute_command' });
+  assert.strictEqual(failed.error, 'Error: something failed', 'Only the first line of the error should be logged');
+  assert.strictEqual(failed.status, 'error', 'The call should be logged as failed');
+}
+
+/**
+ * Test that secrets are not written to the log
+ */
+async function testSecrets() {
+  console.log('\nTest 3: Secrets');
+
+  record('ssh_connect', { host: 'example.com', password: 'kX9mQ2vL7pZ4wR8t', options: { apiKey: 'kX9mQ2vL7pZ4wR8t' } });
+  record('execute_command', { command: 'deploy', env: { DEPLOY_TOKEN: 'kX9mQ2vL7pZ4wR8t' } });
+  await auditLog.query({ limit: 1 });
+  const written = fs.readFileSync(AUDIT_LOG_FILE, 'utf8');
+  assert.ok(!written.includes('kX9mQ2vL7pZ4wR8t'), 'Secret arguments should not be written to the log');
+  const [entry] = await auditLog.query({ tool: 'execute_command', command: /^deploy$/ });
+  assert.deepStrictEqual(entry.arguments.env, { DEPLOY_TOKEN: '[REDACTED]' }, 'Environment variables should be logged without their values');
+  console.log('✓ Secret arguments are redacted');
+}
+
+// Export the main test function
+export default async function runTests() {
+  let originalConfig;
+  try {
+    originalConfig = await setup();
+    console.log('=== Audit Log Tests ===');
+    await testRotation();
+    await testQueryFilters();
+    await testSecrets();
+    console.log('\n✅ All audit log tests passed!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    return false;
+  } finally {
+    if (originalConfig) {
+      await teardown(originalConfig);
+    }
+  }
+  return true;
+}
+
+// If this file is run directly (not imported), execute the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTests().then(success => {
+    process.exit(success ? 0 : 1);
+  }).catch(error => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
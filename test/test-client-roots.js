@@ -0,0 +1,163 @@
+/**
+ * Test script for client workspace roots
+ *
+ * This script tests which directories are allowed for each allowedDirectoriesSource:
+ * 1. Testing that the allowedDirectories setting applies until the client lists its roots
+ * 2. Testing that the roots source replaces the setting with the client roots
+ * 3. Testing that the intersection source keeps only what both allow
+ * 4. Testing that file operations are limited to the intersection
+ */
+
+import { configManager } from '../dist/config-manager.js';
+import { rootsManager } from '../dist/client-roots.js';
+import { validatePath } from '../dist/tools/filesystem.js';
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+const BASE_DIR = path.join(fs.realpathSync(os.tmpdir()), `client-roots-test-${process.pid}`);
+const WORKSPACE = path.join(BASE_DIR, 'workspace');
+const PROJECT = path.join(WORKSPACE, 'project');
+const OTHER = path.join(BASE_DIR, 'other');
+
+/**
+ * Setup function to prepare the test environment
+ */
+async function setup() {
+  // Save original config to restore later
+  const originalConfig = await configManager.getConfig();
+  for (const dir of [PROJECT, path.join(WORKSPACE, 'project-old'), OTHER]) {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'file.txt'), 'test');
+  }
+  return originalConfig;
+}
+
+/**
+ * Teardown function to restore the config and forget the roots
+ */
+async function teardown(originalConfig) {
+  rootsManager.clear();
+  // Keys the original config did not have are removed again
+  const { allowedDirectoriesSource } = originalConfig;
+  await configManager.updateConfig({ ...originalConfig, allowedDirectoriesSource });
+  fs.rmSync(BASE_DIR, { recursive: true, force: true });
+  console.log('✓ Teardown: config restored');
+}
+
+/**
+ * Let the client list roots given as paths
+ */
+function listRoots(...dirs) {
+  rootsManager.setRoots(dirs.map(dir => pathToFileURL(dir).href));
+}
+
+/**
+ * Test the behavior before the client listed its roots
+ */
+async function testWithoutRoots() {
+  console.log('\nTest 1: Before the client lists its roots');
+
+  rootsManager.clear();
+  for (const source of ['config', 'roots', 'intersection']) {
+    assert.deepStrictEqual(rootsManager.allowedDirectories([WORKSPACE], source), [WORKSPACE], `The setting should apply for ${source} until roots are listed`);
+    assert.strictEqual(rootsManager.usesRoots(source), false, `No roots should be used for ${source} until roots are listed`);
+  }
+  console.log('✓ The allowedDirectories setting applies');
+}
+
+/**
+ * Test the roots source
+ */
+async function testRootsSource() {
+  console.log('\nTest 2: The roots source');
+
+  const consoleError = console.error;
+  console.error = () => {};
+  try {
+    rootsManager.setRoots([pathToFileURL(PROJECT).href, 'https://example.com/repo']);
+  } finally {
+    console.error = consoleError;
+  }
+  assert.deepStrictEqual(rootsManager.getRoots(), [PROJECT], 'Roots that are not file:// URIs should be ignored');
+  assert.deepStrictEqual(rootsManager.allowedDirectories([OTHER], 'roots'), [PROJECT], 'The roots should replace the setting');
+  assert.deepStrictEqual(rootsManager.allowedDirectories([OTHER], 'config'), [OTHER], 'The config source should ignore the roots');
+  console.log('✓ The roots replace the setting, only for the roots source');
+}
+
+/**
+ * Test how the intersection source combines the setting and the roots
+ */
+async function testIntersection() {
+  console.log('\nTest 3: The intersection source');
+
+  listRoots(PROJECT);
+  assert.deepStrictEqual(rootsManager.allowedDirectories([WORKSPACE], 'intersection'), [PROJECT], 'A root inside an allowed directory should be kept as it is');
+  listRoots(WORKSPACE);
+  assert.deepStrictEqual(rootsManager.allowedDirectories([PROJECT], 'intersection'), [PROJECT], 'An allowed directory inside a root should be kept as it is');
+  assert.deepStrictEqual(rootsManager.allowedDirectories([PROJECT, OTHER], 'intersection'), [PROJECT], 'Allowed directories outside every root should be dropped');
+  console.log('✓ The deeper of two nested directories is kept');
+
+  listRoots(path.join(WORKSPACE, 'project-old'));
+  assert.deepStrictEqual(rootsManager.allowedDirectories([PROJECT], 'intersection'), [], 'A sibling sharing a prefix should not count as nested');
+  listRoots(PROJECT, OTHER);
+  assert.deepStrictEqual(rootsManager.allowedDirectories([], 'intersection'), [PROJECT, OTHER], 'An empty setting allows everything, so the roots should be kept');
+  assert.deepStrictEqual(rootsManager.allowedDirectories(['/'], 'intersection'), [PROJECT, OTHER], 'A setting allowing / should keep the roots');
+  console.log('✓ Unrelated directories are dropped and a setting allowing everything keeps the roots');
+
+  listRoots(path.join(os.homedir(), 'intersection-test-project'));
+  assert.deepStrictEqual(rootsManager.allowedDirectories(['~'], 'intersection'), [path.join(os.homedir(), 'intersection-test-project')], '~ in the setting should be the home directory');
+  console.log('✓ ~ in the setting is expanded');
+}
+
+/**
+ * Test that file operations follow the intersection
+ */
+async function testFileAccess() {
+  console.log('\nTest 4: File access with the intersection source');
+
+  await configManager.updateConfig({ allowedDirectories: [WORKSPACE], allowedDirectoriesSource: 'intersection' });
+  listRoots(PROJECT, OTHER);
+  assert.strictEqual(await validatePath(path.join(PROJECT, 'file.txt')), path.join(PROJECT, 'file.txt'), 'Files in the intersection should be allowed');
+  await assert.rejects(validatePath(path.join(WORKSPACE, 'project-old', 'file.txt')), /Path not allowed/, 'Files allowed by the setting but outside the roots should be refused');
+  await assert.rejects(validatePath(path.join(OTHER, 'file.txt')), /Path not allowed/, 'Files in a root but outside the setting should be refused');
+  console.log('✓ Only files both allow can be accessed');
+
+  listRoots(OTHER);
+  await assert.rejects(validatePath(path.join(PROJECT, 'file.txt')), /Path not allowed/, 'An empty intersection should allow nothing');
+  console.log('✓ An empty intersection allows nothing');
+}
+
+// Export the main test function
+export default async function runTests() {
+  let originalConfig;
+  try {
+    originalConfig = await setup();
+    console.log('=== Client Roots Tests ===');
+    await testWithoutRoots();
+    await testRootsSource();
+    await testIntersection();
+    await testFileAccess();
+    console.log('\n✅ All client roots tests passed!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    return false;
+  } finally {
+    if (originalConfig) {
+      await teardown(originalConfig);
+    }
+  }
+  return true;
+}
+
+// If this file is run directly (not imported), execute the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTests().then(success => {
+    process.exit(success ? 0 : 1);
+  }).catch(error => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
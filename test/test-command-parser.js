@@ -0,0 +1,220 @@
+/**
+ * Test script for shell command parsing
+ *
+ * This script tests that commands hidden in shell syntax are found:
+ * 1. Testing extraction of command names from shell syntax
+ * 2. Testing that bypass attempts of blockedCommands are blocked
+ * 3. Testing that harmless commands mentioning blocked ones are allowed
+ * 4. Testing that commands whose names are only known when they run are denied
+ */
+
+import { configManager } from '../dist/config-manager.js';
+import { commandManager } from '../dist/command-manager.js';
+import { resolveCommands } from '../dist/shell-parser.js';
+import assert from 'assert';
+
+// Command lines and the command names they run
+const EXTRACTION_CASES = [
+  ['ls -la', ['ls']],
+  ['cd /tmp && make; echo done || true', ['cd', 'make', 'echo', 'true']],
+  ['cat file | grep x | sort -u', ['cat', 'grep', 'sort']],
+  ['/usr/bin/git status', ['git']],
+  ['FOO=1 BAR="a b" node app.js', ['node']],
+  ['echo $(date) `whoami`', ['echo', 'date', 'whoami']],
+  ['bash -c "npm install && npm test"', ['bash', 'npm']],
+  ['env NODE_ENV=test timeout 60 nice -n 5 npm test', ['env', 'timeout', 'nice', 'npm']],
+  ['find . -name "*.tmp" -exec rm {} \\;', ['find', 'rm']],
+  ['if [ -f x ]; then cat x; else touch x; fi', ['[', 'cat', 'touch']],
+  ['for f in *.js; do node --check "$f"; done', ['node']],
+  ['case "$1" in start) run;; *) usage;; esac', ['run', 'usage']],
+  ['echo "a; rm b" \'c | mkfs\' # ; shutdown', ['echo']],
+  ['ls 2>&1 >/dev/null', ['ls']]
+];
+
+// Ways to run a blocked command that only the command name check would miss
+const BYPASS_ATTEMPTS = [
+  '/bin/rm -rf /tmp/x',
+  '\\rm -rf /tmp/x',
+  '"rm" -rf /tmp/x',
+  'r\'m\' -rf /tmp/x',
+  'echo $(rm -rf /tmp/x)',
+  'echo "$(rm -rf /tmp/x)"',
+  'echo `rm -rf /tmp/x`',
+  'echo ${X:-$(rm -rf /tmp/x)}',
+  'echo $((1 + $(rm -rf /tmp/x)))',
+  'X=$(rm -rf /tmp/x) ls',
+  'bash -c "rm -rf /tmp/x"',
+  'sh -lc \'cd /tmp; rm -rf x\'',
+  'sudo sh -c "rm -rf /tmp/x"',
+  'eval "rm -rf /tmp/x"',
+  'env rm -rf /tmp/x',
+  'env -i FOO=1 rm -rf /tmp/x',
+  'env -S "rm -rf" /tmp/x',
+  'nohup rm -rf /tmp/x &',
+  'timeout -s KILL 10 rm -rf /tmp/x',
+  'nice -n 19 rm -rf /tmp/x',
+  'time rm -rf /tmp/x',
+  'command rm -rf /tmp/x',
+  'exec rm -rf /tmp/x',
+  'ls /tmp | xargs -I {} rm -rf {}',
+  'find /tmp -name x -exec rm -rf {} \\;',
+  'diff <(rm -rf /tmp/x) /dev/null',
+  'bash <<EOF\nrm -rf /tmp/x\nEOF',
+  'sh <<< "rm -rf /tmp/x"',
+  'cat <<EOF\n$(rm -rf /tmp/x)\nEOF',
+  '(cd /tmp && rm -rf x)',
+  '{ rm -rf /tmp/x; }',
+  'if true; then rm -rf /tmp/x; fi',
+  'while false; do :; done; rm -rf /tmp/x',
+  'f() { rm -rf /tmp/x; }; f',
+  '/sbin/mkfs /dev/sdz',
+  'sudo -u root /sbin/mkfs.ext4 /dev/sdz',
+  'script -qc "rm -rf /tmp/x" /dev/null',
+  'script --command="rm -rf /tmp/x"',
+  'flock /tmp/lock rm -rf /tmp/x',
+  'flock -n /tmp/lock -c "rm -rf /tmp/x"',
+  'taskset 0x1 rm -rf /tmp/x',
+  'taskset -c 0 rm -rf /tmp/x',
+  'strace -f -o /dev/null rm -rf /tmp/x',
+  'coproc rm -rf /tmp/x',
+  'coproc cleanup { rm -rf /tmp/x; }',
+  'su -c "rm -rf /tmp/x" root',
+  'su root -lc "rm -rf /tmp/x"',
+  'chrt -f 10 rm -rf /tmp/x',
+  'nsenter -t 1 -m rm -rf /tmp/x',
+  'unshare -r rm -rf /tmp/x',
+  'systemd-run --user -p MemoryMax=1G rm -rf /tmp/x',
+  // Deeper than the parser follows
+  'nohup '.repeat(17) + 'mkfs /dev/sda',
+  'echo $('.repeat(20) + 'rm -rf /tmp/x' + ')'.repeat(20)
+];
+
+// Command names that come from expansions, substitutions, patterns or a shell's standard input
+const DYNAMIC_COMMANDS = [
+  'x=sudo; $x ls',
+  '${X:-sudo} ls',
+  '$"sudo" ls',
+  '$(echo sudo) ls',
+  '`echo sudo` ls',
+  'echo sudo ls | sh',
+  'echo sudo ls | bash -s',
+  'env $CMD -rf /tmp/x',
+  '/usr/bin/su?o ls',
+  '{sudo,echo} ls',
+  'sh < script.sh',
+  'find /tmp -name "*.sh" -exec {} \\;'
+];
+
+// Commands that only mention blocked commands as data
+const HARMLESS_COMMANDS = [
+  'echo "rm -rf /tmp/x"',
+  'grep -r \'rm -rf\' .',
+  'cat <<\'EOF\'\n$(rm -rf /tmp/x)\nEOF',
+  'git commit -m "remove rm calls"',
+  'ls # rm -rf /tmp/x',
+  '"$VENV/bin/python" -V',
+  '$HOME/bin/tool --version',
+  'bash <<EOF\nls\nEOF',
+  'bash ./build.sh'
+];
+
+/**
+ * Setup function to prepare the test environment
+ */
+async function setup() {
+  // Save original config to restore later
+  const originalConfig = await configManager.getConfig();
+  await configManager.setValue('blockedCommands', ['rm', 'mkfs', 'mkfs.ext4', 'sudo']);
+  return originalConfig;
+}
+
+/**
+ * Teardown function to restore the config
+ */
+async function teardown(originalConfig) {
+  await configManager.updateConfig(originalConfig);
+  console.log('✓ Teardown: config restored');
+}
+
+/**
+ * Test extraction of command names
+ */
+async function testExtraction() {
+  console.log('\nTest 1: Extraction of command names');
+
+  for (const [command, expected] of EXTRACTION_CASES) {
+    const names = [...new Set(resolveCommands(command).map(resolved => resolved.name))];
+    assert.deepStrictEqual(names, expected, `Unexpected commands for: ${command}`);
+    assert.deepStrictEqual(commandManager.extractCommands(command), expected, `extractCommands should match for: ${command}`);
+    console.log(`✓ ${JSON.stringify(command)} runs ${names.join(', ')}`);
+  }
+}
+
+/**
+ * Test that bypass attempts are blocked
+ */
+async function testBypassAttempts() {
+  console.log('\nTest 2: Bypass attempts of blockedCommands');
+
+  for (const command of BYPASS_ATTEMPTS) {
+    const isAllowed = await commandManager.validateCommand(command);
+    assert.strictEqual(isAllowed, false, `Command should be blocked: ${command}`);
+    console.log(`✓ Blocked: ${JSON.stringify(command)}`);
+  }
+}
+
+/**
+ * Test that commands mentioning blocked commands as data are allowed
+ */
+async function testHarmlessCommands() {
+  console.log('\nTest 3: Commands mentioning blocked commands');
+
+  for (const command of HARMLESS_COMMANDS) {
+    const isAllowed = await commandManager.validateCommand(command);
+    assert.strictEqual(isAllowed, true, `Command should be allowed: ${command}`);
+    console.log(`✓ Allowed: ${JSON.stringify(command)}`);
+  }
+}
+
+/**
+ * Test that commands whose names are only known when they run are denied
+ */
+async function testDynamicCommands() {
+  console.log('\nTest 4: Command names only known when they run');
+
+  for (const command of DYNAMIC_COMMANDS) {
+    const result = await commandManager.checkCommand(command);
+    assert.strictEqual(result.allowed, false, `Command should be denied: ${command}`);
+    console.log(`✓ Denied: ${JSON.stringify(command)} (${result.reason})`);
+  }
+}
+
+// Export the main test function
+export default async function runTests() {
+  let originalConfig;
+  try {
+    originalConfig = await setup();
+    console.log('=== Shell Command Parser Tests ===');
+    await testExtraction();
+    await testBypassAttempts();
+    await testHarmlessCommands();
+    await testDynamicCommands();
+    console.log('\n✅ All command parser tests passed!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    return false;
+  } finally {
+    if (originalConfig) {
+      await teardown(originalConfig);
+    }
+  }
+  return true;
+}
+
+// If this file is run directly (not imported), execute the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTests().catch(error => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
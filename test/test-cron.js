@@ -0,0 +1,145 @@
+/**
+ * Test script for cron expressions
+ *
+ * This script tests the cron parser and the search for the next run:
+ * 1. Testing that fields, ranges with steps and names are parsed
+ * 2. Testing that invalid expressions are rejected
+ * 3. Testing that day of month and day of week match either when both are restricted
+ * 4. Testing that months too short for a day of month are skipped
+ * 5. Testing the next run around daylight saving time changes
+ */
+
+import { parseCron, nextCronTime } from '../dist/cron.js';
+import assert from 'assert';
+
+/**
+ * Find the next run of an expression after a local time
+ */
+function next(expression, after) {
+  return nextCronTime(parseCron(expression), after);
+}
+
+/**
+ * Test that fields are parsed into the values they match
+ */
+async function testParsing() {
+  console.log('\nTest 1: Parsing fields');
+
+  const schedule = parseCron('0-30/10 5/6 1,15 jan-mar 7');
+  assert.deepStrictEqual([...schedule.minutes], [0, 10, 20, 30], 'A range with a step should match every step in the range');
+  assert.deepStrictEqual([...schedule.hours], [5, 11, 17, 23], 'A start with a step should run to the end of the field');
+  assert.deepStrictEqual([...schedule.daysOfMonth], [1, 15], 'Lists should match each of their values');
+  assert.deepStrictEqual([...schedule.months], [1, 2, 3], 'Month names should be accepted in ranges');
+  assert.deepStrictEqual([...schedule.daysOfWeek], [0], 'Day of week 7 should be Sunday');
+  console.log('✓ Ranges, steps, lists and names are parsed');
+
+  assert.deepStrictEqual([...parseCron('*/15 * * * *').minutes], [0, 15, 30, 45], 'A step over * should start at the first value');
+  assert.deepStrictEqual([...parseCron('0 0 * * mon-fri').daysOfWeek], [1, 2, 3, 4, 5], 'Day names should be accepted in ranges');
+  const weekly = parseCron('@weekly');
+  assert.deepStrictEqual([[...weekly.minutes], [...weekly.hours], [...weekly.daysOfWeek]], [[0], [0], [0]], '@weekly should run at midnight on Sunday');
+  console.log('✓ Steps over *, day names and macros are parsed');
+}
+
+/**
+ * Test that invalid expressions are rejected
+ */
+async function testInvalidExpressions() {
+  console.log('\nTest 2: Invalid expressions');
+
+  for (const expression of ['* * * *', '60 * * * *', '0 24 * * *', '0 0 0 * *', '0 0 * 13 *', '0 0 * * 8', '30-10 * * * *', '*/0 * * * *', '0 0 * * funday', '@often']) {
+    assert.throws(() => parseCron(expression), Error, `The expression should be rejected: ${expression}`);
+    console.log(`✓ Rejected: ${JSON.stringify(expression)}`);
+  }
+}
+
+/**
+ * Test how day of month and day of week combine
+ */
+async function testDayFields() {
+  console.log('\nTest 3: Day of month and day of week');
+
+  // 2026-10-01 is a Thursday, 2026-10-13 a Tuesday
+  const thirteenthOrFriday = '0 9 13 * 5';
+  assert.deepStrictEqual(next(thirteenthOrFriday, new Date(2026, 9, 1, 12, 0)), new Date(2026, 9, 2, 9, 0), 'A Friday should match although it is not the 13th');
+  assert.deepStrictEqual(next(thirteenthOrFriday, new Date(2026, 9, 10, 12, 0)), new Date(2026, 9, 13, 9, 0), 'The 13th should match although it is not a Friday');
+  console.log('✓ Either day field matches when both are restricted');
+
+  assert.deepStrictEqual(next('0 9 13 * *', new Date(2026, 9, 1, 12, 0)), new Date(2026, 9, 13, 9, 0), 'Only the day of month should match when the day of week is *');
+  assert.deepStrictEqual(next('0 9 * * 5', new Date(2026, 9, 3, 12, 0)), new Date(2026, 9, 9, 9, 0), 'Only the day of week should match when the day of month is *');
+  assert.deepStrictEqual(next('0 9 */2 * 5', new Date(2026, 9, 1, 12, 0)), new Date(2026, 9, 9, 9, 0), 'A day of month starting with * should combine with the day of week');
+  console.log('✓ A day field starting with * does not widen the other one');
+}
+
+/**
+ * Test that days a month does not have are skipped
+ */
+async function testMonthEnds() {
+  console.log('\nTest 4: Month ends');
+
+  assert.deepStrictEqual(next('0 0 31 * *', new Date(2026, 3, 1)), new Date(2026, 4, 31), 'Months without a 31st should be skipped');
+  assert.deepStrictEqual(next('0 0 31 * *', new Date(2026, 0, 31, 0, 0)), new Date(2026, 2, 31), 'February should be skipped for the 31st');
+  assert.deepStrictEqual(next('0 0 29 2 *', new Date(2026, 0, 1)), new Date(2028, 1, 29), 'February 29th should wait for the next leap year');
+  assert.deepStrictEqual(next('59 23 30 * *', new Date(2026, 1, 1)), new Date(2026, 2, 30, 23, 59), 'The 30th should not match the end of February');
+  console.log('✓ Days a month does not have are skipped');
+
+  assert.strictEqual(next('0 0 31 2 *', new Date(2026, 0, 1)), null, 'An expression that never matches should have no next run');
+  assert.strictEqual(next('0 0 30 2 *', new Date(2026, 0, 1)), null, 'February 30th should never run');
+  console.log('✓ Expressions that never match have no next run');
+}
+
+/**
+ * Test the next run when the clocks change
+ */
+async function testDaylightSavingTime() {
+  console.log('\nTest 5: Daylight saving time');
+
+  const originalTimeZone = process.env.TZ;
+  process.env.TZ = 'America/New_York';
+  try {
+    // On 2026-03-08 the clocks go from 02:00 to 03:00, on 2026-11-01 from 02:00 back to 01:00
+    const skipped = next('30 2 * * *', new Date(2026, 2, 8, 0, 0));
+    assert.strictEqual(skipped.getTime(), Date.parse('2026-03-09T02:30:00-04:00'), 'A time that does not exist should run on the next day it exists');
+    const hourly = next('0 * * * *', new Date(2026, 2, 8, 1, 0));
+    assert.strictEqual(hourly.getTime(), Date.parse('2026-03-08T03:00:00-04:00'), 'The hour after 01:00 should be 03:00 when the clocks go forward');
+    console.log('✓ Times skipped when the clocks go forward do not run');
+
+    const first = next('30 1 * * *', new Date(2026, 10, 1, 0, 0));
+    assert.strictEqual(first.getTime(), Date.parse('2026-11-01T01:30:00-04:00'), 'A repeated time should run at its first occurrence');
+    const second = nextCronTime(parseCron('30 1 * * *'), first);
+    assert.strictEqual(second.getTime(), Date.parse('2026-11-02T01:30:00-05:00'), 'A repeated time should not run twice');
+    console.log('✓ Times repeated when the clocks go back run once');
+  } finally {
+    if (originalTimeZone === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = originalTimeZone;
+    }
+  }
+}
+
+// Export the main test function
+export default async function runTests() {
+  try {
+    console.log('=== Cron Expression Tests ===');
+    await testParsing();
+    await testInvalidExpressions();
+    await testDayFields();
+    await testMonthEnds();
+    await testDaylightSavingTime();
+    console.log('\n✅ All cron expression tests passed!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    return false;
+  }
+  return true;
+}
+
+// If this file is run directly (not imported), execute the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTests().then(success => {
+    process.exit(success ? 0 : 1);
+  }).catch(error => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Test script for directoryCommandPolicies
+ *
+ * This script tests which directory policy applies to a command:
+ * 1. Testing that the policy of the working directory applies
+ * 2. Testing that cd and pushd into a directory apply its policy
+ * 3. Testing that directory changes only known when the command runs are denied
+ */
+
+import { configManager } from '../dist/config-manager.js';
+import { commandManager } from '../dist/command-manager.js';
+import assert from 'assert';
+import os from 'os';
+import path from 'path';
+
+const PROTECTED_DIR = path.join(os.tmpdir(), 'directory-policy-test', 'protected');
+const PARENT_DIR = path.dirname(PROTECTED_DIR);
+
+// Command lines run from the parent directory that end up running touch in the protected one
+const ESCAPES = [
+  `cd ${PROTECTED_DIR} && touch x`,
+  'cd protected; touch x',
+  `cd ${os.tmpdir()} && cd directory-policy-test/protected && touch x`,
+  'pushd protected >/dev/null; touch x',
+  'cd -P -- protected && touch x'
+];
+
+// Command lines changing to a directory that is only known when they run
+const UNKNOWN_DIRECTORIES = [
+  'cd "$TARGET" && touch x',
+  'cd - && touch x',
+  'cd prot* && touch x',
+  'pushd +1 && touch x'
+];
+
+/**
+ * Setup function to prepare the test environment
+ */
+async function setup() {
+  // Save original config to restore later
+  const originalConfig = await configManager.getConfig();
+  await configManager.updateConfig({
+    blockedCommands: [],
+    commandPolicyMode: 'denylist',
+    commandRules: [],
+    directoryCommandPolicies: {
+      [PROTECTED_DIR]: { mode: 'allowlist', rules: [{ action: 'allow', command: 'ls' }, { action: 'allow', command: 'cd' }, { action: 'allow', command: 'pushd' }] }
+    }
+  });
+  return originalConfig;
+}
+
+/**
+ * Teardown function to restore the config
+ */
+async function teardown(originalConfig) {
+  // Keys the original config did not have are removed again
+  const { commandPolicyMode, commandRules, directoryCommandPolicies } = originalConfig;
+  await configManager.updateConfig({ ...originalConfig, commandPolicyMode, commandRules, directoryCommandPolicies });
+  console.log('✓ Teardown: config restored');
+}
+
+/**
+ * Test that the policy of the working directory applies
+ */
+async function testWorkingDirectory() {
+  console.log('\nTest 1: Policy of the working directory');
+
+  const denied = await commandManager.checkCommand('touch x', PROTECTED_DIR);
+  assert.strictEqual(denied.allowed, false, 'Commands without an allow rule should be denied in the protected directory');
+  const allowed = await commandManager.checkCommand('ls -la', PROTECTED_DIR);
+  assert.strictEqual(allowed.allowed, true, `Allowed commands should run in the protected directory (${allowed.reason})`);
+  const outside = await commandManager.checkCommand('touch x', PARENT_DIR);
+  assert.strictEqual(outside.allowed, true, `The policy should not apply outside the protected directory (${outside.reason})`);
+
+  console.log('✓ The working directory selects the policy');
+}
+
+/**
+ * Test that changing into a directory applies its policy
+ */
+async function testDirectoryChanges() {
+  console.log('\nTest 2: cd and pushd into the protected directory');
+
+  for (const command of ESCAPES) {
+    const result = await commandManager.checkCommand(command, PARENT_DIR);
+    assert.strictEqual(result.allowed, false, `Command should be denied: ${command}`);
+    console.log(`✓ Denied: ${JSON.stringify(command)} (${result.reason})`);
+  }
+  const allowed = await commandManager.checkCommand(`cd ${PROTECTED_DIR} && ls`, PARENT_DIR);
+  assert.strictEqual(allowed.allowed, true, `Allowed commands should run after changing into the directory (${allowed.reason})`);
+  console.log('✓ Allowed commands still run after cd');
+}
+
+/**
+ * Test that unknown directory changes are denied while directory policies exist
+ */
+async function testUnknownDirectories() {
+  console.log('\nTest 3: Directory changes only known when the command runs');
+
+  for (const command of UNKNOWN_DIRECTORIES) {
+    const result = await commandManager.checkCommand(command, PARENT_DIR);
+    assert.strictEqual(result.allowed, false, `Command should be denied: ${command}`);
+    console.log(`✓ Denied: ${JSON.stringify(command)} (${result.reason})`);
+  }
+
+  await configManager.updateConfig({ directoryCommandPolicies: {} });
+  const withoutPolicies = await commandManager.checkCommand('cd "$TARGET" && touch x', PARENT_DIR);
+  assert.strictEqual(withoutPolicies.allowed, true, `Without directory policies the target does not matter (${withoutPolicies.reason})`);
+  console.log('✓ Allowed without directory policies');
+}
+
+// Export the main test function
+export default async function runTests() {
+  let originalConfig;
+  try {
+    originalConfig = await setup();
+    console.log('=== Directory Command Policy Tests ===');
+    await testWorkingDirectory();
+    await testDirectoryChanges();
+    await testUnknownDirectories();
+    console.log('\n✅ All directory command policy tests passed!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    return false;
+  } finally {
+    if (originalConfig) {
+      await teardown(originalConfig);
+    }
+  }
+  return true;
+}
+
+// If this file is run directly (not imported), execute the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTests().then(success => {
+    process.exit(success ? 0 : 1);
+  }).catch(error => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,151 @@
+/**
+ * Test script for the job queue
+ *
+ * This script tests when queued jobs start:
+ * 1. Testing that a job waits for the jobs it depends on
+ * 2. Testing that jobs depending on a failed job are skipped
+ * 3. Testing that maxConcurrentJobs limits how many jobs of a queue run at once
+ */
+
+import { configManager } from '../dist/config-manager.js';
+import { jobQueue } from '../dist/job-queue.js';
+import assert from 'assert';
+
+const isWindows = process.platform === 'win32';
+
+/**
+ * Setup function to prepare the test environment
+ */
+async function setup() {
+  // Save original config to restore later
+  const originalConfig = await configManager.getConfig();
+  await configManager.updateConfig({ blockedCommands: [], maxConcurrentJobs: 1 });
+  return originalConfig;
+}
+
+/**
+ * Teardown function to restore the config
+ */
+async function teardown(originalConfig) {
+  // Keys the original config did not have are removed again
+  const { maxConcurrentJobs } = originalConfig;
+  await configManager.updateConfig({ ...originalConfig, maxConcurrentJobs });
+  console.log('✓ Teardown: config restored');
+}
+
+/**
+ * Wait until all the given jobs are done
+ */
+async function waitForJobs(jobs, timeoutMs = 10000) {
+  const deadline = Date.now() + timeoutMs;
+  while (jobs.some(job => job.status !== 'done')) {
+    assert.ok(Date.now() < deadline, `Jobs did not finish in time: ${jobs.map(job => `${job.command} (${job.status})`).join(', ')}`);
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+/**
+ * Test that a job starts only after its dependencies finished
+ */
+async function testDependencyOrder() {
+  console.log('\nTest 1: Dependency order');
+
+  const build = await jobQueue.enqueue({ command: 'sleep 0.5', queue: 'test-order', maxConcurrency: 2 });
+  const deploy = await jobQueue.enqueue({ command: 'true', queue: 'test-order', dependsOn: [build.id] });
+  assert.strictEqual(build.status, 'running', 'A job without dependencies should start right away');
+  assert.strictEqual(deploy.status, 'queued', 'A job should wait while its dependency runs, even with a free slot');
+
+  await waitForJobs([build, deploy]);
+  assert.strictEqual(build.outcome, 'succeeded', `The dependency should succeed (${build.error})`);
+  assert.strictEqual(deploy.outcome, 'succeeded', `The dependent job should succeed (${deploy.error})`);
+  assert.ok(deploy.startedAt >= build.finishedAt, 'The dependent job should start after its dependency finished');
+  console.log('✓ Jobs start after the jobs they depend on');
+
+  await assert.rejects(jobQueue.enqueue({ command: 'true', dependsOn: ['job-missing'] }), /Unknown job ID/, 'Unknown dependencies should be rejected');
+  console.log('✓ Unknown dependencies are rejected');
+}
+
+/**
+ * Test that a failed dependency skips the jobs depending on it
+ */
+async function testFailedDependency() {
+  console.log('\nTest 2: Failed dependencies');
+
+  const failing = await jobQueue.enqueue({ command: 'sleep 0.2; false', queue: 'test-failure', maxConcurrency: 4 });
+  const dependent = await jobQueue.enqueue({ command: 'true', queue: 'test-failure', dependsOn: [failing.id] });
+  const transitive = await jobQueue.enqueue({ command: 'true', queue: 'test-failure', dependsOn: [dependent.id] });
+  const cleanup = await jobQueue.enqueue({ command: 'true', queue: 'test-failure', dependsOn: [failing.id], condition: 'always' });
+
+  await waitForJobs([failing, dependent, transitive, cleanup]);
+  assert.strictEqual(failing.outcome, 'failed', 'A command exiting with an error should fail');
+  assert.strictEqual(dependent.outcome, 'skipped', 'A job depending on a failed job should be skipped');
+  assert.strictEqual(dependent.pid, null, 'A skipped job should not have run');
+  assert.match(dependent.error, new RegExp(`dependency ${failing.id} did not succeed`), 'The skipped job should name the failed dependency');
+  assert.strictEqual(transitive.outcome, 'skipped', 'Jobs depending on a skipped job should be skipped too');
+  console.log('✓ Jobs depending on a failed job are skipped');
+
+  assert.strictEqual(cleanup.outcome, 'succeeded', `A job with the always condition should run anyway (${cleanup.error})`);
+  console.log('✓ Jobs with the always condition still run');
+}
+
+/**
+ * Test that the concurrency limit of a queue holds
+ */
+async function testConcurrencyLimit() {
+  console.log('\nTest 3: maxConcurrentJobs');
+
+  assert.strictEqual(await jobQueue.getConcurrency('test-limit'), 1, 'A queue without its own limit should use maxConcurrentJobs');
+  const jobs = [];
+  for (let i = 0; i < 3; i++) {
+    jobs.push(await jobQueue.enqueue({ command: 'sleep 0.3', queue: 'test-limit' }));
+  }
+  assert.deepStrictEqual(jobs.map(job => job.status), ['running', 'queued', 'queued'], 'Only one job should start');
+  assert.deepStrictEqual(jobs.map(job => jobQueue.position(job)), [null, 1, 2], 'Waiting jobs should report their place in the queue');
+
+  let mostRunning = 0;
+  const deadline = Date.now() + 10000;
+  while (jobs.some(job => job.status !== 'done')) {
+    assert.ok(Date.now() < deadline, 'Jobs did not finish in time');
+    mostRunning = Math.max(mostRunning, jobs.filter(job => job.status === 'running').length);
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  assert.strictEqual(mostRunning, 1, 'No more jobs than the limit should run at once');
+  assert.ok(jobs.every(job => job.outcome === 'succeeded'), 'All jobs should run in the end');
+  assert.ok(jobs[1].startedAt >= jobs[0].finishedAt && jobs[2].startedAt >= jobs[1].finishedAt, 'Jobs should run in the order they were queued');
+  console.log('✓ Jobs of a queue run one at a time with maxConcurrentJobs set to 1');
+}
+
+// Export the main test function
+export default async function runTests() {
+  let originalConfig;
+  try {
+    console.log('=== Job Queue Tests ===');
+    if (isWindows) {
+      console.log('Skipping job queue tests on Windows');
+      return true;
+    }
+    originalConfig = await setup();
+    await testDependencyOrder();
+    await testFailedDependency();
+    await testConcurrencyLimit();
+    console.log('\n✅ All job queue tests passed!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    return false;
+  } finally {
+    if (originalConfig) {
+      await teardown(originalConfig);
+    }
+  }
+  return true;
+}
+
+// If this file is run directly (not imported), execute the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTests().then(success => {
+    process.exit(success ? 0 : 1);
+  }).catch(error => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,154 @@
+/**
+ * Test script for the output buffer
+ *
+ * This script tests how session output is kept and read back:
+ * 1. Testing that read cursors stay valid while old output is dropped
+ * 2. Testing that a single read returns at most MAX_READ_OUTPUT_BYTES
+ * 3. Testing that tail returns the last lines without splitting characters
+ * 4. Testing that spilled output stays readable and the spill file is capped
+ */
+
+import { OutputBuffer } from '../dist/output-buffer.js';
+import { MAX_READ_OUTPUT_BYTES } from '../dist/config.js';
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const SPILL_DIR = path.join(os.tmpdir(), `output-buffer-test-${process.pid}`);
+
+/**
+ * Test that cursors are absolute offsets into the whole output
+ */
+async function testReadCursors() {
+  console.log('\nTest 1: Read cursors');
+
+  const buffer = new OutputBuffer({ maxBytes: 10 });
+  buffer.append('abcdef');
+  const first = buffer.read(0, 4);
+  assert.deepStrictEqual(first, { text: 'abcd', offset: 0, end: 4, droppedBytes: 0 }, 'A read should return the requested bytes');
+  const rest = buffer.read(first.end);
+  assert.deepStrictEqual(rest, { text: 'ef', offset: 4, end: 6, droppedBytes: 0 }, 'Reading from the returned end should continue where the last read stopped');
+  console.log('✓ Reads continue from the returned cursor');
+
+  buffer.append('ghijklmn');
+  assert.strictEqual(buffer.end, 14, 'The end should count all output ever written');
+  assert.strictEqual(buffer.start, 4, 'Output past the buffer size should be dropped');
+  assert.strictEqual(buffer.truncated, true, 'The buffer should report dropped output');
+  const resumed = buffer.read(rest.end);
+  assert.deepStrictEqual(resumed, { text: 'ghijklmn', offset: 6, end: 14, droppedBytes: 0 }, 'A cursor should stay valid while its output is kept');
+  const stale = buffer.read(0);
+  assert.deepStrictEqual(stale, { text: 'efghijklmn', offset: 4, end: 14, droppedBytes: 4 }, 'A read of dropped output should start at the oldest byte kept');
+  assert.deepStrictEqual(buffer.read(100), { text: '', offset: 14, end: 14, droppedBytes: 0 }, 'A cursor past the end should return nothing');
+  console.log('✓ Cursors stay valid while old output is dropped');
+}
+
+/**
+ * Test that reads are limited to MAX_READ_OUTPUT_BYTES
+ */
+async function testReadLimit() {
+  console.log('\nTest 2: Read size limit');
+
+  const buffer = new OutputBuffer({ maxBytes: MAX_READ_OUTPUT_BYTES * 3 });
+  buffer.append('x'.repeat(MAX_READ_OUTPUT_BYTES * 2 + 10));
+  const whole = buffer.read(0);
+  assert.strictEqual(whole.text.length, MAX_READ_OUTPUT_BYTES, 'A read without a length should return at most MAX_READ_OUTPUT_BYTES');
+  assert.strictEqual(whole.end, MAX_READ_OUTPUT_BYTES, 'The cursor should point past the returned bytes');
+  const large = buffer.read(0, Number.MAX_SAFE_INTEGER);
+  assert.strictEqual(large.text.length, MAX_READ_OUTPUT_BYTES, 'A larger length should be clamped to MAX_READ_OUTPUT_BYTES');
+  const tail = buffer.tail(1);
+  assert.strictEqual(tail.text.length, MAX_READ_OUTPUT_BYTES, 'A tail of one long line should be clamped to MAX_READ_OUTPUT_BYTES');
+  console.log('✓ Reads return at most MAX_READ_OUTPUT_BYTES');
+}
+
+/**
+ * Test that tail returns whole lines and whole characters
+ */
+async function testTail() {
+  console.log('\nTest 3: Tail');
+
+  const buffer = new OutputBuffer({ maxBytes: 1024 });
+  buffer.append('one\ntwo\nthree\n');
+  assert.deepStrictEqual(buffer.tail(2), { text: 'two\nthree\n', offset: 4, end: 14, droppedBytes: 0 }, 'The trailing newline should not count as a line');
+  assert.strictEqual(buffer.tail(10).text, 'one\ntwo\nthree\n', 'Asking for more lines than written should return everything');
+  assert.strictEqual(buffer.tail(0).text, '', 'Zero lines should return nothing');
+  buffer.append('four');
+  assert.strictEqual(buffer.tail(1).text, 'four', 'An unfinished last line should count as a line');
+  console.log('✓ Tail returns the last lines');
+
+  const unicode = new OutputBuffer({ maxBytes: 1024 });
+  unicode.append('ab€€');
+  const cut = unicode.tail(1, 5);
+  assert.strictEqual(cut.text, '€', 'A tail cut by maxBytes should not start in the middle of a character');
+  assert.strictEqual(cut.offset, 5, 'The offset should point at the first whole character');
+  console.log('✓ Tail does not split characters');
+}
+
+/**
+ * Test spilling dropped output to disk
+ */
+async function testSpill() {
+  console.log('\nTest 4: Spilling to disk');
+
+  const spillPath = path.join(SPILL_DIR, 'spill.log');
+  const buffer = new OutputBuffer({ maxBytes: 8, spillPath });
+  buffer.append('0123456789');
+  buffer.append('abcdefghij');
+  assert.strictEqual(buffer.start, 0, 'Spilled output should stay readable');
+  assert.strictEqual(buffer.truncated, false, 'Nothing should be reported as dropped');
+  assert.strictEqual(buffer.spillFile, spillPath, 'The spill file should be reported');
+  assert.strictEqual(buffer.read(0).text, '0123456789abcdefghij', 'A read across the spill file and memory should return all output');
+  assert.strictEqual(buffer.tail(1, 15).text, '56789abcdefghij', 'Tail should read back into the spill file');
+  buffer.dispose(true);
+  console.log('✓ Spilled output is readable from disk');
+
+  const cappedPath = path.join(SPILL_DIR, 'capped.log');
+  const capped = new OutputBuffer({ maxBytes: 8, spillPath: cappedPath, maxSpillBytes: 16 });
+  const consoleError = console.error;
+  console.error = () => {};
+  try {
+    capped.append('0123456789abcdef');
+    assert.strictEqual(capped.start, 0, 'Output within the cap should stay readable');
+    capped.append('ghijklmnopqrstuv');
+  } finally {
+    console.error = consoleError;
+  }
+  assert.ok(!fs.existsSync(cappedPath) || fs.statSync(cappedPath).size <= 16, 'The spill file should not grow past the cap');
+  assert.strictEqual(capped.start, 24, 'Output past the cap should be dropped as without spilling');
+  assert.strictEqual(capped.spillFile, undefined, 'A removed spill file should not be reported');
+  assert.deepStrictEqual(capped.read(0), { text: 'opqrstuv', offset: 24, end: 32, droppedBytes: 24 }, 'Reads should start at the oldest byte in memory');
+  capped.append('wxyz');
+  assert.strictEqual(capped.read(0).text, 'stuvwxyz', 'The buffer should keep working after the cap was reached');
+  capped.dispose(true);
+  await new Promise(resolve => setTimeout(resolve, 50));
+  assert.ok(!fs.existsSync(cappedPath), 'The capped spill file should be removed');
+  console.log('✓ The spill file is capped');
+}
+
+// Export the main test function
+export default async function runTests() {
+  try {
+    console.log('=== Output Buffer Tests ===');
+    await testReadCursors();
+    await testReadLimit();
+    await testTail();
+    await testSpill();
+    console.log('\n✅ All output buffer tests passed!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    return false;
+  } finally {
+    fs.rmSync(SPILL_DIR, { recursive: true, force: true });
+  }
+  return true;
+}
+
+// If this file is run directly (not imported), execute the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTests().then(success => {
+    process.exit(success ? 0 : 1);
+  }).catch(error => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,280 @@
+/**
+ * Test script for path validation against allowedDirectories
+ *
+ * This script tests that validatePath cannot be tricked into leaving the allowed directories:
+ * 1. Testing symlinks inside an allowed directory that point outside of it
+ * 2. Testing symlinked parents of files that do not exist yet
+ * 3. Testing symlinks pointing into an allowed directory from outside
+ * 4. Testing '..' traversal, with and without symlinks
+ * 5. Testing case-sensitive comparison on case-sensitive file systems
+ * 6. Testing that pathPermissions only narrow access inside the allowed directory
+ */
+
+import { configManager } from '../dist/config-manager.js';
+import { validatePath } from '../dist/tools/filesystem.js';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import assert from 'assert';
+import os from 'os';
+
+// Get directory name
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Define test paths
+const TEST_DIR = path.join(__dirname, 'test_path_validation');
+const ALLOWED_DIR = path.join(TEST_DIR, 'Allowed');
+const OUTSIDE_DIR = path.join(os.tmpdir(), 'test_path_validation_outside');
+
+const isWindows = process.platform === 'win32';
+
+/**
+ * Helper function to clean up test directories
+ */
+async function cleanupTestDirectories() {
+  try {
+    console.log('Cleaning up test directories...');
+    await fs.rm(TEST_DIR, { recursive: true, force: true });
+    await fs.rm(OUTSIDE_DIR, { recursive: true, force: true });
+    console.log('Cleanup complete.');
+  } catch (error) {
+    // Ignore errors if directory doesn't exist
+    if (error.code !== 'ENOENT') {
+      console.error('Error during cleanup:', error);
+    }
+  }
+}
+
+/**
+ * Check if a path is accessible
+ */
+async function isPathAccessible(testPath, operation = 'read') {
+  try {
+    await validatePath(testPath, operation);
+    return true;
+  } catch (error) {
+    console.log(`  Rejected ${testPath}: ${error.message || error}`);
+    return false;
+  }
+}
+
+/**
+ * Whether names differing only in case are different files in the test directory
+ */
+async function isCaseSensitiveFileSystem() {
+  try {
+    await fs.stat(path.join(TEST_DIR, 'allowed'));
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Setup function to prepare the test environment
+ */
+async function setup() {
+  // Clean up before tests
+  await cleanupTestDirectories();
+
+  await fs.mkdir(ALLOWED_DIR, { recursive: true });
+  await fs.mkdir(path.join(ALLOWED_DIR, 'sub'), { recursive: true });
+  await fs.mkdir(OUTSIDE_DIR, { recursive: true });
+  await fs.writeFile(path.join(ALLOWED_DIR, 'inside.txt'), 'Inside content');
+  await fs.writeFile(path.join(OUTSIDE_DIR, 'secret.txt'), 'Secret content');
+  await fs.writeFile(path.join(TEST_DIR, 'sibling.txt'), 'Sibling content');
+
+  if (!isWindows) {
+    // Links inside the allowed directory that lead out of it
+    await fs.symlink(OUTSIDE_DIR, path.join(ALLOWED_DIR, 'escape-dir'), 'dir');
+    await fs.symlink(path.join(OUTSIDE_DIR, 'secret.txt'), path.join(ALLOWED_DIR, 'escape-file.txt'), 'file');
+    await fs.symlink(path.join(ALLOWED_DIR, 'escape-file.txt'), path.join(ALLOWED_DIR, 'escape-chain.txt'), 'file');
+    // A link outside the allowed directory that leads into it
+    await fs.symlink(ALLOWED_DIR, path.join(OUTSIDE_DIR, 'into-allowed'), 'dir');
+  }
+
+  console.log(`✓ Setup: created test directories`);
+  console.log(`  - Allowed dir: ${ALLOWED_DIR}`);
+  console.log(`  - Outside dir: ${OUTSIDE_DIR}`);
+
+  // Save original config to restore later
+  const originalConfig = await configManager.getConfig();
+  await configManager.setValue('allowedDirectories', [ALLOWED_DIR]);
+  return originalConfig;
+}
+
+/**
+ * Teardown function to clean up after tests
+ */
+async function teardown(originalConfig) {
+  // Reset configuration to original, keys the original config did not have are removed again
+  const { pathPermissions, deniedPaths } = originalConfig;
+  await configManager.updateConfig({ ...originalConfig, pathPermissions, deniedPaths });
+
+  // Clean up test directories
+  await cleanupTestDirectories();
+  console.log('✓ Teardown: test directories cleaned up and config restored');
+}
+
+/**
+ * Test symlinks that point out of the allowed directory
+ */
+async function testSymlinkEscapes() {
+  console.log('\nTest 1: Symlinks pointing outside the allowed directory');
+
+  assert.strictEqual(await isPathAccessible(path.join(ALLOWED_DIR, 'inside.txt')), true, 'Regular files in the allowed directory should be accessible');
+  assert.strictEqual(await isPathAccessible(path.join(ALLOWED_DIR, 'escape-dir')), false, 'A symlink to an outside directory should not be accessible');
+  assert.strictEqual(await isPathAccessible(path.join(ALLOWED_DIR, 'escape-dir', 'secret.txt')), false, 'Files behind a symlink to an outside directory should not be accessible');
+  assert.strictEqual(await isPathAccessible(path.join(ALLOWED_DIR, 'escape-file.txt')), false, 'A symlink to an outside file should not be accessible');
+  assert.strictEqual(await isPathAccessible(path.join(ALLOWED_DIR, 'escape-chain.txt')), false, 'A chain of symlinks ending outside should not be accessible');
+  assert.strictEqual(await isPathAccessible(`${ALLOWED_DIR}${path.sep}escape-dir${path.sep}..${path.sep}secret.txt`), false, '.. after a symlink should not reach the link target\'s siblings');
+
+  console.log('✓ Symlinks out of the allowed directory are rejected');
+}
+
+/**
+ * Test new files whose nearest existing parent is a symlink out of the allowed directory
+ */
+async function testNewFilesBehindSymlinks() {
+  console.log('\nTest 2: New files below symlinked directories');
+
+  assert.strictEqual(await isPathAccessible(path.join(ALLOWED_DIR, 'new-file.txt')), true, 'New files in the allowed directory should be accessible');
+  assert.strictEqual(await isPathAccessible(path.join(ALLOWED_DIR, 'missing', 'deeper', 'new-file.txt')), true, 'New nested files in the allowed directory should be accessible');
+  assert.strictEqual(await isPathAccessible(path.join(ALLOWED_DIR, 'escape-dir', 'new-file.txt')), false, 'New files behind a symlink to an outside directory should not be accessible');
+  assert.strictEqual(await isPathAccessible(path.join(ALLOWED_DIR, 'escape-dir', 'missing', 'new-file.txt')), false, 'New nested files behind a symlink should not be accessible');
+
+  const validated = await validatePath(path.join(ALLOWED_DIR, 'missing', 'new-file.txt'));
+  assert.strictEqual(validated, path.join(await fs.realpath(ALLOWED_DIR), 'missing', 'new-file.txt'), 'New files should resolve below the real path of their nearest existing parent');
+
+  console.log('✓ New files are checked against the real path of their parent');
+}
+
+/**
+ * Test symlinks from outside pointing into the allowed directory
+ */
+async function testSymlinkIntoAllowedDirectory() {
+  console.log('\nTest 3: Symlinks pointing into the allowed directory');
+
+  const linked = path.join(OUTSIDE_DIR, 'into-allowed', 'inside.txt');
+  assert.strictEqual(await isPathAccessible(linked), true, 'A symlink resolving into the allowed directory should be accessible');
+  assert.strictEqual(await validatePath(linked), await fs.realpath(path.join(ALLOWED_DIR, 'inside.txt')), 'validatePath should return the real path');
+
+  console.log('✓ Symlinks into the allowed directory resolve to their target');
+}
+
+/**
+ * Test '..' traversal out of the allowed directory
+ */
+async function testDotDotTraversal() {
+  console.log('\nTest 4: .. traversal');
+
+  assert.strictEqual(await isPathAccessible(path.join(ALLOWED_DIR, 'sub', '..', 'inside.txt')), true, '.. that stays in the allowed directory should be accessible');
+  assert.strictEqual(await isPathAccessible(`${ALLOWED_DIR}${path.sep}..${path.sep}sibling.txt`), false, '.. out of the allowed directory should not be accessible');
+  assert.strictEqual(await isPathAccessible(`${ALLOWED_DIR}${path.sep}sub${path.sep}..${path.sep}..${path.sep}sibling.txt`), false, 'Repeated .. out of the allowed directory should not be accessible');
+  assert.strictEqual(await isPathAccessible(`${ALLOWED_DIR}${path.sep}..${path.sep}Allowed-other${path.sep}file.txt`), false, '.. into a directory sharing the prefix should not be accessible');
+
+  const relative = path.relative(process.cwd(), path.join(TEST_DIR, 'sibling.txt'));
+  assert.strictEqual(await isPathAccessible(relative), false, 'Relative paths outside the allowed directory should not be accessible');
+
+  console.log('✓ .. traversal cannot leave the allowed directory');
+}
+
+/**
+ * Test that case differences matter on case-sensitive file systems
+ */
+async function testCaseSensitivity() {
+  console.log('\nTest 5: Case sensitivity');
+
+  const differentCase = path.join(TEST_DIR, 'allowed', 'inside.txt');
+  if (await isCaseSensitiveFileSystem()) {
+    await fs.mkdir(path.join(TEST_DIR, 'allowed'), { recursive: true });
+    await fs.writeFile(differentCase, 'Other content');
+    assert.strictEqual(await isPathAccessible(differentCase), false, 'A directory differing only in case should not be accessible on a case-sensitive file system');
+    console.log('✓ Paths are compared case-sensitively on this file system');
+  } else {
+    assert.strictEqual(await isPathAccessible(differentCase), true, 'Paths differing only in case should be accessible on a case-insensitive file system');
+    console.log('✓ Paths are compared case-insensitively on this file system');
+  }
+}
+
+/**
+ * Test that pathPermissions narrow access in the allowed directory and cannot widen it
+ */
+async function testPathPermissions() {
+  console.log('\nTest 6: pathPermissions');
+
+  await configManager.updateConfig({
+    pathPermissions: {
+      [OUTSIDE_DIR]: 'write',
+      'secret.txt': 'read',
+      [path.join(TEST_DIR, 'sibling.txt')]: 'read',
+      [path.join(ALLOWED_DIR, 'sub')]: 'read',
+      [path.join(ALLOWED_DIR, 'sub', 'drafts')]: 'write',
+      'inside.txt': 'none'
+    }
+  });
+  try {
+    assert.strictEqual(await isPathAccessible(path.join(OUTSIDE_DIR, 'secret.txt')), false, 'A write entry should not open a path outside the allowed directory');
+    assert.strictEqual(await isPathAccessible(path.join(OUTSIDE_DIR, 'new-file.txt'), 'write'), false, 'A write entry should not make a path outside the allowed directory writable');
+    assert.strictEqual(await isPathAccessible(path.join(TEST_DIR, 'sibling.txt')), false, 'A read entry should not open a path outside the allowed directory');
+
+    assert.strictEqual(await isPathAccessible(path.join(ALLOWED_DIR, 'sub', 'notes.txt')), true, 'A read entry should leave reading in the allowed directory');
+    assert.strictEqual(await isPathAccessible(path.join(ALLOWED_DIR, 'sub', 'notes.txt'), 'write'), false, 'A read entry should make the allowed directory read-only');
+    assert.strictEqual(await isPathAccessible(path.join(ALLOWED_DIR, 'sub', 'drafts', 'notes.txt'), 'write'), true, 'A more specific write entry should give writing back');
+    assert.strictEqual(await isPathAccessible(path.join(ALLOWED_DIR, 'inside.txt')), false, 'A none entry at any depth should hide the file');
+
+    await configManager.updateConfig({ pathPermissions: {}, deniedPaths: ['**/sub'] });
+    assert.strictEqual(await isPathAccessible(path.join(ALLOWED_DIR, 'sub', 'notes.txt')), false, 'deniedPaths should hide paths in the allowed directory');
+  } finally {
+    await configManager.updateConfig({ pathPermissions: {}, deniedPaths: [] });
+  }
+
+  console.log('✓ pathPermissions only narrow access inside the allowed directory');
+}
+
+/**
+ * Main test function
+ */
+async function testPathValidation() {
+  console.log('=== Path Validation Tests ===\n');
+
+  if (isWindows) {
+    // Creating symlinks needs extra privileges on Windows
+    console.log('Skipping symlink tests on Windows');
+  } else {
+    await testSymlinkEscapes();
+    await testNewFilesBehindSymlinks();
+    await testSymlinkIntoAllowedDirectory();
+  }
+  await testDotDotTraversal();
+  await testCaseSensitivity();
+  await testPathPermissions();
+
+  console.log('\n✅ All path validation tests passed!');
+}
+
+// Export the main test function
+export default async function runTests() {
+  let originalConfig;
+  try {
+    originalConfig = await setup();
+    await testPathValidation();
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    return false;
+  } finally {
+    if (originalConfig) {
+      await teardown(originalConfig);
+    }
+  }
+  return true;
+}
+
+// If this file is run directly (not imported), execute the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTests().catch(error => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,196 @@
+/**
+ * Test script for the command policy of readonly mode
+ *
+ * This script tests which commands readonly mode lets through:
+ * 1. Testing that commands which only read are allowed
+ * 2. Testing that commands which write files, run other programs or change the system are denied
+ * 3. Testing that input is not sent to shells opened with open_shell
+ * 4. Testing that commands cannot be given environment variables
+ */
+
+import { configManager } from '../dist/config-manager.js';
+import { commandManager } from '../dist/command-manager.js';
+import { shellManager } from '../dist/shell-manager.js';
+import { executeCommand, sendInput } from '../dist/tools/execute.js';
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Commands that only read
+const READ_ONLY_COMMANDS = [
+  'ls -la',
+  'cat notes.txt | grep todo | sort -u',
+  'ls 2>&1 >/dev/null',
+  'git status',
+  'git log --oneline -5',
+  'uniq -c in.txt',
+  'uniq -f 1 in.txt',
+  'uniq in.txt -',
+  'xxd data.bin',
+  'xxd -s 16 -l 32 data.bin',
+  'tree -L 2 .',
+  'date +%s',
+  'date -u -d yesterday',
+  'hostname',
+  'hostname -f',
+  'hostname --short',
+  'rg -n todo src',
+  'find . -name "*.ts" | xargs grep -l todo',
+  'timeout 5 cat notes.txt',
+  'env',
+  'git diff HEAD~1 -- src'
+];
+
+// Commands that change something, each of them was let through before
+const MODIFYING_COMMANDS = [
+  'echo x > out.txt',
+  'git push',
+  'find . -name "*.tmp" -delete',
+  'sed -n \'1e touch /tmp/pwned\' notes.txt',
+  'sed -n \'w out.txt\' notes.txt',
+  'sed -i s/a/b/ notes.txt',
+  'uniq in.txt out.txt',
+  'uniq -c -- in.txt out.txt',
+  'uniq -f 1 in.txt out.txt',
+  'xxd data.bin out.hex',
+  'xxd -r in.hex out.bin',
+  'tree -o out.txt .',
+  'date -s "2020-01-01 00:00"',
+  'date --set=2020-01-01',
+  'date -us 12:00',
+  'hostname newname',
+  'hostname -F /etc/hostname',
+  'hostname -f newname',
+  'sort -o out.txt in.txt',
+  'sort --compress-program=sh in.txt',
+  'git grep -O vim pattern',
+  'rg --pre ./convert pattern',
+  'rg --pre=sh pattern',
+  'rg --pre-glob "*.pdf" --pre pdftotext pattern',
+  'git diff --ext-diff',
+  'git -c core.pager="sh -c id" log',
+  'echo notes.txt | xargs rm',
+  'timeout 5 rm notes.txt',
+  'env rm notes.txt',
+  'env PAGER="sh -c id" git log',
+  'env -S "PAGER=id git log"',
+  'GIT_EXTERNAL_DIFF=./diff.sh git diff',
+  'PAGER=id; git log',
+  'printf -v PAGER id',
+  'less notes.txt',
+  'more notes.txt',
+  'top'
+];
+
+/**
+ * Setup function to prepare the test environment
+ */
+async function setup() {
+  // Save original config to restore later
+  const originalConfig = await configManager.getConfig();
+  await configManager.updateConfig({ mode: 'readonly', readonlyCommandRules: undefined, blockedCommands: [], commandRules: [] });
+  return originalConfig;
+}
+
+/**
+ * Teardown function to restore the config
+ */
+async function teardown(originalConfig) {
+  // Keys the original config did not have are removed again
+  const { mode, readonlyCommandRules, blockedCommands, commandRules } = originalConfig;
+  await configManager.updateConfig({ ...originalConfig, mode, readonlyCommandRules, blockedCommands, commandRules });
+  console.log('✓ Teardown: config restored');
+}
+
+/**
+ * Test that read-only commands are allowed
+ */
+async function testReadOnlyCommands() {
+  console.log('\nTest 1: Read-only commands');
+
+  for (const command of READ_ONLY_COMMANDS) {
+    const result = await commandManager.checkCommand(command);
+    assert.strictEqual(result.allowed, true, `Command should be allowed in readonly mode: ${command} (${result.reason})`);
+    console.log(`✓ Allowed: ${JSON.stringify(command)}`);
+  }
+}
+
+/**
+ * Test that commands changing something are denied
+ */
+async function testModifyingCommands() {
+  console.log('\nTest 2: Commands that change something');
+
+  for (const command of MODIFYING_COMMANDS) {
+    const result = await commandManager.checkCommand(command);
+    assert.strictEqual(result.allowed, false, `Command should be denied in readonly mode: ${command}`);
+    console.log(`✓ Denied: ${JSON.stringify(command)} (${result.reason})`);
+  }
+}
+
+/**
+ * Test that input sent to a shell session cannot run commands
+ */
+async function testShellInput() {
+  console.log('\nTest 3: Input to a shell session');
+  if (process.platform === 'win32') {
+    console.log('Skipping shell session input on Windows');
+    return;
+  }
+
+  const probe = path.join(os.tmpdir(), `readonly-probe-${process.pid}`);
+  const shell = await shellManager.openShell('readonly-input', { shell: 'sh' });
+  try {
+    const result = await sendInput({ pid: shell.pid, input: `touch ${probe}`, settle_ms: 200, timeout_ms: 1000 });
+    assert.strictEqual(result.isError, true, 'Input to a shell session should be rejected in readonly mode');
+    assert.strictEqual(fs.existsSync(probe), false, 'The input should not have run');
+    console.log(`✓ Rejected: ${result.content[0].text}`);
+  } finally {
+    await shellManager.closeShell('readonly-input');
+    fs.rmSync(probe, { force: true });
+  }
+}
+
+/**
+ * Test that env and env_file are rejected
+ */
+async function testEnvironment() {
+  console.log('\nTest 4: Environment variables for commands');
+
+  for (const args of [{ command: 'git log', env: { PAGER: 'sh -c id' } }, { command: 'git diff', env_file: '.env' }]) {
+    const result = await executeCommand({ ...args, timeout_ms: 1000 });
+    assert.strictEqual(result.isError, true, `The environment should be rejected in readonly mode: ${JSON.stringify(args)}`);
+    console.log(`✓ Rejected: ${result.content[0].text}`);
+  }
+}
+
+// Export the main test function
+export default async function runTests() {
+  let originalConfig;
+  try {
+    originalConfig = await setup();
+    console.log('=== Readonly Mode Tests ===');
+    await testReadOnlyCommands();
+    await testModifyingCommands();
+    await testShellInput();
+    await testEnvironment();
+    console.log('\n✅ All readonly mode tests passed!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    return false;
+  } finally {
+    if (originalConfig) {
+      await teardown(originalConfig);
+    }
+  }
+  return true;
+}
+
+// If this file is run directly (not imported), execute the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTests().catch(error => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
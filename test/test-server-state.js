@@ -0,0 +1,136 @@
+/**
+ * Test script for the protection of the server's own directory
+ *
+ * This script tests that tools cannot change the config, pending approvals or audit log:
+ * 1. Testing that write tools refuse paths in the server's directory, whatever the path settings say
+ * 2. Testing that commands writing there are denied, whatever the command policy says
+ * 3. Testing that commands only reading there are allowed
+ */
+
+import { configManager } from '../dist/config-manager.js';
+import { commandManager } from '../dist/command-manager.js';
+import { validatePath } from '../dist/tools/filesystem.js';
+import { CONFIG_DIR } from '../dist/config.js';
+import assert from 'assert';
+import path from 'path';
+
+// Command lines that write to the server's directory
+const WRITING_COMMANDS = [
+  `echo '{"status":"approved"}' > ${CONFIG_DIR}/pending-approvals/approval-1234.json`,
+  'echo "{}" > ~/.claude-server-commander/config.json',
+  'cp forged.json "$HOME/.claude-server-commander/pending-approvals/"',
+  'sed -i s/pending/approved/ ~/.claude-server-commander/pending-approvals/*.json',
+  'cd ~/.claude-server-commander && rm audit.jsonl',
+  `python3 -c "open('${CONFIG_DIR}/config.json', 'w')"`,
+  'uniq in.txt ~/.claude-server-commander/config.json',
+  'cp f.json ~/.claude-s*/pending-approvals/',
+  'cd ~/.claude-s* && cp /tmp/f.json pending-approvals/',
+  'cp f.json ~/.claude-{server,x}-commander/config.json',
+  'cp f.json $HOME/.claude-server-command?r/config.json'
+];
+
+// Command lines that only read there
+const READING_COMMANDS = [
+  'cat ~/.claude-server-commander/config.json',
+  'tail -n 20 ~/.claude-server-commander/audit.jsonl | jq .tool',
+  'ls -la ~/.claude-server-commander/pending-approvals',
+  'cat ~/.claude-s*/config.json'
+];
+
+/**
+ * Setup function to prepare the test environment
+ */
+async function setup() {
+  // Save original config to restore later
+  const originalConfig = await configManager.getConfig();
+  // Settings that would allow everything, the server's directory has to stay protected anyway
+  await configManager.updateConfig({
+    allowedDirectories: ['/'],
+    pathPermissions: { [CONFIG_DIR]: 'write' },
+    commandPolicyMode: 'allowlist',
+    commandRules: [{ action: 'allow', pattern: '.*' }],
+    blockedCommands: []
+  });
+  return originalConfig;
+}
+
+/**
+ * Teardown function to restore the config
+ */
+async function teardown(originalConfig) {
+  // Keys the original config did not have are removed again
+  const { pathPermissions, commandPolicyMode, commandRules } = originalConfig;
+  await configManager.updateConfig({ ...originalConfig, pathPermissions, commandPolicyMode, commandRules });
+  console.log('✓ Teardown: config restored');
+}
+
+/**
+ * Test that write tools cannot write to the server's directory
+ */
+async function testWriteTools() {
+  console.log('\nTest 1: Write tools');
+
+  for (const file of ['config.json', path.join('pending-approvals', 'approval-1234.json'), 'audit.jsonl']) {
+    const target = path.join(CONFIG_DIR, file);
+    await assert.rejects(validatePath(target, 'write'), /cannot be written/, `Writing should be refused: ${target}`);
+    console.log(`✓ Refused: ${target}`);
+  }
+  assert.strictEqual(await validatePath(path.join(CONFIG_DIR, 'config.json'), 'read'), path.join(CONFIG_DIR, 'config.json'), 'Reading the config should be allowed');
+}
+
+/**
+ * Test that commands cannot write to the server's directory
+ */
+async function testWritingCommands() {
+  console.log('\nTest 2: Commands writing to the server\'s directory');
+
+  for (const command of WRITING_COMMANDS) {
+    const result = await commandManager.checkCommand(command);
+    assert.strictEqual(result.allowed, false, `Command should be denied: ${command}`);
+    console.log(`✓ Denied: ${JSON.stringify(command)} (${result.reason})`);
+  }
+  const inside = await commandManager.checkCommand('touch approved', CONFIG_DIR);
+  assert.strictEqual(inside.allowed, false, 'Commands run in the server\'s directory should not write there');
+}
+
+/**
+ * Test that commands reading the server's directory are allowed
+ */
+async function testReadingCommands() {
+  console.log('\nTest 3: Commands reading the server\'s directory');
+
+  for (const command of READING_COMMANDS) {
+    const result = await commandManager.checkCommand(command);
+    assert.strictEqual(result.allowed, true, `Command should be allowed: ${command} (${result.reason})`);
+    console.log(`✓ Allowed: ${JSON.stringify(command)}`);
+  }
+}
+
+// Export the main test function
+export default async function runTests() {
+  let originalConfig;
+  try {
+    originalConfig = await setup();
+    console.log('=== Server State Protection Tests ===');
+    await testWriteTools();
+    await testWritingCommands();
+    await testReadingCommands();
+    console.log('\n✅ All server state protection tests passed!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    return false;
+  } finally {
+    if (originalConfig) {
+      await teardown(originalConfig);
+    }
+  }
+  return true;
+}
+
+// If this file is run directly (not imported), execute the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTests().catch(error => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
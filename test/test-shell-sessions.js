@@ -0,0 +1,146 @@
+/**
+ * Test script for named shell sessions
+ *
+ * This script tests which shells open_shell accepts:
+ * 1. Testing that shell values with arguments or shell syntax are rejected
+ * 2. Testing that a shell given by name is opened and keeps its state
+ * 3. Testing that input sent to a shell is checked like a command
+ */
+
+import { configManager } from '../dist/config-manager.js';
+import { shellManager } from '../dist/shell-manager.js';
+import { sendInput } from '../dist/tools/execute.js';
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const isWindows = process.platform === 'win32';
+
+// Values that would run something else than a shell if they were interpolated into a command
+const INVALID_SHELLS = [
+  "sh -c 'mkfs /dev/sda'",
+  'bash; rm -rf ~',
+  'bash && touch /tmp/pwned',
+  '$(touch /tmp/pwned)',
+  '`id`',
+  'python3',
+  '/usr/bin/env'
+];
+
+/**
+ * Setup function to prepare the test environment
+ */
+async function setup() {
+  // Save original config to restore later
+  const originalConfig = await configManager.getConfig();
+  await configManager.updateConfig({ blockedCommands: ['touch'] });
+  return originalConfig;
+}
+
+/**
+ * Teardown function to restore the config
+ */
+async function teardown(originalConfig) {
+  await configManager.updateConfig(originalConfig);
+  console.log('✓ Teardown: config restored');
+}
+
+/**
+ * Test that only plain shell names or paths are accepted
+ */
+async function testInvalidShells() {
+  console.log('\nTest 1: Shell values that are not a shell executable');
+
+  for (const shell of INVALID_SHELLS) {
+    await assert.rejects(
+      shellManager.openShell(`invalid-${INVALID_SHELLS.indexOf(shell)}`, { shell }),
+      /Invalid shell/,
+      `The shell value should be rejected: ${shell}`
+    );
+    console.log(`✓ Rejected: ${JSON.stringify(shell)}`);
+  }
+  await assert.rejects(shellManager.openShell('missing', { shell: '/nonexistent/bash' }), /not found/, 'A missing shell should be rejected');
+  assert.strictEqual(shellManager.listShells().length, 0, 'No shell session should have been opened');
+}
+
+/**
+ * Test that a valid shell is opened and keeps state between commands
+ */
+async function testValidShell() {
+  console.log('\nTest 2: Opening a shell by name');
+
+  const shell = await shellManager.openShell('test-shell', { shell: 'sh' });
+  try {
+    assert.ok(shell.shell.startsWith('/'), 'The shell should be resolved to its absolute path');
+    await shellManager.runInShell('test-shell', 'export GREETING=hello');
+    const result = await shellManager.runInShell('test-shell', 'echo "$GREETING"');
+    assert.strictEqual(result.stdout.trim(), 'hello', 'Exported variables should persist between commands');
+  } finally {
+    await shellManager.closeShell('test-shell');
+  }
+
+  console.log('✓ The shell is opened and keeps its state');
+}
+
+/**
+ * Test that send_input checks what it sends to a shell session
+ */
+async function testShellInput() {
+  console.log('\nTest 3: Input sent to a shell session');
+
+  const probe = path.join(os.tmpdir(), `shell-input-probe-${process.pid}`);
+  const shell = await shellManager.openShell('input-shell', { shell: 'sh' });
+  try {
+    // Each of them would end up running touch
+    for (const input of [`touch ${probe}`, `ls; touch ${probe}`, `echo '`, 'tou\\', 'tou']) {
+      const newline = input !== 'tou';
+      const result = await sendInput({ pid: shell.pid, input, newline, settle_ms: 100, timeout_ms: 1000 });
+      assert.strictEqual(result.isError, true, `The input should be rejected: ${JSON.stringify(input)}`);
+      console.log(`✓ Rejected: ${JSON.stringify(input)} (${result.content[0].text})`);
+    }
+    const rest = await sendInput({ pid: shell.pid, input: `ch ${probe}`, settle_ms: 200, timeout_ms: 1000 });
+    assert.ok(!rest.isError, `Input that is allowed should be sent: ${rest.content[0].text}`);
+    assert.strictEqual(fs.existsSync(probe), false, 'No rejected input should have reached the shell');
+  } finally {
+    await shellManager.closeShell('input-shell');
+    fs.rmSync(probe, { force: true });
+  }
+
+  console.log('✓ Only checked input reaches the shell');
+}
+
+// Export the main test function
+export default async function runTests() {
+  let originalConfig;
+  try {
+    console.log('=== Shell Session Tests ===');
+    if (isWindows) {
+      console.log('Skipping shell session tests on Windows');
+      return true;
+    }
+    originalConfig = await setup();
+    await testInvalidShells();
+    await testValidShell();
+    await testShellInput();
+    console.log('\n✅ All shell session tests passed!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    return false;
+  } finally {
+    if (originalConfig) {
+      await teardown(originalConfig);
+    }
+  }
+  return true;
+}
+
+// If this file is run directly (not imported), execute the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTests().then(success => {
+    process.exit(success ? 0 : 1);
+  }).catch(error => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,114 @@
+/**
+ * Test script for sending input to terminal sessions
+ *
+ * This script tests input to sessions that cannot take it anymore:
+ * 1. Testing input to a session whose process closed its stdin
+ * 2. Testing that ctrl_c interrupts the command running in the session, not only its shell
+ */
+
+import { terminalManager } from '../dist/terminal-manager.js';
+import { sendInput } from '../dist/tools/execute.js';
+import assert from 'assert';
+
+const isWindows = process.platform === 'win32';
+
+/**
+ * Wait until a session has exited or the timeout elapses
+ */
+async function waitForExit(pid, timeoutMs) {
+  const startedAt = Date.now();
+  while (Date.now() - startedAt < timeoutMs) {
+    if (terminalManager.getCompletedSession(pid)) {
+      return true;
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  return false;
+}
+
+/**
+ * Test input to a session that closed its stdin
+ */
+async function testClosedStdin() {
+  console.log('\nTest 1: Input to a session with a closed stdin');
+
+  const started = await terminalManager.executeCommand('exec 0<&-; sleep 3', 200);
+  assert.ok(started.pid > 0, 'The session should start');
+  assert.strictEqual(started.isBlocked, true, 'The session should still be running');
+
+  // Give the shell time to close its stdin
+  await new Promise(resolve => setTimeout(resolve, 200));
+
+  await assert.rejects(
+    terminalManager.sendInput(started.pid, 'hello', { settleMs: 50, maxWaitMs: 500 }),
+    /stdin is closed/,
+    'Sending input to a closed stdin should be rejected'
+  );
+
+  const result = await sendInput({ pid: started.pid, input: 'again', settle_ms: 50, timeout_ms: 500 });
+  assert.strictEqual(result.isError, true, 'send_input should report an error');
+  assert.match(result.content[0].text, /stdin is closed/, 'The error should say that stdin is closed');
+
+  assert.ok(terminalManager.listActiveSessions().some(session => session.pid === started.pid), 'The session should keep running');
+  await terminalManager.forceTerminate(started.pid, { signal: 'SIGKILL' });
+  await waitForExit(started.pid, 2000);
+
+  console.log('✓ Input to a closed stdin is reported as an error');
+}
+
+/**
+ * Test that ctrl_c reaches the whole process group of a session
+ */
+async function testCtrlC() {
+  console.log('\nTest 2: ctrl_c interrupts the running command');
+
+  // The shell waits for sleep, which only stops if it receives the SIGINT itself
+  const started = await terminalManager.executeCommand('sleep 30; echo finished', 200);
+  assert.strictEqual(started.isBlocked, true, 'The session should still be running');
+
+  await terminalManager.sendInput(started.pid, '', { ctrlC: true, newline: false, settleMs: 50, maxWaitMs: 500 });
+  const exited = await waitForExit(started.pid, 3000);
+  if (!exited) {
+    await terminalManager.forceTerminate(started.pid, { signal: 'SIGKILL' });
+  }
+  assert.strictEqual(exited, true, 'ctrl_c should stop the command running in the session');
+
+  console.log('✓ ctrl_c interrupts the process group of the session');
+}
+
+/**
+ * Main test function
+ */
+async function testTerminalInput() {
+  console.log('=== Terminal Input Tests ===');
+
+  if (isWindows) {
+    console.log('Skipping terminal input tests on Windows');
+    return;
+  }
+  await testClosedStdin();
+  await testCtrlC();
+
+  console.log('\n✅ All terminal input tests passed!');
+}
+
+// Export the main test function
+export default async function runTests() {
+  try {
+    await testTerminalInput();
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    return false;
+  }
+  return true;
+}
+
+// If this file is run directly (not imported), execute the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTests().then(success => {
+    process.exit(success ? 0 : 1);
+  }).catch(error => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}
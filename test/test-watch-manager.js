@@ -0,0 +1,186 @@
+/**
+ * Test script for watches
+ *
+ * This script tests which file changes rerun a watched command:
+ * 1. Testing that changes to matching files are debounced into one run
+ * 2. Testing that changes to other files and to ignored paths do not run the command
+ * 3. Testing that files in directories created after the watch started are watched
+ * 4. Testing that a new run cancels the one still going and that stop ends the watch
+ */
+
+import { watchManager } from '../dist/watch-manager.js';
+import { terminalManager } from '../dist/terminal-manager.js';
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const isWindows = process.platform === 'win32';
+const WATCH_ROOT = path.join(os.tmpdir(), `watch-test-${process.pid}`);
+const DEBOUNCE_MS = 200;
+
+/**
+ * Setup function to prepare the watched directory
+ */
+async function setup() {
+  fs.mkdirSync(path.join(WATCH_ROOT, 'src'), { recursive: true });
+  fs.mkdirSync(path.join(WATCH_ROOT, 'build'), { recursive: true });
+  fs.writeFileSync(path.join(WATCH_ROOT, '.gitignore'), 'build/\n*.tmp.js\n');
+}
+
+/**
+ * Teardown function to stop the watches, their runs and remove the directory
+ */
+async function teardown() {
+  for (const watch of watchManager.list()) {
+    watchManager.stop(watch.id);
+    for (const run of watch.runs.filter(run => run.status === 'running' && run.pid !== null)) {
+      await terminalManager.forceTerminate(run.pid, { tree: true });
+    }
+  }
+  fs.rmSync(WATCH_ROOT, { recursive: true, force: true });
+  console.log('✓ Teardown: watches stopped');
+}
+
+/**
+ * Wait until a condition holds
+ */
+async function waitFor(condition, message, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    assert.ok(Date.now() < deadline, message);
+    await new Promise(resolve => setTimeout(resolve, 25));
+  }
+}
+
+/**
+ * Wait long enough for a debounced run to have started if a change triggered one
+ */
+function settle() {
+  return new Promise(resolve => setTimeout(resolve, DEBOUNCE_MS * 3));
+}
+
+/**
+ * Write a file in the watched directory
+ */
+function write(file, content = `${Date.now()}\n`) {
+  fs.writeFileSync(path.join(WATCH_ROOT, file), content);
+}
+
+/**
+ * Test that matching changes run the command once per burst
+ */
+async function testDebouncedRuns(watch) {
+  console.log('\nTest 1: Debounced runs');
+
+  write('src/a.js');
+  write('src/b.js');
+  write('src/a.js', 'again\n');
+  await waitFor(() => watch.runs.length === 1 && watch.runs[0].status !== 'running', 'A run should follow the changes');
+  await settle();
+  assert.strictEqual(watch.runs.length, 1, 'Changes within the debounce time should start a single run');
+  const [run] = watch.runs;
+  assert.strictEqual(run.status, 'passed', `The run should pass (${run.error})`);
+  assert.strictEqual(run.exitCode, 0, 'The run should report the exit code');
+  assert.deepStrictEqual([...run.changedFiles].sort(), ['src/a.js', 'src/b.js'], 'The run should list each changed file once, relative to the root');
+  console.log('✓ A burst of changes starts one run');
+}
+
+/**
+ * Test that changes the watch does not care about are left alone
+ */
+async function testIgnoredChanges(watch) {
+  console.log('\nTest 2: Changes that do not match');
+
+  write('notes.md');
+  write('src/style.css');
+  write('build/out.js');
+  write('src/cache.tmp.js');
+  await settle();
+  assert.strictEqual(watch.runs.length, 1, 'Changes to unmatched or ignored files should not start a run');
+  console.log('✓ Unmatched files and paths ignored by git do not start a run');
+}
+
+/**
+ * Test that new directories are watched
+ */
+async function testNewDirectories(watch) {
+  console.log('\nTest 3: New directories');
+
+  fs.mkdirSync(path.join(WATCH_ROOT, 'src', 'nested'));
+  await settle();
+  assert.strictEqual(watch.runs.length, 1, 'Creating a directory should not start a run');
+  write('src/nested/c.js');
+  await waitFor(() => watch.runs.length === 2 && watch.runs[1].status !== 'running', 'A change in a new directory should start a run');
+  assert.deepStrictEqual(watch.runs[1].changedFiles, ['src/nested/c.js'], 'The run should list the file in the new directory');
+  console.log('✓ Files in new directories are watched');
+}
+
+/**
+ * Test that runs replace each other and that a stopped watch does not run again
+ */
+async function testCancelAndStop() {
+  console.log('\nTest 4: Cancelling runs and stopping');
+
+  const watch = await watchManager.watch({ command: 'sleep 5', root: WATCH_ROOT, patterns: ['src/*.js'], debounceMs: DEBOUNCE_MS });
+  write('src/a.js');
+  await waitFor(() => watch.runs.length === 1 && watch.runs[0].pid !== null, 'The first run should start');
+  write('src/b.js');
+  await waitFor(() => watch.runs.length === 2 && watch.runs[1].pid !== null, 'The second run should start');
+  assert.strictEqual(watch.runs[0].status, 'cancelled', 'The run still going should be cancelled by the next one');
+  assert.strictEqual(watch.runs[1].status, 'running', 'The latest run should keep going');
+  console.log('✓ A new run cancels the one still going');
+
+  assert.strictEqual(watchManager.stop(watch.id), true, 'Stopping an active watch should succeed');
+  assert.strictEqual(watch.active, false, 'The watch should no longer be active');
+  assert.strictEqual(watch.watchedDirectories, 0, 'A stopped watch should not watch any directory');
+  write('src/c.js');
+  await settle();
+  assert.strictEqual(watch.runs.length, 2, 'A stopped watch should not run again');
+  assert.strictEqual(watchManager.stop(watch.id), false, 'Stopping a watch twice should report that it was not active');
+  console.log('✓ Stopped watches do not run again');
+
+  await assert.rejects(
+    watchManager.watch({ command: 'true', root: WATCH_ROOT, patterns: ['../*.js'] }),
+    /must be inside the watched directory/,
+    'Globs outside the root should be rejected'
+  );
+  console.log('✓ Globs outside the root are rejected');
+}
+
+// Export the main test function
+export default async function runTests() {
+  try {
+    console.log('=== Watch Tests ===');
+    if (isWindows) {
+      console.log('Skipping watch tests on Windows');
+      return true;
+    }
+    await setup();
+    const watch = await watchManager.watch({ command: 'true', root: WATCH_ROOT, patterns: ['src/**/*.js'], debounceMs: DEBOUNCE_MS });
+    await testDebouncedRuns(watch);
+    await testIgnoredChanges(watch);
+    await testNewDirectories(watch);
+    watchManager.stop(watch.id);
+    await testCancelAndStop();
+    console.log('\n✅ All watch tests passed!');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    return false;
+  } finally {
+    if (!isWindows) {
+      await teardown();
+    }
+  }
+  return true;
+}
+
+// If this file is run directly (not imported), execute the test
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runTests().then(success => {
+    process.exit(success ? 0 : 1);
+  }).catch(error => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+  });
+}